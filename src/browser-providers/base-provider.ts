@@ -3,27 +3,127 @@
  * Defines the common interface and shared functionality
  */
 
+import { pathToFileURL } from "node:url";
 import {
   type BrowserTools,
   type BrowserToolsConfig,
 } from "@/interfaces/browser-tools.js";
 import {
   type TabInfo,
+  type TabQuery,
+  type ScreenshotResult,
+  type AnnotatedCaptureOptions,
+  type AnnotatedScreenshot,
+  type BreakpointCapture,
+  type BreakpointElement,
+  type ResponsiveCaptureOptions,
+  type PDFOptions,
+  type PDFResult,
+  type PrintSettings,
+  type ArchiveOptions,
+  type ArchiveResult,
+  type ScreencastOptions,
+  type ScreencastFrame,
+  type ScreencastResult,
+  type ElementMark,
+  type EmulationOptions,
+  type DeviceEmulation,
   type CaptureOptions,
   type HTMLCaptureOptions,
   type CSSCaptureOptions,
   type ElementInfo,
+  type ElementExtractionOptions,
+  type FrameEvaluation,
+  type FrameHTML,
+  type AccessibilityOptions,
+  type AccessibilitySnapshot,
   type CaptureResult,
   type BrowserType,
+  type ScrollOptions,
+  type ScrollResult,
+  type SessionPoolStats,
+  type NavigationOptions,
+  type NavigationResult,
   BrowserConnectionError,
+  NavigationDeniedError,
+  TabOwnershipError,
   TabNotFoundError,
   CaptureError,
 } from "@/interfaces/types.js";
 import { type BrowserCapabilities } from "@/interfaces/capabilities.js";
+import { NavigationPolicy } from "@/core/navigation-policy.js";
+import { resolveEmulation } from "@/core/device-presets.js";
+import { resolvePrintSettings } from "@/core/paper-sizes.js";
+import {
+  archiveToHtml,
+  decodeHeaderValue,
+  parseMhtml,
+} from "@/utils/mhtml.js";
+import {
+  type RGBAImage,
+  cropImage,
+  decodePng,
+  encodeAnimatedPng,
+  encodePng,
+  imageDifference,
+  scaleImage,
+} from "@/utils/png.js";
+import { encodeJpeg } from "@/utils/jpeg.js";
+import {
+  buildCaptureFileName,
+  writeCaptureFile,
+} from "@/utils/capture-files.js";
+import {
+  buildElementExtractionExpression,
+  buildHTMLExpression,
+  buildMarksExpression,
+  buildRemoveMarksExpression,
+  buildScrollOffsetExpression,
+  buildSettleExpression,
+  prettifyHTML,
+} from "@/capture/page-scripts.js";
+
+/** Elements marked on an annotated screenshot unless maxMarks is given */
+const DEFAULT_MAX_MARKS = 100;
+/** Re-encodings tried while shrinking a screenshot to its byte budget */
+const MAX_BUDGET_ATTEMPTS = 8;
+/** JPEG quality used when none is given, also the first lossy budget attempt */
+const DEFAULT_JPEG_QUALITY = 80;
+/** Lowest JPEG quality tried before the resolution is reduced */
+const MIN_BUDGET_JPEG_QUALITY = 40;
+/** Resolution factor applied per attempt once quality is exhausted */
+const BUDGET_SCALE_STEP = 0.7;
+/** Screencast length unless durationMs is given */
+const DEFAULT_SCREENCAST_DURATION_MS = 3000;
+/** Longest screencast, so a recording cannot hold the tab indefinitely */
+const MAX_SCREENCAST_DURATION_MS = 30000;
+/** Distinct frames kept unless maxFrames is given */
+const DEFAULT_SCREENCAST_FRAMES = 12;
+/** Frames kept per second unless frameRate is given */
+const DEFAULT_SCREENCAST_FRAME_RATE = 4;
+/** Frame width unless maxWidth is given */
+const DEFAULT_SCREENCAST_MAX_WIDTH = 800;
+/** Per-channel difference below which two pixels count as equal */
+const FRAME_PIXEL_TOLERANCE = 2;
+
+/**
+ * Count the page objects of a PDF; 0 if they are compressed into object streams
+ */
+function countPdfPages(pdf: Buffer): number {
+  return pdf.toString("latin1").match(/\/Type\s*\/Page(?![a-zA-Z])/g)?.length ?? 0;
+}
 
 export abstract class BaseBrowserProvider implements BrowserTools {
   protected connected: boolean = false;
   protected config: BrowserToolsConfig;
+  protected navigationPolicy: NavigationPolicy;
+  /**
+   * Tabs opened by the agent; only these may be closed. Providers replace it
+   * with the set shared by their endpoint (see getAgentTabs)
+   */
+  protected agentTabs: Set<string> = new Set();
+  /** Emulation currently applied per tab by withEmulation */
+  protected emulations: Map<string, DeviceEmulation> = new Map();
 
   constructor(config: BrowserToolsConfig = {}) {
     this.config = {
@@ -32,6 +132,7 @@ export abstract class BaseBrowserProvider implements BrowserTools {
       debug: false,
       ...config,
     };
+    this.navigationPolicy = new NavigationPolicy(this.config.navigationAllowlist);
   }
 
   // Abstract methods that must be implemented by subclasses
@@ -40,15 +141,72 @@ export abstract class BaseBrowserProvider implements BrowserTools {
   abstract isAvailable(): Promise<boolean>;
   abstract connect(): Promise<void>;
   abstract disconnect(): Promise<void>;
-  abstract listTabs(): Promise<TabInfo[]>;
-  abstract captureScreenshot(
+  abstract listTabs(query?: TabQuery): Promise<TabInfo[]>;
+  /**
+   * Evaluate an expression in a tab and return its JSON-serializable value
+   * Promises are awaited
+   */
+  protected abstract evaluateInTab<T>(
     tabId: string,
-    options?: CaptureOptions,
+    expression: string,
+  ): Promise<T>;
+  /**
+   * Evaluate an expression in every frame of a tab, the main frame first
+   * Frames where evaluation fails report the error instead of a value
+   */
+  protected abstract evaluateInFrames<T>(
+    tabId: string,
+    expression: string,
+  ): Promise<FrameEvaluation<T>[]>;
+  /**
+   * Apply viewport, pixel ratio, touch and user-agent settings to a tab
+   */
+  protected abstract applyEmulation(
+    tabId: string,
+    emulation: DeviceEmulation,
+  ): Promise<void>;
+  /**
+   * Remove the settings applied by applyEmulation
+   */
+  protected abstract clearEmulation(
+    tabId: string,
+    emulation: DeviceEmulation,
+  ): Promise<void>;
+  /**
+   * Capture one screenshot at options.scale, ignoring the size budget
+   */
+  protected abstract renderScreenshot(
+    tabId: string,
+    options: CaptureOptions,
+  ): Promise<ScreenshotResult>;
+  /**
+   * Print the tab to a PDF and return it base64 encoded
+   */
+  protected abstract renderPDF(
+    tabId: string,
+    settings: PrintSettings,
   ): Promise<string>;
+  /**
+   * Take an MHTML snapshot of the tab with its stylesheets, images, fonts and frames
+   */
+  protected abstract renderArchive(tabId: string): Promise<string>;
+  /**
+   * Stream frames of the tab to onFrame until durationMs has passed or onFrame returns false
+   * Frames are base64 encoded PNGs; the result is the recording length in milliseconds
+   */
+  protected abstract recordScreencast(
+    tabId: string,
+    settings: { durationMs: number; maxWidth: number; maxHeight?: number },
+    onFrame: (data: string, elapsedMs: number) => boolean,
+  ): Promise<number>;
   abstract captureHTML(
     tabId: string,
     options?: HTMLCaptureOptions,
   ): Promise<string>;
+  abstract captureAccessibilityTree(
+    tabId: string,
+    options?: AccessibilityOptions,
+  ): Promise<AccessibilitySnapshot>;
   abstract captureCSS(
     tabId: string,
     options: CSSCaptureOptions,
@@ -57,26 +215,593 @@ export abstract class BaseBrowserProvider implements BrowserTools {
   abstract extractElements(
     tabId: string,
     selectors: string[],
+    options?: ElementExtractionOptions,
   ): Promise<ElementInfo[]>;
 
   abstract scrollPage(
     tabId: string,
-    options: {
-      scrollType: 'pixels' | 'coordinates' | 'viewport' | 'element' | 'top' | 'bottom';
-      x?: number;
-      y?: number;
-      selector?: string;
-      smooth?: boolean;
-    },
-  ): Promise<{
-    success: boolean;
-    scrollPosition: { x: number; y: number };
-    viewportSize: { width: number; height: number };
-    pageSize: { width: number; height: number };
-  }>;
+    options: ScrollOptions,
+  ): Promise<ScrollResult>;
+  abstract navigateTab(
+    tabId: string,
+    url: string,
+    options?: NavigationOptions,
+  ): Promise<NavigationResult>;
+  abstract openTab(
+    url?: string,
+    options?: NavigationOptions,
+  ): Promise<NavigationResult>;
+  abstract reloadTab(
+    tabId: string,
+    options?: NavigationOptions & { ignoreCache?: boolean },
+  ): Promise<NavigationResult>;
+  abstract duplicateTab(
+    tabId: string,
+    options?: NavigationOptions,
+  ): Promise<NavigationResult>;
+  abstract closeTab(tabId: string): Promise<void>;
 
   // Common implementations that can be overridden by subclasses
 
+  /**
+   * Close every agent-owned tab, ignoring tabs that are already gone
+   * @returns IDs of the tabs that were closed
+   */
+  async closeAgentTabs(): Promise<string[]> {
+    const closed: string[] = [];
+    for (const tabId of [...this.agentTabs]) {
+      try {
+        await this.closeTab(tabId);
+        closed.push(tabId);
+      } catch (error) {
+        this.debug(`Could not close agent tab ${tabId}:`, error);
+        this.agentTabs.delete(tabId);
+      }
+    }
+    return closed;
+  }
+
+  /**
+   * Get connection reuse statistics
+   * Providers without a session pool report null
+   */
+  getSessionPoolStats(): SessionPoolStats | null {
+    return null;
+  }
+
+  /**
+   * Capture a screenshot and return only the base64 image data
+   */
+  async captureScreenshot(
+    tabId: string,
+    options?: CaptureOptions,
+  ): Promise<string> {
+    const result = await this.captureScreenshotDetailed(tabId, options);
+    return result.data;
+  }
+
+  /**
+   * Print the tab to a PDF with the paper format resolved to explicit sizes
+   */
+  async capturePDF(tabId: string, options: PDFOptions = {}): Promise<PDFResult> {
+    const settings = resolvePrintSettings(options);
+    const data = await this.renderPDF(tabId, settings);
+    const pdf = Buffer.from(data, "base64");
+
+    const result: PDFResult = { data, bytes: pdf.length, settings };
+    const pageCount = countPdfPages(pdf);
+    if (pageCount > 0) {
+      result.pageCount = pageCount;
+    }
+    return result;
+  }
+
+  /**
+   * Snapshot the tab as MHTML, optionally flatten it into a single HTML file,
+   * and save it to the output directory
+   */
+  async captureArchive(
+    tabId: string,
+    options: ArchiveOptions = {},
+  ): Promise<ArchiveResult> {
+    const format = options.format ?? "mhtml";
+    const mhtml = await this.renderArchive(tabId);
+
+    try {
+      const archive = parseMhtml(mhtml);
+      const url = archive.headers["snapshot-content-location"] ?? "";
+      const title = decodeHeaderValue(archive.headers.subject ?? "");
+
+      let content = mhtml;
+      let inlined: number | undefined;
+      if (format === "html") {
+        ({ html: content, inlined } = archiveToHtml(archive));
+      }
+
+      const path = await writeCaptureFile(
+        this.config.outputDirectory,
+        buildCaptureFileName(url, format),
+        content,
+      );
+      const result: ArchiveResult = {
+        path,
+        uri: pathToFileURL(path).href,
+        format,
+        mimeType: format === "html" ? "text/html" : "multipart/related",
+        bytes: Buffer.byteLength(content),
+        url,
+        title,
+        // Everything but the page itself
+        resources: Math.max(0, archive.parts.length - 1),
+      };
+      if (inlined !== undefined) {
+        result.inlined = inlined;
+      }
+      return result;
+    } catch (error) {
+      throw new CaptureError(
+        `Failed to save archive: ${error instanceof Error ? error.message : String(error)}`,
+        tabId,
+        "archive",
+      );
+    }
+  }
+
+  /**
+   * Run the HTML extraction in every frame and prettify each document
+   */
+  async captureFrameHTML(
+    tabId: string,
+    options: HTMLCaptureOptions = {},
+  ): Promise<FrameHTML[]> {
+    const frames = await this.evaluateInFrames<string>(
+      tabId,
+      buildHTMLExpression(options),
+    );
+
+    return frames.map(({ value, ...frame }) => {
+      const result: FrameHTML = frame;
+      if (value !== undefined) {
+        result.html = value;
+        if (options.prettify && value && (options.format ?? "html") === "html") {
+          try {
+            result.html = prettifyHTML(value);
+          } catch (formatError) {
+            this.debug("HTML formatting failed, returning unformatted:", formatError);
+          }
+        }
+      }
+      return result;
+    });
+  }
+
+  /**
+   * Extract elements from every frame of a tab, tagging each with its frame
+   * Frames that cannot be searched and selectors without matches are skipped
+   */
+  protected async extractElementsFromFrames(
+    tabId: string,
+    selectors: string[],
+  ): Promise<ElementInfo[]> {
+    const frames = await this.evaluateInFrames<(ElementInfo & { error?: string })[]>(
+      tabId,
+      buildElementExtractionExpression(selectors),
+    );
+
+    const elements: ElementInfo[] = [];
+    for (const frame of frames) {
+      if (frame.error) {
+        this.debug(`Skipping frame ${frame.frameId} (${frame.url}): ${frame.error}`);
+      }
+      for (const element of frame.value ?? []) {
+        if (!element.error) {
+          elements.push({ ...element, frameId: frame.frameId, frameUrl: frame.url });
+        }
+      }
+    }
+    return elements;
+  }
+
+  /**
+   * Record frames and sample the one on screen frameRate times per second,
+   * dropping samples that match the last kept frame, then fill in durations
+   * and the animation
+   */
+  async captureScreencast(
+    tabId: string,
+    options: ScreencastOptions = {},
+  ): Promise<ScreencastResult> {
+    const durationMs = options.durationMs ?? DEFAULT_SCREENCAST_DURATION_MS;
+    const maxFrames = options.maxFrames ?? DEFAULT_SCREENCAST_FRAMES;
+    const frameRate = options.frameRate ?? DEFAULT_SCREENCAST_FRAME_RATE;
+    const minChange = options.minChange ?? 0;
+    if (!(durationMs > 0 && durationMs <= MAX_SCREENCAST_DURATION_MS)) {
+      throw new Error(
+        `Invalid duration ${durationMs}ms: must be between 1 and ${MAX_SCREENCAST_DURATION_MS}`,
+      );
+    }
+    if (!(maxFrames >= 1) || !(frameRate > 0) || !(minChange >= 0 && minChange < 1)) {
+      throw new Error("maxFrames, frameRate and minChange must be positive, minChange below 1");
+    }
+
+    type RecordedFrame = { data: string; image: RGBAImage; timestamp: number };
+    const kept: RecordedFrame[] = [];
+    // Frame on screen right now; it is sampled at every 1/frameRate tick
+    let current = null as RecordedFrame | null;
+    let currentSampled = false;
+    let nextTick = 0;
+    let receivedFrames = 0;
+    let duplicateFrames = 0;
+    let skippedFrames = 0;
+
+    const isSame = (a: RecordedFrame, b: RecordedFrame): boolean =>
+      imageDifference(a.image, b.image, FRAME_PIXEL_TOLERANCE) <= minChange;
+    // Keep the frame on screen unless it matches the last kept one
+    const sampleCurrent = (): void => {
+      if (!current || currentSampled) {
+        return;
+      }
+      currentSampled = true;
+      const last = kept.at(-1);
+      if (last && isSame(last, current)) {
+        duplicateFrames++;
+      } else {
+        kept.push(current);
+      }
+    };
+
+    const settings: { durationMs: number; maxWidth: number; maxHeight?: number } = {
+      durationMs,
+      maxWidth: options.maxWidth ?? DEFAULT_SCREENCAST_MAX_WIDTH,
+    };
+    if (options.maxHeight !== undefined) {
+      settings.maxHeight = options.maxHeight;
+    }
+
+    const interval = 1000 / frameRate;
+    const recordedMs = await this.recordScreencast(tabId, settings, (data, elapsedMs) => {
+      receivedFrames++;
+      if (elapsedMs >= nextTick) {
+        sampleCurrent();
+        nextTick = (Math.floor(elapsedMs / interval) + 1) * interval;
+      }
+
+      const frame = {
+        data,
+        image: decodePng(Buffer.from(data, "base64")),
+        timestamp: elapsedMs,
+      };
+      if (current && isSame(current, frame)) {
+        // Static period: the frame on screen keeps the time it first appeared
+        duplicateFrames++;
+      } else {
+        if (current && !currentSampled) {
+          // Replaced before the next tick
+          skippedFrames++;
+        }
+        current = frame;
+        currentSampled = false;
+        if (kept.length === 0) {
+          sampleCurrent();
+        }
+      }
+      return kept.length < maxFrames;
+    });
+    // The final state is always kept, if there is room
+    if (kept.length < maxFrames) {
+      sampleCurrent();
+    }
+
+    if (kept.length === 0) {
+      throw new CaptureError(
+        "No screencast frames received; the tab may be hidden or in a minimized window",
+        tabId,
+        "screencast",
+      );
+    }
+
+    const frames: ScreencastFrame[] = kept.map((frame, index) => ({
+      data: frame.data,
+      timestamp: frame.timestamp,
+      durationMs:
+        (kept[index + 1]?.timestamp ?? Math.max(recordedMs, frame.timestamp)) -
+        frame.timestamp,
+      width: frame.image.width,
+      height: frame.image.height,
+    }));
+    const result: ScreencastResult = {
+      frames,
+      recordedMs,
+      receivedFrames,
+      duplicateFrames,
+      skippedFrames,
+    };
+
+    if (options.animate) {
+      // A resize mid-recording changes the frame size; animate the common area
+      const width = Math.min(...kept.map((frame) => frame.image.width));
+      const height = Math.min(...kept.map((frame) => frame.image.height));
+      const animation = encodeAnimatedPng(
+        kept.map((frame) => cropImage(frame.image, 0, 0, width, height)),
+        frames.map((frame) => frame.durationMs),
+      );
+      result.animation = {
+        data: animation.toString("base64"),
+        width,
+        height,
+        bytes: animation.length,
+      };
+    }
+    return result;
+  }
+
+  /**
+   * Capture a screenshot that fits the size budget in options
+   * With a budget the page is captured once as PNG and the image is then
+   * downscaled to maxWidth/maxHeight and re-encoded in memory; while it
+   * exceeds maxBytes, JPEG, lower JPEG quality and then lower resolutions are
+   * tried. WebP cannot be encoded in memory, so budgeted WebP requests are
+   * delivered as JPEG
+   */
+  async captureScreenshotDetailed(
+    tabId: string,
+    options: CaptureOptions = {},
+  ): Promise<ScreenshotResult> {
+    const { maxWidth, maxHeight, maxBytes, ...captureOptions } = options;
+    if (maxWidth === undefined && maxHeight === undefined && maxBytes === undefined) {
+      return this.renderScreenshot(tabId, captureOptions);
+    }
+
+    // Every attempt re-encodes the same pixels, so the result always shows the
+    // page as it was captured
+    const { format: requestedFormat, quality: requestedQuality, ...renderOptions } =
+      captureOptions;
+    const capture = await this.renderScreenshot(tabId, {
+      ...renderOptions,
+      format: "png",
+    });
+    const source = decodePng(Buffer.from(capture.data, "base64"));
+
+    const canUseJpeg = this.getCapabilities().supportedImageFormats.includes("jpeg");
+    let format: "png" | "jpeg" =
+      (requestedFormat ?? "png") !== "png" && canUseJpeg ? "jpeg" : "png";
+    let quality = requestedQuality ?? DEFAULT_JPEG_QUALITY;
+    let scale = Math.min(
+      1,
+      maxWidth ? maxWidth / source.width : 1,
+      maxHeight ? maxHeight / source.height : 1,
+    );
+
+    let scaled = { scale: 1, image: source };
+    const encode = (): ScreenshotResult => {
+      if (scaled.scale !== scale) {
+        scaled = {
+          scale,
+          image: scaleImage(source, source.width * scale, source.height * scale),
+        };
+      }
+      const { image } = scaled;
+      const data = (
+        format === "jpeg" ? encodeJpeg(image, quality) : encodePng(image)
+      ).toString("base64");
+      const result: ScreenshotResult = {
+        ...capture,
+        data,
+        format,
+        width: image.width,
+        height: image.height,
+        scale: capture.scale * (image.width / source.width),
+        bytes: data.length,
+      };
+      if (format === "jpeg") {
+        result.quality = quality;
+      }
+      return result;
+    };
+
+    // An untouched PNG is delivered as captured
+    let result = scale < 1 || format !== "png" ? encode() : capture;
+    if (maxBytes === undefined) {
+      return result;
+    }
+
+    for (
+      let attempt = 0;
+      result.bytes > maxBytes && attempt < MAX_BUDGET_ATTEMPTS;
+      attempt++
+    ) {
+      if (format !== "jpeg" && canUseJpeg) {
+        format = "jpeg";
+        quality = Math.min(quality, DEFAULT_JPEG_QUALITY);
+      } else if (format === "jpeg" && quality > MIN_BUDGET_JPEG_QUALITY) {
+        quality = Math.max(MIN_BUDGET_JPEG_QUALITY, quality - 20);
+      } else if (result.width * BUDGET_SCALE_STEP >= 1) {
+        scale *= BUDGET_SCALE_STEP;
+      } else {
+        break;
+      }
+
+      this.debug(
+        `Screenshot is ${result.bytes} bytes, over the ${maxBytes} byte budget; re-encoding as ${format}${format === "jpeg" ? ` at quality ${quality}` : ""}, scale ${scale.toFixed(2)}`,
+      );
+      result = encode();
+    }
+
+    return { ...result, withinBudget: result.bytes <= maxBytes };
+  }
+
+  /**
+   * Run an operation with device emulation applied to the tab
+   * Nested calls restore the outer emulation when they finish
+   */
+  async withEmulation<T>(
+    tabId: string,
+    options: EmulationOptions,
+    operation: () => Promise<T>,
+  ): Promise<T> {
+    const emulation = resolveEmulation(options);
+    const previous = this.emulations.get(tabId);
+
+    await this.applyEmulation(tabId, emulation);
+    this.emulations.set(tabId, emulation);
+    try {
+      // Let the page react to the resize before capturing
+      await this.evaluateInTab(tabId, buildSettleExpression()).catch(
+        () => undefined,
+      );
+      return await operation();
+    } finally {
+      try {
+        await this.clearEmulation(tabId, emulation);
+        if (previous) {
+          await this.applyEmulation(tabId, previous);
+          this.emulations.set(tabId, previous);
+        } else {
+          this.emulations.delete(tabId);
+        }
+      } catch (error) {
+        this.emulations.delete(tabId);
+        this.debug(`Failed to restore emulation of tab ${tabId}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Capture the viewport with numbered boxes over the visible interactive elements
+   * The overlay is removed again once the screenshot is taken
+   */
+  async captureAnnotatedScreenshot(
+    tabId: string,
+    options: AnnotatedCaptureOptions = {},
+  ): Promise<AnnotatedScreenshot> {
+    const { maxMarks, ...rest } = options;
+    const captureOptions: CaptureOptions = { ...rest };
+    // Marks are positioned in the viewport, so only viewport captures line up
+    delete captureOptions.fullPage;
+    delete captureOptions.selector;
+    delete captureOptions.clip;
+
+    let marks: ElementMark[];
+    try {
+      marks = await this.evaluateInTab<ElementMark[]>(
+        tabId,
+        buildMarksExpression(maxMarks ?? DEFAULT_MAX_MARKS),
+      );
+    } catch (error) {
+      throw new CaptureError(
+        `Failed to mark interactive elements: ${error instanceof Error ? error.message : String(error)}`,
+        tabId,
+        "screenshot",
+      );
+    }
+
+    try {
+      const screenshot = await this.captureScreenshotDetailed(tabId, captureOptions);
+      return { screenshot, marks };
+    } finally {
+      await this.evaluateInTab(tabId, buildRemoveMarksExpression()).catch(
+        (error: unknown) => this.debug("Failed to remove element marks:", error),
+      );
+    }
+  }
+
+  /**
+   * Capture the tab at several viewport widths, one emulation per breakpoint
+   * Selector boxes are measured after each screenshot, while the width is still applied
+   */
+  async captureResponsive(
+    tabId: string,
+    options: ResponsiveCaptureOptions,
+  ): Promise<BreakpointCapture[]> {
+    const { widths, height, emulation, selectors = [], ...captureOptions } =
+      options;
+    if (widths.length === 0) {
+      throw new Error("At least one breakpoint width is required");
+    }
+
+    const captures: BreakpointCapture[] = [];
+    for (const width of widths) {
+      const breakpoint: EmulationOptions = { ...emulation, width };
+      if (height !== undefined) {
+        breakpoint.height = height;
+      }
+
+      captures.push(
+        await this.withEmulation(tabId, breakpoint, async () => {
+          const screenshot = await this.captureScreenshotDetailed(
+            tabId,
+            captureOptions,
+          );
+          const elements: BreakpointElement[] = [];
+          if (selectors.length > 0) {
+            const offset = await this.evaluateInTab<{ x: number; y: number }>(
+              tabId,
+              buildScrollOffsetExpression(),
+            );
+            // One call per selector keeps matches grouped by the requested selector
+            for (const selector of selectors) {
+              const matches = await this.extractElements(tabId, [selector]);
+              elements.push({
+                selector,
+                boxes: matches.flatMap((element) =>
+                  element.boundingBox
+                    ? [
+                        {
+                          ...element.boundingBox,
+                          x: Math.round(element.boundingBox.x + offset.x),
+                          y: Math.round(element.boundingBox.y + offset.y),
+                        },
+                      ]
+                    : [],
+                ),
+              });
+            }
+          }
+          return { width, screenshot, elements };
+        }),
+      );
+    }
+    return captures;
+  }
+
+  /**
+   * Build a screenshot result from the captured region
+   * @param data - Base64 encoded image data
+   * @param format - Image format of data
+   * @param region - Captured size in CSS pixels
+   * @param devicePixelRatio - Pixel ratio the page was rendered at
+   * @param options - Capture options, for scale and quality
+   * @returns Screenshot result with delivered and full-resolution dimensions
+   */
+  protected toScreenshotResult(
+    data: string,
+    format: ScreenshotResult["format"],
+    region: { width: number; height: number },
+    devicePixelRatio: number,
+    options: CaptureOptions,
+  ): ScreenshotResult {
+    const scale = options.scale ?? 1;
+    const result: ScreenshotResult = {
+      data,
+      format,
+      width: Math.round(region.width * devicePixelRatio * scale),
+      height: Math.round(region.height * devicePixelRatio * scale),
+      originalWidth: Math.round(region.width * devicePixelRatio),
+      originalHeight: Math.round(region.height * devicePixelRatio),
+      scale,
+      devicePixelRatio,
+      bytes: data.length,
+      tiles: 1,
+      truncated: false,
+    };
+    const quality =
+      options.quality ?? (format === "jpeg" ? DEFAULT_JPEG_QUALITY : undefined);
+    if (format !== "png" && quality !== undefined) {
+      result.quality = quality;
+    }
+    return result;
+  }
+
   /**
    * Perform a complete capture of a tab (screenshot + HTML + CSS)
    * Default implementation that calls individual capture methods
@@ -151,6 +876,129 @@ export abstract class BaseBrowserProvider implements BrowserTools {
     }
   }
 
+  /**
+   * Throw unless the navigation allowlist permits loading the URL
+   * @param url - URL about to be loaded
+   * @returns Normalized URL
+   * @throws NavigationDeniedError if the URL is not allowed
+   */
+  protected assertNavigationAllowed(url: string): string {
+    const decision = this.navigationPolicy.check(url);
+    if (!decision.allowed) {
+      throw new NavigationDeniedError(
+        `Navigation to ${decision.url} denied: ${decision.reason}`,
+        decision.url,
+        decision.reason,
+        this.navigationPolicy.allowlist,
+      );
+    }
+    return decision.url;
+  }
+
+  /**
+   * Throw unless the page a navigation ended on is allowed too; redirects can
+   * lead away from the URL that was checked before loading
+   * @param requestedUrl - URL that passed assertNavigationAllowed
+   * @param result - Outcome of the navigation
+   * @param leave - Moves the tab off a denied page; failures are only logged
+   * @returns The result, when its URL is allowed
+   * @throws NavigationDeniedError if the final URL is not allowed
+   */
+  protected async assertNavigationEndAllowed(
+    requestedUrl: string,
+    result: NavigationResult,
+    leave: () => Promise<unknown>,
+  ): Promise<NavigationResult> {
+    const decision = this.navigationPolicy.check(result.url);
+    if (decision.allowed) {
+      return result;
+    }
+
+    await leave().catch((error: unknown) =>
+      this.debug(`Could not leave denied page in tab ${result.tabId}:`, error),
+    );
+    throw new NavigationDeniedError(
+      `Navigation to ${requestedUrl} ended on ${decision.url}, which is denied: ${decision.reason}`,
+      decision.url,
+      decision.reason,
+      this.navigationPolicy.allowlist,
+    );
+  }
+
+  /**
+   * Throw unless the tab was opened by the agent
+   * @param tabId - Tab about to be closed
+   * @throws TabOwnershipError if the tab belongs to the user
+   */
+  protected assertAgentOwned(tabId: string): void {
+    if (!this.agentTabs.has(tabId)) {
+      throw new TabOwnershipError(
+        `Tab ${tabId} was not opened by the agent and cannot be closed. Only tabs created with open_tab or duplicate_tab can be closed.`,
+        tabId,
+      );
+    }
+  }
+
+  /**
+   * Reflect the navigation policy in a capabilities object
+   * @param capabilities - Static provider capabilities
+   * @returns Capabilities with canNavigate and limitations matching the policy
+   */
+  protected withNavigationPolicy(
+    capabilities: BrowserCapabilities,
+  ): BrowserCapabilities {
+    return {
+      ...capabilities,
+      canNavigate: this.navigationPolicy.isEnabled,
+      limitations: [
+        ...capabilities.limitations,
+        this.navigationPolicy.isEnabled
+          ? `Navigation limited to: ${this.navigationPolicy.allowlist.join(", ")}`
+          : "Navigation disabled: no navigation allowlist configured",
+      ],
+    };
+  }
+
+  /**
+   * Mark the tab the user is looking at as active
+   * The focused tab wins; without a focused window the first visible tab is used
+   * @param tabs - Tabs with visible/focused resolved
+   * @returns The same tabs with exactly one active tab when any is visible
+   */
+  protected markActiveTab(tabs: TabInfo[]): TabInfo[] {
+    const activeTab =
+      tabs.find((tab) => tab.focused) ?? tabs.find((tab) => tab.visible);
+    for (const tab of tabs) {
+      tab.active = tab === activeTab;
+    }
+    return tabs;
+  }
+
+  /**
+   * Grow an element box by padding on every side, clamped to the document
+   * @param box - Element box in document CSS pixels
+   * @param padding - Extra CSS pixels on every side
+   * @param documentSize - Scrollable document size in CSS pixels
+   * @returns Clip region in document CSS pixels
+   */
+  protected padClip(
+    box: { x: number; y: number; width: number; height: number },
+    padding: number,
+    documentSize: { width: number; height: number },
+  ): { x: number; y: number; width: number; height: number } {
+    const x = Math.max(0, box.x - padding);
+    const y = Math.max(0, box.y - padding);
+    const right = Math.min(
+      Math.max(documentSize.width, box.x + box.width),
+      box.x + box.width + padding,
+    );
+    const bottom = Math.min(
+      Math.max(documentSize.height, box.y + box.height),
+      box.y + box.height + padding,
+    );
+    return { x, y, width: right - x, height: bottom - y };
+  }
+
   /**
    * Helper method to find a tab by ID
    */
@@ -183,15 +1031,16 @@ export abstract class BaseBrowserProvider implements BrowserTools {
     timeoutMs?: number,
   ): Promise<T> {
     const timeout = timeoutMs ?? this.config.timeout ?? 30000;
+    let timer: NodeJS.Timeout | undefined;
 
     return Promise.race([
       promise,
       new Promise<never>((_, reject) => {
-        setTimeout(() => {
+        timer = setTimeout(() => {
           reject(new Error(`Operation timed out after ${timeout}ms`));
         }, timeout);
       }),
-    ]);
+    ]).finally(() => clearTimeout(timer));
   }
 
   /**
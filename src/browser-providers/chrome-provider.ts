@@ -1,6 +1,7 @@
 /**
  * Chrome browser provider implementation
  * Uses Chrome DevTools Protocol for browser automation
+ * Also serves every other Chromium-family browser (Chromium, Edge, Brave, Vivaldi)
  */
 
  
@@ -8,14 +9,30 @@ import CDP from "chrome-remote-interface";
 import { BaseBrowserProvider } from "@/browser-providers/base-provider.js";
 import {
   type TabInfo,
+  type TabQuery,
   type CaptureOptions,
   type HTMLCaptureOptions,
   type CSSCaptureOptions,
   type ElementInfo,
+  type ElementExtractionOptions,
+  type FrameEvaluation,
+  type AccessibilityOptions,
+  type AccessibilitySnapshot,
   type BrowserType,
+  type ChromiumBrowserType,
+  type ScrollOptions,
+  type ScrollResult,
+  type SessionPoolStats,
+  type NavigationOptions,
+  type NavigationResult,
+  type ScreenshotResult,
+  type DeviceEmulation,
+  type MediaEmulation,
+  type PrintSettings,
   BrowserConnectionError,
   TabNotFoundError,
   CaptureError,
+  NavigationDeniedError,
 } from "@/interfaces/types.js";
 import {
   type BrowserCapabilities,
@@ -23,27 +40,165 @@ import {
 } from "@/interfaces/capabilities.js";
 import { type BrowserToolsConfig } from "@/interfaces/browser-tools.js";
 import { chromeLog } from "@/utils/logger.js";
+import {
+  type DebugEndpoint,
+  formatHostPort,
+  getHttpUrl,
+  getWebSocketUrl,
+  isLocalEndpoint,
+  resolveDebugEndpoint,
+} from "@/utils/debug-endpoint.js";
+import { getChromiumLauncher } from "@/utils/chrome-launcher.js";
+import { filterTabs } from "@/core/tab-query.js";
+import { getAgentTabs } from "@/core/agent-tabs.js";
+import {
+  type RawAXNode,
+  buildAccessibilityTree,
+  formatAccessibilityTree,
+  parseElementRef,
+  toElementRef,
+} from "@/core/accessibility-tree.js";
+import {
+  type RawMatchedStyles,
+  type RawStyleSheetHeader,
+  buildElementCascade,
+  formatCascade,
+} from "@/core/css-cascade.js";
+import {
+  type RGBAImage,
+  decodePng,
+  encodePng,
+  stackImages,
+} from "@/utils/png.js";
+import { type CDPSession, CDPSessionPool } from "@/utils/cdp-session-pool.js";
+import {
+  CHROMIUM_BROWSERS,
+  identifyChromiumBrowser,
+} from "@/utils/chromium-browsers.js";
+import {
+  buildHTMLExpression,
+  buildCSSExpression,
+  buildElementExtractionExpression,
+  buildDescribeElementFunction,
+  buildAncestorLabelsFunction,
+  buildScrollExpression,
+  buildPageStateExpression,
+  buildFixedElementsExpression,
+  buildSettleExpression,
+  prettifyHTML,
+  prettifyCSS,
+} from "@/capture/page-scripts.js";
+
+/** Page target as reported by Target.getTargets */
+interface ChromeTargetInfo {
+  targetId: string;
+  type: string;
+  title: string;
+  url: string;
+  attached: boolean;
+}
 
-export class ChromeProvider extends BaseBrowserProvider {
-  private cdpClient: any = null; // Chrome DevTools Protocol client
-  private readonly debugPort: number;
-  private enabledDomains: Set<string> = new Set();
+/** Page target as listed by the DevTools HTTP endpoint (/json/list) */
+interface ChromeListedTarget {
+  id: string;
+  type: string;
+  faviconUrl?: string;
+}
+
+/** Node of a pierced DOM.getDocument tree, with the fields used to walk it */
+interface DOMNode {
+  nodeId: number;
+  children?: DOMNode[];
+  shadowRoots?: (DOMNode & { shadowRootType?: string })[];
+  contentDocument?: DOMNode;
+}
+
+/** Frame as reported by Page.getFrameTree */
+interface FrameTreeNode {
+  frame: { id: string; url: string; urlFragment?: string; name?: string };
+  childFrames?: FrameTreeNode[];
+}
+
+/** Runtime.evaluate and Runtime.callFunctionOn response, with the fields used here */
+interface RuntimeResponse {
+  result: { value?: unknown };
+  exceptionDetails?: { text: string; exception?: { description?: string } };
+}
+
+/** Page geometry used to plan screenshots, in CSS pixels */
+interface PageMetrics {
+  contentWidth: number;
+  contentHeight: number;
+  viewportWidth: number;
+  viewportHeight: number;
+  scrollX: number;
+  scrollY: number;
+  devicePixelRatio: number;
+}
 
-  constructor(config: BrowserToolsConfig = {}) {
+/** Isolated world the per-frame expressions run in */
+const FRAME_WORLD_NAME = "mcp-browser-lens";
+/** Remote objects created while describing elements, released together */
+const ELEMENT_OBJECT_GROUP = "mcp-browser-lens-elements";
+/** Elements described per selector, as in the in-page extraction */
+const MAX_ELEMENTS_PER_SELECTOR = 10;
+/** Time allowed to read the target listing, or visibility and focus from one tab, while listing */
+const PAGE_STATE_TIMEOUT_MS = 2000;
+/** Reconnect attempts after the connection is lost */
+const MAX_RECOVERY_ATTEMPTS = 5;
+/** Delay before the first reconnect attempt, doubled for every further attempt */
+const RECOVERY_BASE_DELAY_MS = 1000;
+const DEFAULT_HEALTH_CHECK_INTERVAL_MS = 10000;
+const HEALTH_CHECK_TIMEOUT_MS = 5000;
+/**
+ * Tallest full page captured in one shot, in device pixels. Chrome's GPU
+ * texture limit is 16384px and captures well below it already show artifacts
+ */
+const FULL_PAGE_SINGLE_CAPTURE_MAX_PX = 8192;
+/** Height of each tile of a stitched full-page capture, in device pixels */
+const FULL_PAGE_TILE_HEIGHT_PX = 4096;
+
+export class ChromeProvider extends BaseBrowserProvider {
+  private cdpClient: CDP.CDPClient | null = null; // Chrome DevTools Protocol browser connection
+  private readonly endpoint: DebugEndpoint;
+  private readonly browserType: ChromiumBrowserType;
+  private browserWebSocketUrl: string | null = null;
+  private sessionPool: CDPSessionPool | null = null;
+  private healthCheckTimer: NodeJS.Timeout | null = null;
+  private recovery: Promise<void> | null = null;
+  private recoveryAttempt: number = 0;
+  private connectionLostReason: string | null = null;
+  private disconnecting: boolean = false;
+  /** Element refs issued by accessibility snapshots, per tab: "ref=e123" selector to backend node ID */
+  private readonly elementRefs = new Map<string, Map<string, number>>();
+
+  constructor(
+    config: BrowserToolsConfig = {},
+    browserType: ChromiumBrowserType = "chrome",
+  ) {
     super(config);
-    this.debugPort = config.customPorts?.chrome ?? 9222;
+    this.browserType = browserType;
+    this.endpoint = resolveDebugEndpoint(config, browserType);
+    this.agentTabs = getAgentTabs(this.endpoint);
   }
 
   getBrowserType(): BrowserType {
-    return "chrome";
+    return this.browserType;
   }
 
   getCapabilities(): BrowserCapabilities {
-    return { ...TIER_1_CAPABILITIES };
+    return this.withNavigationPolicy(TIER_1_CAPABILITIES);
+  }
+
+  /**
+   * Display name of the Chromium-family browser behind this provider
+   */
+  private get displayName(): string {
+    return CHROMIUM_BROWSERS[this.browserType].displayName;
   }
 
   async isAvailable(): Promise<boolean> {
-    const url = `http://localhost:${this.debugPort}/json/version`;
+    const url = getHttpUrl(this.endpoint, "/json/version");
     chromeLog.debug(`Checking availability at ${url}...`);
 
     try {
@@ -57,8 +212,29 @@ export class ChromeProvider extends BaseBrowserProvider {
       );
 
       if (response.ok) {
-        const data = await response.json();
-        chromeLog.success("Chrome is available:", data);
+        const data = (await response.json()) as Record<string, string>;
+
+        // Make sure the port is served by the browser this provider was created for
+        const identified = identifyChromiumBrowser(data, this.browserType);
+        if (identified !== this.browserType) {
+          chromeLog.debug(
+            `${formatHostPort(this.endpoint)} is served by ${CHROMIUM_BROWSERS[identified].displayName}, not ${this.displayName}`,
+          );
+          return false;
+        }
+
+        // An explicitly configured endpoint wins over the advertised one; the
+        // advertised URL is re-rooted on our host:port so tunnels and port maps work
+        this.browserWebSocketUrl =
+          this.endpoint.webSocketDebuggerUrl ??
+          (data.webSocketDebuggerUrl
+            ? getWebSocketUrl(
+                this.endpoint,
+                new URL(data.webSocketDebuggerUrl).pathname,
+              )
+            : null);
+
+        chromeLog.success(`${this.displayName} is available:`, data);
         return true;
       } else {
         chromeLog.debug(`Chrome not available: HTTP ${response.status}`);
@@ -79,214 +255,1433 @@ export class ChromeProvider extends BaseBrowserProvider {
     }
 
     chromeLog.debug(
-      `Attempting to connect to Chrome DevTools Protocol on port ${this.debugPort}...`,
+      `Attempting to connect to Chrome DevTools Protocol at ${formatHostPort(this.endpoint)}...`,
     );
 
     try {
       // Check availability first
       const isAvailable = await this.isAvailable();
       if (!isAvailable) {
-        const errorMsg = `Chrome not available on debug port ${this.debugPort}. Please start Chrome with --remote-debugging-port=9222`;
+        const errorMsg = `${this.displayName} not available at ${formatHostPort(this.endpoint)}. Please start ${this.displayName} with --remote-debugging-port=${this.endpoint.port}`;
         chromeLog.error(`Connection failed: ${errorMsg}`);
         throw new Error(errorMsg);
       }
 
-      // Create CDP connection to the first available tab
-      chromeLog.debug("Establishing CDP WebSocket connection...");
-      this.cdpClient = await CDP({ port: this.debugPort });
+      if (!this.browserWebSocketUrl) {
+        throw new Error("DevTools endpoint did not report a webSocketDebuggerUrl");
+      }
+
+      // Create CDP connection to the browser target
+      chromeLog.debug(
+        `Establishing CDP WebSocket connection to ${this.browserWebSocketUrl}...`,
+      );
+      const browserClient = await this.createTimeout(
+        CDP({ target: this.browserWebSocketUrl }),
+      );
 
-      chromeLog.debug("CDP client connected, enabling required domains...");
+      // Tab operations share one attached session per target over this connection
+      const sessionPool = new CDPSessionPool(browserClient);
+      try {
+        await sessionPool.start();
+      } catch (error) {
+        await browserClient.close().catch(() => undefined);
+        throw error;
+      }
 
-      // Enable essential domains for browser operations
-      await this.enableDomain("Page");
-      await this.enableDomain("Runtime");
-      await this.enableDomain("DOM");
+      this.cdpClient = browserClient;
+      this.sessionPool = sessionPool;
+      browserClient.on("disconnect", () => {
+        if (this.cdpClient === browserClient) {
+          this.handleConnectionLost("DevTools WebSocket closed");
+        }
+      });
+      this.startHealthCheck(browserClient);
 
       this.connected = true;
+      this.connectionLostReason = null;
       chromeLog.success("Connected to Chrome DevTools Protocol successfully");
     } catch (error) {
-      const errorMsg = `Failed to connect to Chrome: ${error instanceof Error ? error.message : String(error)}`;
+      const errorMsg = `Failed to connect to ${this.displayName}: ${error instanceof Error ? error.message : String(error)}`;
       chromeLog.error(errorMsg);
       throw new BrowserConnectionError(
         errorMsg,
-        "chrome",
+        this.browserType,
         error instanceof Error ? error : undefined,
       );
     }
   }
 
   /**
-   * Enable a CDP domain if not already enabled
-   * @param domain - Domain name (e.g., 'Page', 'Runtime', 'DOM')
+   * Get the pooled CDP session for a specific tab, attaching on first use
+   * @param tabId - Tab ID to get the session for
+   * @returns CDP session attached to the specific tab
    */
-  private async enableDomain(domain: string): Promise<void> {
-    if (this.enabledDomains.has(domain)) {
-      return;
+  private async getSession(tabId: string): Promise<CDPSession> {
+    if (!this.sessionPool) {
+      throw new BrowserConnectionError(
+        "CDP session pool is not initialized. Call connect() first.",
+        this.browserType,
+      );
     }
 
-    chromeLog.debug(`Enabling ${domain} domain...`);
-    await this.cdpClient[domain].enable();
-    this.enabledDomains.add(domain);
-    chromeLog.debug(`${domain} domain enabled`);
+    try {
+      return await this.createTimeout(this.sessionPool.acquire(tabId));
+    } catch (error) {
+      throw new TabNotFoundError(
+        `Failed to attach to tab ${tabId}: ${error instanceof Error ? error.message : String(error)}`,
+        tabId,
+      );
+    }
   }
 
   /**
-   * Connect to a specific tab for CDP operations
-   * @param tabId - Tab ID to connect to
-   * @returns CDP client connected to the specific tab
+   * Get statistics of the per-tab CDP session pool
+   * @returns Pool statistics, or null when not connected
    */
-  private async connectToTab(tabId: string): Promise<any> {
-    try {
-      chromeLog.debug(`Connecting to tab ${tabId} for CDP operations...`);
-      const tabClient = await CDP({ port: this.debugPort, tab: tabId });
+  getSessionPoolStats(): SessionPoolStats | null {
+    return this.sessionPool?.getStats() ?? null;
+  }
 
-      // Enable essential domains for this tab
-      await tabClient.Page.enable();
-      await tabClient.Runtime.enable();
-      await tabClient.DOM.enable();
+  /**
+   * Ensure the CDP connection is usable, re-establishing it after a lost connection
+   * @throws BrowserConnectionError with a recovery hint while reconnecting or if the browser is gone
+   */
+  private async ensureConnected(): Promise<void> {
+    if (this.connected) {
+      return;
+    }
 
-      chromeLog.debug(`Connected to tab ${tabId} successfully`);
-      return tabClient;
+    if (this.recovery) {
+      throw new BrowserConnectionError(
+        `Connection to ${this.displayName} was lost (${this.connectionLostReason}); reconnecting (attempt ${this.recoveryAttempt}/${MAX_RECOVERY_ATTEMPTS})`,
+        this.browserType,
+        undefined,
+        "Retry this tool call in a few seconds.",
+      );
+    }
+
+    if (this.connectionLostReason === null) {
+      // Never connected - keep the original contract
+      this.assertConnected();
+      return;
+    }
+
+    // Background recovery gave up earlier; the browser may be back by now
+    try {
+      await this.connect();
     } catch (error) {
-      throw new TabNotFoundError(
-        `Failed to connect to tab ${tabId}: ${error instanceof Error ? error.message : String(error)}`,
-        tabId,
+      throw new BrowserConnectionError(
+        `Connection to ${this.displayName} was lost (${this.connectionLostReason}) and could not be re-established`,
+        this.browserType,
+        error instanceof Error ? error : undefined,
+        this.getRelaunchHint(),
       );
     }
   }
 
+  /**
+   * Tear down a dead connection and start background recovery
+   * @param reason - Why the connection is considered lost
+   */
+  private handleConnectionLost(reason: string): void {
+    if (this.disconnecting || this.recovery) {
+      return;
+    }
+
+    chromeLog.error(`Lost connection to ${this.displayName}: ${reason}`);
+    this.stopHealthCheck();
+    this.connected = false;
+    this.connectionLostReason = reason;
+    this.sessionPool = null;
+    const deadClient = this.cdpClient;
+    this.cdpClient = null;
+    deadClient?.close().catch(() => undefined);
+
+    this.recovery = this.recover().finally(() => {
+      this.recovery = null;
+      this.recoveryAttempt = 0;
+    });
+  }
+
+  /**
+   * Reconnect with exponential backoff, relaunching a local browser if configured
+   */
+  private async recover(): Promise<void> {
+    let relaunched = false;
+
+    for (let attempt = 1; attempt <= MAX_RECOVERY_ATTEMPTS; attempt++) {
+      this.recoveryAttempt = attempt;
+      await new Promise((resolve) =>
+        setTimeout(resolve, RECOVERY_BASE_DELAY_MS * 2 ** (attempt - 1)),
+      );
+      if (this.connectionLostReason === null) {
+        // disconnect() was called while we were waiting
+        return;
+      }
+
+      try {
+        if (
+          !relaunched &&
+          this.config.autoRelaunch &&
+          isLocalEndpoint(this.endpoint) &&
+          !(await this.isAvailable())
+        ) {
+          relaunched = true;
+          chromeLog.debug(`Relaunching ${this.displayName}...`);
+          const result = await getChromiumLauncher(
+            this.browserType,
+          ).ensureChromeDebugging(this.config);
+          if (result.error) {
+            chromeLog.error(`Relaunch failed: ${result.error}`);
+          }
+        }
+
+        await this.connect();
+        chromeLog.success(
+          `Reconnected to ${this.displayName} after ${attempt} attempt(s)`,
+        );
+        return;
+      } catch (error) {
+        chromeLog.debug(
+          `Reconnect attempt ${attempt}/${MAX_RECOVERY_ATTEMPTS} failed: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    }
+
+    chromeLog.error(
+      `Could not reconnect to ${this.displayName} after ${MAX_RECOVERY_ATTEMPTS} attempts`,
+    );
+  }
+
+  /**
+   * Periodically ping the browser so hung or half-open connections are noticed
+   * @param client - Browser-level CDP client to monitor
+   */
+  private startHealthCheck(client: CDP.CDPClient): void {
+    const interval =
+      this.config.healthCheckInterval ?? DEFAULT_HEALTH_CHECK_INTERVAL_MS;
+    if (interval <= 0) {
+      return;
+    }
+
+    this.stopHealthCheck();
+    this.healthCheckTimer = setInterval(() => {
+      this.createTimeout(client.send("Browser.getVersion"), HEALTH_CHECK_TIMEOUT_MS)
+        .catch((error: unknown) => {
+          if (this.cdpClient === client) {
+            this.handleConnectionLost(
+              `health check failed: ${error instanceof Error ? error.message : String(error)}`,
+            );
+          }
+        });
+    }, interval);
+    // Never keep the process alive just for health checks
+    this.healthCheckTimer.unref();
+  }
+
+  private stopHealthCheck(): void {
+    if (this.healthCheckTimer) {
+      clearInterval(this.healthCheckTimer);
+      this.healthCheckTimer = null;
+    }
+  }
+
+  /**
+   * Recovery hint for when the browser cannot be reached
+   */
+  private getRelaunchHint(): string {
+    return isLocalEndpoint(this.endpoint)
+      ? `Call initialize_chrome_debugging with browser "${this.browserType}" to relaunch it, or start it with --remote-debugging-port=${this.endpoint.port}.`
+      : `Restart ${this.displayName} on ${formatHostPort(this.endpoint)} with --remote-debugging-port=${this.endpoint.port}, then retry.`;
+  }
+
   async disconnect(): Promise<void> {
+    this.stopHealthCheck();
+    this.connectionLostReason = null;
+
     if (!this.connected) {
       return;
     }
 
+    this.disconnecting = true;
     try {
+      if (this.sessionPool) {
+        chromeLog.debug("Detaching pooled CDP sessions...", this.sessionPool.getStats());
+        await this.sessionPool.closeAll();
+        this.sessionPool = null;
+      }
       if (this.cdpClient) {
         chromeLog.debug("Closing CDP connection...");
         await this.cdpClient.close();
         this.cdpClient = null;
       }
-      this.enabledDomains.clear();
       this.connected = false;
       chromeLog.success("Disconnected from Chrome DevTools Protocol");
     } catch (error) {
       chromeLog.error("Error during disconnect:", error);
+    } finally {
+      this.disconnecting = false;
     }
   }
 
-  async listTabs(): Promise<TabInfo[]> {
-    this.assertConnected();
+  async listTabs(query?: TabQuery): Promise<TabInfo[]> {
+    await this.ensureConnected();
 
+    // Every tab is described first so the active tab is resolved before filtering
+    let result: TabInfo[];
     try {
-      chromeLog.debug("Fetching tab list from Chrome...");
+      chromeLog.debug("Fetching page targets from Chrome...");
 
-      const url = `http://localhost:${this.debugPort}/json/list`;
-      chromeLog.debug(`Fetching tabs from: ${url}`);
+      const { targetInfos } = (await this.browser.send("Target.getTargets")) as {
+        targetInfos: ChromeTargetInfo[];
+      };
+      const pageTargets = targetInfos.filter(
+        (target) => target.type === "page" && !target.url.startsWith("devtools://"),
+      );
+      chromeLog.debug(
+        `Filtered ${pageTargets.length} page targets from ${targetInfos.length} total targets`,
+      );
 
-      const response = await fetch(url, {
-        signal: AbortSignal.timeout(5000),
-      });
+      const listing = await this.fetchTargetListing();
+      const tabs = await Promise.all(
+        pageTargets.map((target) =>
+          this.describeTarget(target, listing.get(target.targetId)),
+        ),
+      );
+      await this.resolveVisibleTabs(tabs, [...listing.keys()]);
+      result = this.markActiveTab(tabs);
 
-      chromeLog.debug(
-        `Tabs response: ${response.status} ${response.statusText}`,
+      chromeLog.success(`Successfully mapped ${result.length} tabs:`, result);
+    } catch (error) {
+      const errorMsg = `Failed to list Chrome tabs: ${error instanceof Error ? error.message : String(error)}`;
+      chromeLog.error(errorMsg);
+      throw new BrowserConnectionError(
+        errorMsg,
+        this.browserType,
+        error instanceof Error ? error : undefined,
       );
+    }
+
+    return filterTabs(result, query);
+  }
+
+  /**
+   * Build tab info for a page target from the Target and Browser domains,
+   * without attaching to the page
+   * @param target - Page target from Target.getTargets
+   * @param listed - Entry of the target in the /json/list listing, if any
+   * @returns Tab info (visibility and active are resolved by the caller)
+   */
+  private async describeTarget(
+    target: ChromeTargetInfo,
+    listed?: ChromeListedTarget,
+  ): Promise<TabInfo> {
+    const tab: TabInfo = {
+      id: target.targetId,
+      url: target.url,
+      title: target.title,
+      active: false,
+      visible: false,
+      focused: false,
+      browserType: this.browserType,
+      agentOwned: this.agentTabs.has(target.targetId),
+    };
+    if (listed?.faviconUrl) {
+      tab.favIconUrl = listed.faviconUrl;
+    }
+
+    try {
+      const { windowId, bounds } = (await this.browser.send(
+        "Browser.getWindowForTarget",
+        { targetId: target.targetId },
+      )) as { windowId: number; bounds: { windowState?: TabInfo["windowState"] } };
+      tab.windowId = String(windowId);
+      if (bounds.windowState) {
+        tab.windowState = bounds.windowState;
+      }
+    } catch (error) {
+      chromeLog.debug(`No window for target ${target.targetId}:`, error);
+    }
+
+    return tab;
+  }
 
+  /**
+   * Read the page targets of the DevTools HTTP listing, which Chromium sorts
+   * by when each tab was last shown; empty if the listing is unavailable
+   * @returns Listed targets by ID, the most recently shown first
+   */
+  private async fetchTargetListing(): Promise<Map<string, ChromeListedTarget>> {
+    try {
+      const response = await fetch(getHttpUrl(this.endpoint, "/json/list"), {
+        signal: AbortSignal.timeout(PAGE_STATE_TIMEOUT_MS),
+      });
       if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        throw new Error(`HTTP ${response.status}`);
+      }
+      const targets = (await response.json()) as ChromeListedTarget[];
+      return new Map(
+        targets
+          .filter((target) => target.type === "page")
+          .map((target) => [target.id, target]),
+      );
+    } catch (error) {
+      chromeLog.debug("Could not read the target listing:", error);
+      return new Map();
+    }
+  }
+
+  /**
+   * Set visible and focused on the selected tab of every window that is not
+   * minimized. Only one tab per window is visible, so tabs are checked from
+   * the most recently shown and only until it is found; the other tabs are
+   * never attached to
+   * @param tabs - Tabs with windows resolved, updated in place
+   * @param recency - Tab IDs, the most recently shown first
+   */
+  private async resolveVisibleTabs(
+    tabs: TabInfo[],
+    recency: string[],
+  ): Promise<void> {
+    const rank = (tab: TabInfo): number => {
+      const index = recency.indexOf(tab.id);
+      return index === -1 ? recency.length : index;
+    };
+    const windows = new Map<string, TabInfo[]>();
+    for (const tab of tabs) {
+      if (tab.windowState === "minimized") {
+        continue;
+      }
+      // Tabs without a known window are checked on their own
+      const key = tab.windowId ?? `target:${tab.id}`;
+      windows.set(key, [...(windows.get(key) ?? []), tab]);
+    }
+
+    await Promise.all(
+      [...windows.values()].map(async (windowTabs) => {
+        for (const tab of windowTabs.sort((a, b) => rank(a) - rank(b))) {
+          const pageState = await this.readPageState(tab.id);
+          if (pageState?.visible) {
+            tab.visible = true;
+            tab.focused = pageState.focused;
+            tab.title = pageState.title || tab.title;
+            if (pageState.favIconUrl) {
+              tab.favIconUrl = pageState.favIconUrl;
+            }
+            return;
+          }
+        }
+      }),
+    );
+  }
+
+  /**
+   * Read visibility, focus, title and favicon from inside a page
+   * @returns The page state, or null if the page does not answer
+   */
+  private async readPageState(
+    tabId: string,
+  ): Promise<{ title: string; visible: boolean; focused: boolean; favIconUrl?: string } | null> {
+    try {
+      // Discarded or frozen tabs may never answer; treat them as hidden
+      const session = await this.createTimeout(
+        this.getSession(tabId),
+        PAGE_STATE_TIMEOUT_MS,
+      );
+      const response = await this.createTimeout(
+        session.send("Runtime.evaluate", {
+          expression: buildPageStateExpression(),
+          returnByValue: true,
+        }),
+        PAGE_STATE_TIMEOUT_MS,
+      );
+      const pageState = response.result?.value as
+        | { title: string; visible: boolean; focused: boolean; favIconUrl: string | null }
+        | undefined;
+      if (!pageState) {
+        return null;
       }
+      const { favIconUrl, ...state } = pageState;
+      return favIconUrl ? { ...state, favIconUrl } : state;
+    } catch (error) {
+      chromeLog.debug(`Could not read page state of ${tabId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Look up a single tab through the Target domain instead of listing every tab
+   * Only id, url and title are resolved; use listTabs for focus and window details
+   * @param tabId - Target ID of the tab
+   * @returns Tab info
+   * @throws TabNotFoundError if no page target has this ID
+   */
+  protected async findTabById(tabId: string): Promise<TabInfo> {
+    try {
+      const { targetInfo } = (await this.browser.send("Target.getTargetInfo", {
+        targetId: tabId,
+      })) as { targetInfo: ChromeTargetInfo };
+      if (targetInfo.type === "page") {
+        return {
+          id: targetInfo.targetId,
+          url: targetInfo.url,
+          title: targetInfo.title,
+          active: false,
+          browserType: this.browserType,
+        };
+      }
+    } catch (error) {
+      chromeLog.debug(`Target lookup failed for ${tabId}:`, error);
+    }
+    throw new TabNotFoundError(`Tab with ID ${tabId} not found`, tabId);
+  }
+
+  /**
+   * Get the browser-level CDP client or throw if the connection was lost
+   */
+  private get browser(): CDP.CDPClient {
+    if (!this.cdpClient || !this.sessionPool) {
+      throw new BrowserConnectionError(
+        `Not connected to ${this.displayName}`,
+        this.browserType,
+        undefined,
+        "Retry this tool call in a few seconds.",
+      );
+    }
+    return this.cdpClient;
+  }
 
-      const tabs = (await response.json()) as any[];
-      chromeLog.debug("Raw tabs data:", tabs);
+  protected async renderScreenshot(
+    tabId: string,
+    options: CaptureOptions,
+  ): Promise<ScreenshotResult> {
+    await this.ensureConnected();
+    await this.findTabById(tabId); // Validate tab exists
 
-      const pageTabs = tabs.filter((tab: any) => tab.type === "page");
+    try {
       chromeLog.debug(
-        `Filtered ${pageTabs.length} page tabs from ${tabs.length} total tabs`,
+        `Capturing screenshot of tab ${tabId} with options:`,
+        options,
+      );
+
+      // Reuse the pooled session of the specific tab
+      const session = await this.getSession(tabId);
+
+      if (options.selector) {
+        return await this.captureElement(session, tabId, options.selector, options);
+      }
+      if (options.fullPage && !options.clip) {
+        return await this.captureFullPage(session, options);
+      }
+
+      const format = options.format ?? "png";
+      const scale = options.scale ?? 1;
+      // Prepare screenshot parameters
+      const screenshotParams: Record<string, unknown> = {
+        format,
+        quality: options.quality ?? (format === "jpeg" ? 80 : undefined),
+        captureBeyondViewport: options.fullPage ?? false,
+      };
+
+      const metrics = await this.getPageMetrics(session);
+      let devicePixelRatio = metrics.devicePixelRatio;
+      let region = {
+        width: metrics.viewportWidth,
+        height: metrics.viewportHeight,
+      };
+
+      // Add clip if specified
+      if (options.clip) {
+        devicePixelRatio = options.devicePixelRatio ?? metrics.devicePixelRatio;
+        screenshotParams.clip = {
+          x: options.clip.x,
+          y: options.clip.y,
+          width: options.clip.width,
+          height: options.clip.height,
+          // Clip scale is relative to the page's own pixel ratio
+          scale: (devicePixelRatio / metrics.devicePixelRatio) * scale,
+        };
+        region = options.clip;
+      } else if (scale !== 1) {
+        // Downscaling needs a clip; use the visible part of the page
+        screenshotParams.clip = {
+          x: metrics.scrollX,
+          y: metrics.scrollY,
+          width: metrics.viewportWidth,
+          height: metrics.viewportHeight,
+          scale,
+        };
+      }
+
+      chromeLog.debug(`Taking screenshot with params:`, screenshotParams);
+
+      // Capture screenshot using CDP
+      const result = await this.createTimeout(
+        session.send<{ data: string }>("Page.captureScreenshot", screenshotParams),
+      );
+
+      chromeLog.success(
+        `Screenshot captured for tab ${tabId}, data length: ${result.data.length}`,
+      );
+      // Base64 encoded image data
+      return this.toScreenshotResult(
+        result.data,
+        format,
+        region,
+        devicePixelRatio,
+        options,
+      );
+    } catch (error) {
+      chromeLog.error(`Screenshot capture failed for tab ${tabId}:`, error);
+      throw new CaptureError(
+        `Failed to capture screenshot: ${error instanceof Error ? error.message : String(error)}`,
+        tabId,
+        "screenshot",
+      );
+    }
+  }
+
+  /**
+   * Capture the region of the first element matching a selector
+   * The element is scrolled into view first so lazy content is rendered
+   * @throws Error if no element matches or the element has no layout box
+   */
+  private async captureElement(
+    session: CDPSession,
+    tabId: string,
+    selector: string,
+    options: CaptureOptions,
+  ): Promise<ScreenshotResult> {
+    const nodeId = await this.findNode(session, tabId, selector);
+    if (!nodeId) {
+      throw new Error(`No element matches selector "${selector}"`);
+    }
+
+    await this.createTimeout(
+      session.send("DOM.scrollIntoViewIfNeeded", { nodeId }),
+    );
+    const { model } = await this.createTimeout(
+      session.send("DOM.getBoxModel", { nodeId }),
+    );
+    const metrics = await this.getPageMetrics(session);
+
+    // The border quad is relative to the viewport; clips are relative to the document
+    const quad = model.border as number[];
+    const xs = quad.filter((_, index) => index % 2 === 0);
+    const ys = quad.filter((_, index) => index % 2 === 1);
+    const box = {
+      x: Math.min(...xs) + metrics.scrollX,
+      y: Math.min(...ys) + metrics.scrollY,
+      width: Math.max(...xs) - Math.min(...xs),
+      height: Math.max(...ys) - Math.min(...ys),
+    };
+    if (box.width === 0 || box.height === 0) {
+      throw new Error(`Element "${selector}" has an empty box`);
+    }
+
+    const clip = this.padClip(box, options.padding ?? 0, {
+      width: metrics.contentWidth,
+      height: metrics.contentHeight,
+    });
+    const devicePixelRatio = options.devicePixelRatio ?? metrics.devicePixelRatio;
+    const format = options.format ?? "png";
+
+    const result = await this.createTimeout(
+      session.send<{ data: string }>("Page.captureScreenshot", {
+        format,
+        quality: options.quality ?? (format === "jpeg" ? 80 : undefined),
+        clip: {
+          ...clip,
+          scale: (devicePixelRatio / metrics.devicePixelRatio) * (options.scale ?? 1),
+        },
+        // Elements taller than the viewport are rendered beyond it
+        captureBeyondViewport:
+          clip.height > metrics.viewportHeight || clip.width > metrics.viewportWidth,
+      }),
+    );
+
+    return {
+      ...this.toScreenshotResult(result.data, format, clip, devicePixelRatio, options),
+      clip,
+    };
+  }
+
+  /**
+   * Find the first node matching a selector, a piercing selector or an element ref
+   * @returns The node ID, or undefined if nothing matches
+   */
+  private async findNode(
+    session: CDPSession,
+    tabId: string,
+    selector: string,
+  ): Promise<number | undefined> {
+    if (selector.includes(">>>")) {
+      const [nodeId] = await this.querySelectorDeep(session, selector);
+      return nodeId;
+    }
+
+    const { root } = await this.createTimeout(
+      session.send<{ root: DOMNode }>("DOM.getDocument", { depth: 0 }),
+    );
+    if (parseElementRef(selector) !== null) {
+      const backendNodeId = this.elementRefs.get(tabId)?.get(selector.trim());
+      if (backendNodeId === undefined) {
+        return undefined;
+      }
+      // Refs map to backend node IDs, so shadow roots and frames need no search
+      const { nodeIds } = await this.createTimeout(
+        session.send<{ nodeIds: number[] }>("DOM.pushNodesByBackendIdsToFrontend", {
+          backendNodeIds: [backendNodeId],
+        }),
+      ).catch(() => ({ nodeIds: [] as number[] }));
+      // Unknown backend node IDs come back as 0
+      return nodeIds.find((nodeId) => nodeId > 0);
+    }
+
+    const { nodeId } = await this.createTimeout(
+      session.send<{ nodeId: number }>("DOM.querySelector", {
+        nodeId: root.nodeId,
+        selector,
+      }),
+    );
+    return nodeId || undefined;
+  }
+
+  /**
+   * Evaluate an in-page selector expression; element refs among the selectors
+   * are resolved through the DOM domain and handed to queryAllDeep as
+   * arguments, so the page itself is never marked. With refs the expression
+   * runs in an isolated world of the main frame, into which ref elements of
+   * any same-process frame can be resolved
+   * @param selectors - Selectors the expression looks up
+   * @param awaitPromise - Whether the expression returns a promise
+   */
+  private async evaluateSelectorExpression(
+    session: CDPSession,
+    tabId: string,
+    expression: string,
+    selectors: string[],
+    awaitPromise: boolean = false,
+  ): Promise<RuntimeResponse> {
+    const tabRefs = this.elementRefs.get(tabId);
+    const refs = [
+      ...new Set(
+        selectors
+          .map((selector) => selector.trim())
+          .filter((selector) => tabRefs?.has(selector)),
+      ),
+    ];
+    if (!tabRefs || refs.length === 0) {
+      // Unknown refs match nothing in queryAllDeep
+      return this.createTimeout(
+        session.send<RuntimeResponse>("Runtime.evaluate", {
+          expression,
+          returnByValue: true,
+          awaitPromise,
+        }),
+      );
+    }
+
+    const { frameTree } = await this.createTimeout(
+      session.send<{ frameTree: FrameTreeNode }>("Page.getFrameTree"),
+    );
+    const { executionContextId } = await this.createTimeout(
+      session.send<{ executionContextId: number }>("Page.createIsolatedWorld", {
+        frameId: frameTree.frame.id,
+        worldName: FRAME_WORLD_NAME,
+      }),
+    );
+
+    try {
+      const resolved: { ref: string; objectId: string }[] = [];
+      for (const ref of refs) {
+        // Removed elements and cross-origin frames cannot be resolved and match nothing
+        const { object } = await this.createTimeout(
+          session.send<{ object: { objectId?: string } }>("DOM.resolveNode", {
+            backendNodeId: tabRefs.get(ref),
+            executionContextId,
+            objectGroup: ELEMENT_OBJECT_GROUP,
+          }),
+        ).catch(() => ({ object: {} as { objectId?: string } }));
+        if (object.objectId) {
+          resolved.push({ ref, objectId: object.objectId });
+        }
+      }
+
+      return await this.createTimeout(
+        session.send<RuntimeResponse>("Runtime.callFunctionOn", {
+          executionContextId,
+          functionDeclaration: `function (refs, ...elements) {
+            const lensElementRefs = new Map(refs.map((ref, index) => [ref, elements[index]]));
+            return (${expression});
+          }`,
+          arguments: [
+            { value: resolved.map(({ ref }) => ref) },
+            ...resolved.map(({ objectId }) => ({ objectId })),
+          ],
+          returnByValue: true,
+          awaitPromise,
+        }),
+      );
+    } finally {
+      await session
+        .send("Runtime.releaseObjectGroup", { objectGroup: ELEMENT_OBJECT_GROUP })
+        .catch(() => undefined);
+    }
+  }
+
+  /**
+   * Resolve a selector through the DOM domain; each "host >>> inner" part is
+   * matched inside the shadow roots (open or closed) and frame documents of the
+   * previous part's matches, including cross-origin frames in the same process
+   * @returns Node IDs of the matches in document order per scope
+   * @throws Error if a part of the selector is empty
+   */
+  private async querySelectorDeep(
+    session: CDPSession,
+    selector: string,
+  ): Promise<number[]> {
+    const parts = selector.split(">>>").map((part) => part.trim());
+    if (parts.some((part) => part.length === 0)) {
+      throw new Error(`Invalid piercing selector "${selector}"`);
+    }
+
+    // Pierce so shadow roots and frame documents are part of the tree
+    const { root } = await this.createTimeout(
+      session.send<{ root: DOMNode }>("DOM.getDocument", {
+        depth: -1,
+        pierce: true,
+      }),
+    );
+    const nodes = new Map<number, DOMNode>();
+    const index = (node: DOMNode): void => {
+      nodes.set(node.nodeId, node);
+      for (const child of [
+        ...(node.children ?? []),
+        ...(node.shadowRoots ?? []),
+        ...(node.contentDocument ? [node.contentDocument] : []),
+      ]) {
+        index(child);
+      }
+    };
+    index(root);
+
+    let scopes = [root.nodeId];
+    let matches: number[] = [];
+    for (const [position, part] of parts.entries()) {
+      matches = [];
+      for (const scope of scopes) {
+        const { nodeIds } = await this.createTimeout(
+          session.send<{ nodeIds: number[] }>("DOM.querySelectorAll", {
+            nodeId: scope,
+            selector: part,
+          }),
+        );
+        matches.push(...nodeIds);
+      }
+      matches = [...new Set(matches)];
+
+      if (position < parts.length - 1) {
+        scopes = matches.flatMap((nodeId) => {
+          const node = nodes.get(nodeId);
+          return [
+            // Built-in controls have user-agent shadow roots that pages cannot style
+            ...(node?.shadowRoots ?? []).filter(
+              (shadowRoot) => shadowRoot.shadowRootType !== "user-agent",
+            ),
+            ...(node?.contentDocument ? [node.contentDocument] : []),
+          ].map((scope) => scope.nodeId);
+        });
+      }
+    }
+    return matches;
+  }
+
+  /**
+   * Capture the whole scrollable page
+   * The viewport is resized to the content so nothing is cut off at the fold.
+   * Pages taller than one GPU texture are scrolled through in tiles that are
+   * stitched into one PNG, with fixed and sticky elements hidden after the first tile
+   */
+  private async captureFullPage(
+    session: CDPSession,
+    options: CaptureOptions,
+  ): Promise<ScreenshotResult> {
+    const initial = await this.getPageMetrics(session);
+    const emulation = this.emulations.get(session.targetId);
+    const devicePixelRatio = options.devicePixelRatio ?? initial.devicePixelRatio;
+    const scale = options.scale ?? 1;
+    const maxDimensions = this.getCapabilities().maxScreenshotDimensions;
+    const maxWidth = Math.floor((maxDimensions?.width ?? Infinity) / devicePixelRatio);
+    const maxHeight = Math.floor((maxDimensions?.height ?? Infinity) / devicePixelRatio);
+    const width = Math.min(initial.contentWidth, maxWidth);
+    const tiled = initial.contentHeight * devicePixelRatio > FULL_PAGE_SINGLE_CAPTURE_MAX_PX;
+    const tileHeight = Math.floor(FULL_PAGE_TILE_HEIGHT_PX / devicePixelRatio);
+
+    chromeLog.debug(
+      `Full-page capture of ${initial.contentWidth}x${initial.contentHeight} CSS px at ${devicePixelRatio}x (${tiled ? "tiled" : "single"})`,
+    );
+
+    await this.createTimeout(
+      session.send("Emulation.setDeviceMetricsOverride", {
+        width,
+        height: tiled ? Math.min(tileHeight, initial.contentHeight) : initial.contentHeight,
+        deviceScaleFactor: devicePixelRatio,
+        mobile: emulation?.mobile ?? false,
+      }),
+    );
+
+    try {
+      // The new viewport can change the layout (e.g. 100vh sections), so measure again
+      const metrics = await this.getPageMetrics(session);
+      const height = Math.min(metrics.contentHeight, maxHeight);
+      const truncated =
+        height < metrics.contentHeight || width < metrics.contentWidth;
+      const contentSize = {
+        width: metrics.contentWidth,
+        height: metrics.contentHeight,
+      };
+
+      if (!tiled) {
+        const format = options.format ?? "png";
+        const result = await this.createTimeout(
+          session.send<{ data: string }>("Page.captureScreenshot", {
+            format,
+            quality: options.quality ?? (format === "jpeg" ? 80 : undefined),
+            clip: { x: 0, y: 0, width, height, scale },
+            captureBeyondViewport: true,
+          }),
+        );
+        return {
+          ...this.toScreenshotResult(
+            result.data,
+            format,
+            { width, height },
+            devicePixelRatio,
+            options,
+          ),
+          truncated,
+          contentSize,
+        };
+      }
+
+      const image = await this.captureTiles(session, width, height, tileHeight, scale, metrics);
+      if (options.format && options.format !== "png") {
+        chromeLog.debug(`Stitched full-page captures are PNG, ignoring ${options.format}`);
+      }
+      return {
+        ...this.toScreenshotResult(
+          encodePng(image).toString("base64"),
+          "png",
+          { width, height },
+          devicePixelRatio,
+          options,
+        ),
+        // Tile heights are rounded separately, so report the stitched size
+        width: image.width,
+        height: image.height,
+        tiles: Math.ceil(height / tileHeight),
+        truncated,
+        contentSize,
+      };
+    } finally {
+      // Put back the device the tab was emulating, if any
+      await (emulation
+        ? this.setDeviceMetrics(session, emulation)
+        : session.send("Emulation.clearDeviceMetricsOverride")
+      ).catch((error: unknown) =>
+        chromeLog.debug("Failed to restore device metrics:", error),
+      );
+    }
+  }
+
+  /**
+   * Scroll through the page one viewport at a time and stack the captures
+   */
+  private async captureTiles(
+    session: CDPSession,
+    width: number,
+    height: number,
+    tileHeight: number,
+    scale: number,
+    metrics: PageMetrics,
+  ): Promise<RGBAImage> {
+    const tiles: RGBAImage[] = [];
+    try {
+      for (let y = 0; y < height; y += tileHeight) {
+        if (tiles.length === 1) {
+          await this.evaluateInPage(session, buildFixedElementsExpression(true));
+        }
+
+        await this.evaluateInPage(session, `window.scrollTo(0, ${y})`);
+        await this.evaluateInPage(session, buildSettleExpression());
+
+        const result = await this.createTimeout(
+          session.send<{ data: string }>("Page.captureScreenshot", {
+            format: "png",
+            clip: { x: 0, y, width, height: Math.min(tileHeight, height - y), scale },
+          }),
+        );
+        tiles.push(decodePng(Buffer.from(result.data, "base64")));
+      }
+    } finally {
+      await this.evaluateInPage(session, buildFixedElementsExpression(false)).catch(
+        () => undefined,
+      );
+      await this.evaluateInPage(
+        session,
+        `window.scrollTo(${metrics.scrollX}, ${metrics.scrollY})`,
+      ).catch(() => undefined);
+    }
+
+    return stackImages(tiles);
+  }
+
+  /**
+   * Measure the page: content size and viewport in CSS pixels, scroll offset and pixel ratio
+   */
+  private async getPageMetrics(session: CDPSession): Promise<PageMetrics> {
+    const layout = await this.createTimeout(session.send("Page.getLayoutMetrics"));
+    const contentSize = (layout.cssContentSize ?? layout.contentSize) as {
+      width: number;
+      height: number;
+    };
+    const viewport = (layout.cssVisualViewport ?? layout.visualViewport) as {
+      clientWidth: number;
+      clientHeight: number;
+    };
+    const layoutViewport = (layout.cssLayoutViewport ?? layout.layoutViewport) as {
+      pageX: number;
+      pageY: number;
+    };
+    const devicePixelRatio = await this.evaluateInPage<number>(
+      session,
+      "window.devicePixelRatio",
+    );
+
+    return {
+      contentWidth: Math.ceil(contentSize.width),
+      contentHeight: Math.ceil(contentSize.height),
+      viewportWidth: viewport.clientWidth,
+      viewportHeight: viewport.clientHeight,
+      scrollX: layoutViewport.pageX,
+      scrollY: layoutViewport.pageY,
+      devicePixelRatio: devicePixelRatio || 1,
+    };
+  }
+
+  protected async applyEmulation(
+    tabId: string,
+    emulation: DeviceEmulation,
+  ): Promise<void> {
+    await this.ensureConnected();
+    const session = await this.getSession(tabId);
+
+    chromeLog.debug(`Emulating device on tab ${tabId}:`, emulation);
+    await this.setDeviceMetrics(session, emulation);
+    await this.createTimeout(
+      session.send("Emulation.setTouchEmulationEnabled", {
+        enabled: emulation.hasTouch,
+        ...(emulation.hasTouch && { maxTouchPoints: 5 }),
+      }),
+    );
+    if (emulation.userAgent) {
+      await this.createTimeout(
+        session.send("Emulation.setUserAgentOverride", {
+          userAgent: emulation.userAgent,
+        }),
+      );
+    }
+    if (emulation.media) {
+      await this.setEmulatedMedia(session, emulation.media);
+    }
+  }
+
+  protected async clearEmulation(
+    tabId: string,
+    emulation: DeviceEmulation,
+  ): Promise<void> {
+    await this.ensureConnected();
+    const session = await this.getSession(tabId);
+
+    await this.createTimeout(session.send("Emulation.clearDeviceMetricsOverride"));
+    if (emulation.hasTouch) {
+      await this.createTimeout(
+        session.send("Emulation.setTouchEmulationEnabled", { enabled: false }),
+      );
+    }
+    if (emulation.userAgent) {
+      // An empty user agent removes the override
+      await this.createTimeout(
+        session.send("Emulation.setUserAgentOverride", { userAgent: "" }),
+      );
+    }
+    if (emulation.media) {
+      await this.setEmulatedMedia(session, {});
+    }
+  }
+
+  /**
+   * Emulate a CSS media type and media features; an empty object removes the emulation
+   */
+  private async setEmulatedMedia(
+    session: CDPSession,
+    media: MediaEmulation,
+  ): Promise<void> {
+    const features = [
+      { name: "prefers-color-scheme", value: media.colorScheme },
+      { name: "prefers-reduced-motion", value: media.reducedMotion },
+      { name: "forced-colors", value: media.forcedColors },
+    ].filter((feature) => feature.value !== undefined);
+
+    await this.createTimeout(
+      session.send("Emulation.setEmulatedMedia", {
+        // An empty media type means the page's own
+        media: media.type ?? "",
+        features,
+      }),
+    );
+  }
+
+  /**
+   * Override viewport size, pixel ratio and mobile mode; zero values keep the current setting
+   */
+  private async setDeviceMetrics(
+    session: CDPSession,
+    emulation: DeviceEmulation,
+  ): Promise<void> {
+    await this.createTimeout(
+      session.send("Emulation.setDeviceMetricsOverride", {
+        width: emulation.width,
+        height: emulation.height,
+        deviceScaleFactor: emulation.deviceScaleFactor,
+        mobile: emulation.mobile,
+      }),
+    );
+  }
+
+  protected async evaluateInTab<T>(tabId: string, expression: string): Promise<T> {
+    await this.ensureConnected();
+    const session = await this.getSession(tabId);
+    return this.evaluateInPage<T>(session, expression);
+  }
+
+  /**
+   * Evaluate an expression in the page and return its value, awaiting promises
+   * @throws Error if the expression throws
+   */
+  private async evaluateInPage<T = unknown>(
+    session: CDPSession,
+    expression: string,
+  ): Promise<T> {
+    const response = await this.createTimeout(
+      session.send("Runtime.evaluate", {
+        expression,
+        returnByValue: true,
+        awaitPromise: true,
+      }),
+    );
+    if (response.exceptionDetails) {
+      throw new Error(
+        `JavaScript execution failed: ${response.exceptionDetails.text}`,
+      );
+    }
+    return response.result?.value as T;
+  }
+
+  protected async evaluateInFrames<T>(
+    tabId: string,
+    expression: string,
+  ): Promise<FrameEvaluation<T>[]> {
+    await this.ensureConnected();
+    await this.findTabById(tabId);
+
+    try {
+      const session = await this.getSession(tabId);
+      const frames = await this.evaluateInSessionFrames<T>(session, expression, false);
+      chromeLog.debug(`Evaluated expression in ${frames.length} frames of tab ${tabId}`);
+      return frames;
+    } catch (error) {
+      chromeLog.error(`Frame evaluation failed for tab ${tabId}:`, error);
+      throw new CaptureError(
+        `Failed to read frames: ${error instanceof Error ? error.message : String(error)}`,
+        tabId,
+        "frames",
+      );
+    }
+  }
+
+  /**
+   * Evaluate an expression in every frame of a session's frame tree
+   * Out-of-process iframes are attached with Target.setAutoAttach and their
+   * own frame trees evaluated through the child sessions
+   */
+  private async evaluateInSessionFrames<T>(
+    session: CDPSession,
+    expression: string,
+    outOfProcess: boolean,
+    parentFrameId?: string,
+  ): Promise<FrameEvaluation<T>[]> {
+    const children = await this.createTimeout(session.attachChildFrames());
+
+    try {
+      const { frameTree } = await this.createTimeout(
+        session.send<{ frameTree: FrameTreeNode }>("Page.getFrameTree"),
+      );
+      // An out-of-process iframe's target ID is its frame ID
+      const pending = new Map(
+        children.map((child) => [child.session.targetId, child]),
+      );
+      const results: FrameEvaluation<T>[] = [];
+
+      const visit = async (
+        node: FrameTreeNode,
+        parentId: string | undefined,
+      ): Promise<void> => {
+        const child = pending.get(node.frame.id);
+        if (child) {
+          pending.delete(node.frame.id);
+          results.push(
+            ...(await this.evaluateInSessionFrames<T>(
+              child.session,
+              expression,
+              true,
+              parentId,
+            )),
+          );
+          return;
+        }
+
+        const result: FrameEvaluation<T> = {
+          frameId: node.frame.id,
+          url: node.frame.url + (node.frame.urlFragment ?? ""),
+          outOfProcess,
+        };
+        if (parentId) {
+          result.parentFrameId = parentId;
+        }
+        if (node.frame.name) {
+          result.name = node.frame.name;
+        }
+        try {
+          result.value = await this.evaluateInFrame<T>(session, node.frame.id, expression);
+        } catch (error) {
+          result.error = error instanceof Error ? error.message : String(error);
+        }
+        results.push(result);
+
+        for (const childFrame of node.childFrames ?? []) {
+          await visit(childFrame, node.frame.id);
+        }
+      };
+      await visit(frameTree, parentFrameId);
+
+      // Out-of-process iframes the local frame tree does not list
+      for (const child of pending.values()) {
+        results.push(
+          ...(await this.evaluateInSessionFrames<T>(
+            child.session,
+            expression,
+            true,
+            child.parentFrameId,
+          )),
+        );
+      }
+      return results;
+    } finally {
+      await session.detachChildFrames(children);
+    }
+  }
+
+  /**
+   * Evaluate an expression in one frame, in an isolated world created for it
+   * so no execution context tracking is needed
+   * @throws Error if the expression throws
+   */
+  private async evaluateInFrame<T>(
+    session: CDPSession,
+    frameId: string,
+    expression: string,
+  ): Promise<T> {
+    const { executionContextId } = await this.createTimeout(
+      session.send<{ executionContextId: number }>("Page.createIsolatedWorld", {
+        frameId,
+        worldName: FRAME_WORLD_NAME,
+      }),
+    );
+    const response = await this.createTimeout(
+      session.send<{
+        result?: { value?: unknown };
+        exceptionDetails?: { text: string };
+      }>("Runtime.evaluate", {
+        expression,
+        contextId: executionContextId,
+        returnByValue: true,
+        awaitPromise: true,
+      }),
+    );
+    if (response.exceptionDetails) {
+      throw new Error(
+        `JavaScript execution failed: ${response.exceptionDetails.text}`,
+      );
+    }
+    return response.result?.value as T;
+  }
+
+  protected async renderPDF(
+    tabId: string,
+    settings: PrintSettings,
+  ): Promise<string> {
+    await this.ensureConnected();
+    await this.findTabById(tabId);
+
+    try {
+      chromeLog.debug(`Printing tab ${tabId} to PDF with settings:`, settings);
+      const session = await this.getSession(tabId);
+
+      const hasTemplates =
+        settings.headerTemplate !== undefined ||
+        settings.footerTemplate !== undefined;
+      const result = await this.createTimeout(
+        session.send<{ data: string }>("Page.printToPDF", {
+          paperWidth: settings.paperWidth,
+          paperHeight: settings.paperHeight,
+          landscape: settings.landscape,
+          marginTop: settings.margin.top,
+          marginRight: settings.margin.right,
+          marginBottom: settings.margin.bottom,
+          marginLeft: settings.margin.left,
+          printBackground: settings.printBackground,
+          scale: settings.scale,
+          pageRanges: settings.pageRanges ?? "",
+          preferCSSPageSize: settings.preferCSSPageSize,
+          displayHeaderFooter: hasTemplates,
+          // Chrome fills a missing template with its own date/title/url line
+          ...(hasTemplates && {
+            headerTemplate: settings.headerTemplate ?? "<span></span>",
+            footerTemplate: settings.footerTemplate ?? "<span></span>",
+          }),
+        }),
+      );
+
+      chromeLog.success(`PDF printed from tab ${tabId}`);
+      return result.data;
+    } catch (error) {
+      chromeLog.error(`PDF export failed for tab ${tabId}:`, error);
+      const message = error instanceof Error ? error.message : String(error);
+      // Older Chrome versions only print from headless mode
+      const hint = /not implemented/i.test(message)
+        ? " (this browser only prints to PDF in headless mode; relaunch it with --headless)"
+        : "";
+      throw new CaptureError(
+        `Failed to print PDF: ${message}${hint}`,
+        tabId,
+        "pdf",
+      );
+    }
+  }
+
+  protected async recordScreencast(
+    tabId: string,
+    settings: { durationMs: number; maxWidth: number; maxHeight?: number },
+    onFrame: (data: string, elapsedMs: number) => boolean,
+  ): Promise<number> {
+    await this.ensureConnected();
+    await this.findTabById(tabId);
+    const session = await this.getSession(tabId);
+
+    const startTime = Date.now();
+    let finish: () => void = () => undefined;
+    const finished = new Promise<void>((resolve) => {
+      finish = resolve;
+    });
+    let frameError = null as Error | null;
+
+    const unsubscribe = session.on(
+      "Page.screencastFrame",
+      (params: { data: string; sessionId: number }) => {
+        // Chrome stops sending frames until the previous one is acknowledged
+        session
+          .send("Page.screencastFrameAck", { sessionId: params.sessionId })
+          .catch((error: unknown) =>
+            chromeLog.debug("Failed to acknowledge screencast frame:", error),
+          );
+        try {
+          if (!onFrame(params.data, Date.now() - startTime)) {
+            finish();
+          }
+        } catch (error) {
+          frameError = error instanceof Error ? error : new Error(String(error));
+          finish();
+        }
+      },
+    );
+    const timer = setTimeout(finish, settings.durationMs);
+
+    try {
+      chromeLog.debug(`Recording screencast of tab ${tabId}:`, settings);
+      await this.createTimeout(
+        session.send("Page.startScreencast", {
+          format: "png",
+          maxWidth: settings.maxWidth,
+          ...(settings.maxHeight !== undefined && { maxHeight: settings.maxHeight }),
+          everyNthFrame: 1,
+        }),
+      );
+      await finished;
+    } catch (error) {
+      chromeLog.error(`Screencast failed for tab ${tabId}:`, error);
+      throw new CaptureError(
+        `Failed to record screencast: ${error instanceof Error ? error.message : String(error)}`,
+        tabId,
+        "screencast",
       );
+    } finally {
+      clearTimeout(timer);
+      unsubscribe();
+      await session
+        .send("Page.stopScreencast")
+        .catch((error: unknown) =>
+          chromeLog.debug("Failed to stop screencast:", error),
+        );
+    }
 
-      const result = pageTabs.map((tab: any, index: number) => ({
-        id: tab.id,
-        url: tab.url,
-        title: tab.title,
-        active: index === 0, // First tab is considered active for simplicity
-        favIconUrl: tab.faviconUrl,
-        browserType: "chrome" as BrowserType,
-        windowId: tab.windowId,
-      }));
-
-      chromeLog.success(`Successfully mapped ${result.length} tabs:`, result);
-      return result;
-    } catch (error) {
-      const errorMsg = `Failed to list Chrome tabs: ${error instanceof Error ? error.message : String(error)}`;
-      chromeLog.error(errorMsg);
-      throw new BrowserConnectionError(
-        errorMsg,
-        "chrome",
-        error instanceof Error ? error : undefined,
+    if (frameError) {
+      throw new CaptureError(
+        `Failed to process screencast frame: ${frameError.message}`,
+        tabId,
+        "screencast",
       );
     }
+    const elapsed = Date.now() - startTime;
+    chromeLog.success(`Recorded screencast of tab ${tabId} for ${elapsed}ms`);
+    return elapsed;
   }
 
-  async captureScreenshot(
-    tabId: string,
-    options: CaptureOptions = {},
-  ): Promise<string> {
-    this.assertConnected();
-    await this.findTabById(tabId); // Validate tab exists
+  protected async renderArchive(tabId: string): Promise<string> {
+    await this.ensureConnected();
+    await this.findTabById(tabId);
 
-    let tabClient: any = null;
     try {
-      chromeLog.debug(
-        `Capturing screenshot of tab ${tabId} with options:`,
-        options,
+      chromeLog.debug(`Taking MHTML snapshot of tab ${tabId}...`);
+      const session = await this.getSession(tabId);
+      const result = await this.createTimeout(
+        session.send<{ data: string }>("Page.captureSnapshot", {
+          format: "mhtml",
+        }),
       );
 
-      // Connect to the specific tab
-      tabClient = await this.connectToTab(tabId);
-
-      // Prepare screenshot parameters
-      const screenshotParams: any = {
-        format: options.format ?? "png",
-        quality:
-          options.quality ?? (options.format === "jpeg" ? 80 : undefined),
-        captureBeyondViewport: options.fullPage ?? false,
-      };
-
-      // Add clip if specified
-      if (options.clip) {
-        screenshotParams.clip = {
-          x: options.clip.x,
-          y: options.clip.y,
-          width: options.clip.width,
-          height: options.clip.height,
-          scale: options.devicePixelRatio ?? 1,
-        };
-      }
-
-      chromeLog.debug(`Taking screenshot with params:`, screenshotParams);
-
-      // Capture screenshot using CDP
-      const result = await tabClient.Page.captureScreenshot(screenshotParams);
-
       chromeLog.success(
-        `Screenshot captured for tab ${tabId}, data length: ${result.data.length}`,
+        `MHTML snapshot taken from tab ${tabId}, length: ${result.data.length}`,
       );
-      return result.data; // Base64 encoded image data
+      return result.data;
     } catch (error) {
-      chromeLog.error(`Screenshot capture failed for tab ${tabId}:`, error);
+      chromeLog.error(`MHTML snapshot failed for tab ${tabId}:`, error);
       throw new CaptureError(
-        `Failed to capture screenshot: ${error instanceof Error ? error.message : String(error)}`,
+        `Failed to take MHTML snapshot: ${error instanceof Error ? error.message : String(error)}`,
         tabId,
-        "screenshot",
+        "archive",
       );
-    } finally {
-      // Clean up tab connection
-      if (tabClient) {
-        try {
-          await tabClient.close();
-        } catch (error) {
-          chromeLog.debug(`Error closing tab connection: ${error}`);
-        }
-      }
     }
   }
 
@@ -294,75 +1689,29 @@ export class ChromeProvider extends BaseBrowserProvider {
     tabId: string,
     options: HTMLCaptureOptions = {},
   ): Promise<string> {
-    this.assertConnected();
+    await this.ensureConnected();
     await this.findTabById(tabId);
 
-    let tabClient: any = null;
     try {
       chromeLog.debug(
         `Capturing HTML from tab ${tabId} with options:`,
         options,
       );
 
-      // Connect to the specific tab
-      tabClient = await this.connectToTab(tabId);
-
-      let htmlExpression = "document.documentElement.outerHTML";
-
-      // If specific selectors are requested, extract only those
-      if (options.selectors && options.selectors.length > 0) {
-        const selectorsArray = JSON.stringify(options.selectors);
-        htmlExpression = `
-          (() => {
-            const selectors = ${selectorsArray};
-            const elements = [];
-            selectors.forEach(selector => {
-              try {
-                const nodes = document.querySelectorAll(selector);
-                nodes.forEach(node => elements.push(node.outerHTML));
-              } catch (e) {
-                console.warn('Invalid selector:', selector);
-              }
-            });
-            return elements.join('\\n');
-          })()
-        `;
-      } else if (!options.includeScripts || !options.includeStyles) {
-        // Filter out scripts and/or styles if requested
-        htmlExpression = `
-          (() => {
-            const clone = document.documentElement.cloneNode(true);
-            ${
-              !options.includeScripts
-                ? `
-            const scripts = clone.querySelectorAll('script');
-            scripts.forEach(script => script.remove());
-            `
-                : ""
-            }
-            ${
-              !options.includeStyles
-                ? `
-            const styles = clone.querySelectorAll('style, link[rel="stylesheet"]');
-            styles.forEach(style => style.remove());
-            const elementsWithStyle = clone.querySelectorAll('[style]');
-            elementsWithStyle.forEach(el => el.removeAttribute('style'));
-            `
-                : ""
-            }
-            return '<!DOCTYPE html>\\n' + clone.outerHTML;
-          })()
-        `;
-      }
+      // Reuse the pooled session of the specific tab
+      const session = await this.getSession(tabId);
+
+      const htmlExpression = buildHTMLExpression(options);
 
       chromeLog.debug("Evaluating HTML extraction expression...");
 
       // Execute JavaScript to get HTML content
-      const result = await tabClient.Runtime.evaluate({
-        expression: htmlExpression,
-        returnByValue: true,
-        awaitPromise: false,
-      });
+      const result = await this.evaluateSelectorExpression(
+        session,
+        tabId,
+        htmlExpression,
+        options.selectors ?? [],
+      );
 
       if (result.exceptionDetails) {
         throw new Error(
@@ -370,15 +1719,12 @@ export class ChromeProvider extends BaseBrowserProvider {
         );
       }
 
-      let htmlContent = result.result.value;
+      let htmlContent = result.result.value as string;
 
       // Pretty format if requested
-      if (options.prettify && htmlContent) {
+      if (options.prettify && htmlContent && (options.format ?? "html") === "html") {
         try {
-          // Basic HTML formatting - just add line breaks after tags
-          htmlContent = htmlContent
-            .replace(/></g, ">\n<")
-            .replace(/^\s+|\s+$/gm, ""); // Trim whitespace
+          htmlContent = prettifyHTML(htmlContent);
         } catch (formatError) {
           chromeLog.debug(
             "HTML formatting failed, returning unformatted:",
@@ -398,127 +1744,103 @@ export class ChromeProvider extends BaseBrowserProvider {
         tabId,
         "html",
       );
-    } finally {
-      // Clean up tab connection
-      if (tabClient) {
-        try {
-          await tabClient.close();
-        } catch (error) {
-          chromeLog.debug(`Error closing tab connection: ${error}`);
+    }
+  }
+
+  async captureAccessibilityTree(
+    tabId: string,
+    options: AccessibilityOptions = {},
+  ): Promise<AccessibilitySnapshot> {
+    await this.ensureConnected();
+    await this.findTabById(tabId);
+
+    try {
+      chromeLog.debug(
+        `Capturing accessibility tree of tab ${tabId} with options:`,
+        options,
+      );
+      const session = await this.getSession(tabId);
+
+      let rootBackendNodeId: number | undefined;
+      if (options.selector) {
+        const nodeId = await this.findNode(session, tabId, options.selector);
+        if (!nodeId) {
+          throw new Error(`No element matches selector "${options.selector}"`);
         }
+        const { node } = await this.createTimeout(
+          session.send<{ node: { backendNodeId: number } }>("DOM.describeNode", {
+            nodeId,
+          }),
+        );
+        rootBackendNodeId = node.backendNodeId;
       }
+
+      const { nodes } = await this.createTimeout(
+        session.send<{ nodes: RawAXNode[] }>("Accessibility.getFullAXTree"),
+      );
+      const tree = buildAccessibilityTree(nodes, options, rootBackendNodeId);
+      const refs = this.elementRefs.get(tabId) ?? new Map<string, number>();
+      for (const backendNodeId of tree.refNodeIds) {
+        // Keyed by the selector form the agent passes back, as queryAllDeep looks refs up by it
+        refs.set(`ref=${toElementRef(backendNodeId)}`, backendNodeId);
+      }
+      this.elementRefs.set(tabId, refs);
+
+      chromeLog.success(
+        `Accessibility tree captured from tab ${tabId}, ${tree.nodeCount} nodes`,
+      );
+      return {
+        tree: formatAccessibilityTree(tree.nodes),
+        nodes: tree.nodes,
+        nodeCount: tree.nodeCount,
+        truncated: tree.truncated,
+      };
+    } catch (error) {
+      chromeLog.error(`Accessibility tree capture failed for tab ${tabId}:`, error);
+      throw new CaptureError(
+        `Failed to capture accessibility tree: ${error instanceof Error ? error.message : String(error)}`,
+        tabId,
+        "accessibility",
+      );
     }
   }
 
   async captureCSS(tabId: string, options: CSSCaptureOptions): Promise<string> {
-    this.assertConnected();
+    await this.ensureConnected();
     await this.findTabById(tabId);
 
     if (!options.selectors || options.selectors.length === 0) {
       throw new Error("CSS capture requires at least one selector");
     }
 
-    let tabClient: any = null;
     try {
       chromeLog.debug(
         `Capturing CSS from tab ${tabId} for selectors:`,
         options.selectors,
       );
 
-      // Connect to the specific tab
-      tabClient = await this.connectToTab(tabId);
+      // Reuse the pooled session of the specific tab
+      const session = await this.getSession(tabId);
 
       const sanitizedSelectors = this.sanitizeSelectors(options.selectors);
-      const selectorsArray = JSON.stringify(sanitizedSelectors);
-
-      // Build JavaScript expression to extract CSS for selectors
-      const cssExpression = `
-        (() => {
-          const selectors = ${selectorsArray};
-          const cssRules = [];
-          
-          selectors.forEach(selector => {
-            try {
-              const elements = document.querySelectorAll(selector);
-              if (elements.length === 0) {
-                cssRules.push(\`/* No elements found for selector: \${selector} */\`);
-                return;
-              }
-              
-              // Get computed styles for the first matching element
-              const element = elements[0];
-              const computedStyle = window.getComputedStyle(element);
-              
-              const rules = [];
-              const importantProps = [];
-              
-              // Extract all computed style properties
-              for (let i = 0; i < computedStyle.length; i++) {
-                const property = computedStyle[i];
-                const value = computedStyle.getPropertyValue(property);
-                const priority = computedStyle.getPropertyPriority(property);
-                
-                if (value && value !== 'initial' && value !== 'inherit') {
-                  ${
-                    options.includeComputed
-                      ? `
-                  rules.push(\`  \${property}: \${value}\${priority ? ' !' + priority : ''};\`);
-                  `
-                      : `
-                  // Only include non-default values for basic extraction
-                  if (!['auto', 'normal', 'none', '0px', 'transparent', 'rgba(0, 0, 0, 0)'].includes(value)) {
-                    rules.push(\`  \${property}: \${value}\${priority ? ' !' + priority : ''};\`);
-                  }
-                  `
-                  }
-                }
-              }
-              
-              ${
-                options.includeInherited
-                  ? `
-              // Include inherited styles from parent elements
-              let parent = element.parentElement;
-              while (parent && parent !== document.body) {
-                const parentStyle = window.getComputedStyle(parent);
-                rules.push(\`  /* Inherited from parent \${parent.tagName.toLowerCase()} */\`);
-                
-                ['color', 'font-family', 'font-size', 'line-height', 'text-align'].forEach(prop => {
-                  const value = parentStyle.getPropertyValue(prop);
-                  if (value && value !== 'initial') {
-                    rules.push(\`  \${prop}: \${value}; /* inherited */\`);
-                  }
-                });
-                
-                parent = parent.parentElement;
-              }
-              `
-                  : ""
-              }
-              
-              if (rules.length > 0) {
-                cssRules.push(\`\${selector} {\n\${rules.join('\\n')}\n}\`);
-              } else {
-                cssRules.push(\`\${selector} {\n  /* No significant styles found */\n}\`);
-              }
-              
-            } catch (e) {
-              cssRules.push(\`/* Error processing selector \${selector}: \${e.message} */\`);
-            }
-          });
-          
-          return cssRules.join('\\n\\n');
-        })()
-      `;
+      if (options.mode === "rules") {
+        const rules = await this.captureMatchedRules(session, tabId, sanitizedSelectors);
+        chromeLog.success(
+          `CSS rules captured from tab ${tabId}, length: ${rules.length}`,
+        );
+        return rules;
+      }
+      const cssExpression = buildCSSExpression(sanitizedSelectors, options);
 
       chromeLog.debug("Evaluating CSS extraction expression...");
 
       // Execute JavaScript to get CSS styles
-      const result = await tabClient.Runtime.evaluate({
-        expression: cssExpression,
-        returnByValue: true,
-        awaitPromise: false,
-      });
+      const result = await this.evaluateSelectorExpression(
+        session,
+        tabId,
+        cssExpression,
+        sanitizedSelectors,
+      );
 
       if (result.exceptionDetails) {
         throw new Error(
@@ -526,17 +1848,12 @@ export class ChromeProvider extends BaseBrowserProvider {
         );
       }
 
-      let cssContent = result.result.value;
+      let cssContent = result.result.value as string;
 
       // Pretty format if requested
       if (options.prettify && cssContent) {
         try {
-          // Basic CSS formatting
-          cssContent = cssContent
-            .replace(/\{\s+/g, " {\n  ")
-            .replace(/;\s+/g, ";\n  ")
-            .replace(/\s+\}/g, "\n}")
-            .replace(/\}\s+/g, "}\n\n");
+          cssContent = prettifyCSS(cssContent);
         } catch (formatError) {
           chromeLog.debug(
             "CSS formatting failed, returning unformatted:",
@@ -556,16 +1873,115 @@ export class ChromeProvider extends BaseBrowserProvider {
         tabId,
         "css",
       );
-    } finally {
-      // Clean up tab connection
-      if (tabClient) {
-        try {
-          await tabClient.close();
-        } catch (error) {
-          chromeLog.debug(`Error closing tab connection: ${error}`);
+    }
+  }
+
+  /**
+   * List the stylesheet rules that match the first element of each selector,
+   * with inherited and pseudo-element rules, as annotated CSS
+   * The CSS domain reports stylesheet URLs only through CSS.styleSheetAdded,
+   * which it sends for every existing stylesheet when enabled
+   */
+  private async captureMatchedRules(
+    session: CDPSession,
+    tabId: string,
+    selectors: string[],
+  ): Promise<string> {
+    const styleSheets = new Map<string, RawStyleSheetHeader>();
+    const unsubscribe = session.on(
+      "CSS.styleSheetAdded",
+      (params: { header: RawStyleSheetHeader }) => {
+        styleSheets.set(params.header.styleSheetId, params.header);
+      },
+    );
+
+    try {
+      await this.createTimeout(session.send("DOM.enable"));
+      await this.createTimeout(session.send("CSS.enable"));
+
+      const sections: string[] = [];
+      for (const selector of selectors) {
+        const nodeId = await this.findNode(session, tabId, selector);
+        if (!nodeId) {
+          sections.push(`/* No elements found for selector: ${selector} */`);
+          continue;
         }
+        const matched = await this.createTimeout(
+          session.send<RawMatchedStyles>("CSS.getMatchedStylesForNode", {
+            nodeId,
+          }),
+        );
+        const ancestors = await this.labelAncestors(session, nodeId);
+        sections.push(
+          formatCascade(
+            buildElementCascade(selector, matched, styleSheets, ancestors),
+          ),
+        );
+      }
+      return sections.join("\n\n");
+    } finally {
+      unsubscribe();
+      // DOM stays enabled: the pooled session enables it once and other callers rely on it
+      await session.send("CSS.disable").catch(() => undefined);
+    }
+  }
+
+  /**
+   * Label the ancestors of a node for the inherited sections of its cascade
+   * @returns Labels such as "div#app.layout", the parent first
+   */
+  private async labelAncestors(
+    session: CDPSession,
+    nodeId: number,
+  ): Promise<string[]> {
+    try {
+      const { object } = await this.createTimeout(
+        session.send<{ object: { objectId?: string } }>("DOM.resolveNode", {
+          nodeId,
+          objectGroup: ELEMENT_OBJECT_GROUP,
+        }),
+      );
+      if (!object.objectId) {
+        return [];
       }
+      const response = await this.createTimeout(
+        session.send<{ result?: { value?: string[] } }>("Runtime.callFunctionOn", {
+          objectId: object.objectId,
+          functionDeclaration: buildAncestorLabelsFunction(),
+          returnByValue: true,
+        }),
+      );
+      return response.result?.value ?? [];
+    } finally {
+      await session
+        .send("Runtime.releaseObjectGroup", { objectGroup: ELEMENT_OBJECT_GROUP })
+        .catch(() => undefined);
+    }
+  }
+
+  /**
+   * Describe the elements matching plain selectors with one in-page evaluation
+   */
+  private async evaluateElementExtraction(
+    session: CDPSession,
+    tabId: string,
+    selectors: string[],
+  ): Promise<ElementInfo[]> {
+    chromeLog.debug("Evaluating element extraction expression...");
+
+    const result = await this.evaluateSelectorExpression(
+      session,
+      tabId,
+      buildElementExtractionExpression(selectors),
+      selectors,
+    );
+
+    if (result.exceptionDetails) {
+      throw new Error(
+        `JavaScript execution failed: ${result.exceptionDetails.text}`,
+      );
     }
+    return result.result.value as ElementInfo[];
   }
 
   /**
@@ -574,14 +1990,14 @@ export class ChromeProvider extends BaseBrowserProvider {
    * @param tabId - ID of the tab to activate
    */
   async setActiveTab(tabId: string): Promise<void> {
-    this.assertConnected();
+    await this.ensureConnected();
     await this.findTabById(tabId); // Validate tab exists
 
     try {
       chromeLog.debug(`Setting tab ${tabId} as active...`);
 
       // Use Chrome's HTTP API to activate the tab
-      const activateUrl = `http://localhost:${this.debugPort}/json/activate/${tabId}`;
+      const activateUrl = getHttpUrl(this.endpoint, `/json/activate/${tabId}`);
 
       const response = await fetch(activateUrl, {
         method: "POST",
@@ -598,17 +2014,258 @@ export class ChromeProvider extends BaseBrowserProvider {
       chromeLog.error(`Failed to set active tab ${tabId}:`, error);
       throw new BrowserConnectionError(
         `Failed to set active tab: ${error instanceof Error ? error.message : String(error)}`,
-        "chrome",
+        this.browserType,
         error instanceof Error ? error : undefined,
       );
     }
   }
 
+  async navigateTab(
+    tabId: string,
+    url: string,
+    options: NavigationOptions = {},
+  ): Promise<NavigationResult> {
+    await this.ensureConnected();
+    const targetUrl = this.assertNavigationAllowed(url);
+    await this.findTabById(tabId);
+
+    try {
+      chromeLog.debug(`Navigating tab ${tabId} to ${targetUrl}...`);
+      const session = await this.getSession(tabId);
+      const result = await this.assertNavigationEndAllowed(
+        targetUrl,
+        await this.loadUrl(session, targetUrl, options),
+        () => session.send("Page.navigate", { url: "about:blank" }),
+      );
+      chromeLog.success(`Tab ${tabId} navigated to ${result.url}`);
+      return result;
+    } catch (error) {
+      chromeLog.error(`Navigation failed for tab ${tabId}:`, error);
+      if (error instanceof NavigationDeniedError) {
+        throw error;
+      }
+      throw new CaptureError(
+        `Failed to navigate tab: ${error instanceof Error ? error.message : String(error)}`,
+        tabId,
+        "navigation",
+      );
+    }
+  }
+
+  async openTab(
+    url?: string,
+    options: NavigationOptions = {},
+  ): Promise<NavigationResult> {
+    await this.ensureConnected();
+    const targetUrl = url === undefined ? undefined : this.assertNavigationAllowed(url);
+
+    let tabId = "";
+    try {
+      // Open blank first so the load of the real URL can be awaited on our session
+      const { targetId } = (await this.browser.send("Target.createTarget", {
+        url: "about:blank",
+      })) as { targetId: string };
+      tabId = targetId;
+      this.agentTabs.add(tabId);
+      chromeLog.debug(`Opened agent tab ${tabId}`);
+
+      const session = await this.getSession(tabId);
+      const result = targetUrl
+        ? await this.assertNavigationEndAllowed(
+            targetUrl,
+            await this.loadUrl(session, targetUrl, options),
+            () => this.closeTab(tabId),
+          )
+        : await this.getNavigationResult(session, true);
+
+      chromeLog.success(`Opened tab ${tabId} at ${result.url}`);
+      return result;
+    } catch (error) {
+      chromeLog.error("Failed to open tab:", error);
+      // A tab that failed to load is not left behind
+      if (this.agentTabs.has(tabId)) {
+        await this.closeTab(tabId).catch((closeError: unknown) =>
+          chromeLog.debug(`Could not close failed tab ${tabId}:`, closeError),
+        );
+      }
+      if (error instanceof NavigationDeniedError) {
+        throw error;
+      }
+      throw new CaptureError(
+        `Failed to open tab: ${error instanceof Error ? error.message : String(error)}`,
+        tabId,
+        "navigation",
+      );
+    }
+  }
+
+  async reloadTab(
+    tabId: string,
+    options: NavigationOptions & { ignoreCache?: boolean } = {},
+  ): Promise<NavigationResult> {
+    await this.ensureConnected();
+    const tab = await this.findTabById(tabId);
+    this.assertNavigationAllowed(tab.url);
+
+    try {
+      chromeLog.debug(`Reloading tab ${tabId} (${tab.url})...`);
+      const session = await this.getSession(tabId);
+      const lifecycle = this.waitForLifecycle(session, options);
+      await session.send("Page.reload", {
+        ignoreCache: options.ignoreCache ?? false,
+      });
+      const loaded = await lifecycle.done;
+
+      const result = await this.assertNavigationEndAllowed(
+        tab.url,
+        await this.getNavigationResult(session, loaded),
+        () => session.send("Page.navigate", { url: "about:blank" }),
+      );
+      chromeLog.success(`Tab ${tabId} reloaded`);
+      return result;
+    } catch (error) {
+      chromeLog.error(`Reload failed for tab ${tabId}:`, error);
+      if (error instanceof NavigationDeniedError) {
+        throw error;
+      }
+      throw new CaptureError(
+        `Failed to reload tab: ${error instanceof Error ? error.message : String(error)}`,
+        tabId,
+        "navigation",
+      );
+    }
+  }
+
+  async duplicateTab(
+    tabId: string,
+    options: NavigationOptions = {},
+  ): Promise<NavigationResult> {
+    await this.ensureConnected();
+    const tab = await this.findTabById(tabId);
+
+    // CDP has no duplicate command; open the same URL in a new agent tab
+    chromeLog.debug(`Duplicating tab ${tabId} (${tab.url})...`);
+    return await this.openTab(tab.url, options);
+  }
+
+  async closeTab(tabId: string): Promise<void> {
+    await this.ensureConnected();
+    this.assertAgentOwned(tabId);
+
+    try {
+      chromeLog.debug(`Closing agent tab ${tabId}...`);
+      await this.sessionPool?.release(tabId);
+      await this.browser.send("Target.closeTarget", { targetId: tabId });
+      this.agentTabs.delete(tabId);
+      this.elementRefs.delete(tabId);
+      chromeLog.success(`Closed agent tab ${tabId}`);
+    } catch (error) {
+      chromeLog.error(`Failed to close tab ${tabId}:`, error);
+      throw new CaptureError(
+        `Failed to close tab: ${error instanceof Error ? error.message : String(error)}`,
+        tabId,
+        "close",
+      );
+    }
+  }
+
+  /**
+   * Load an already allowed URL in a tab and wait for the requested lifecycle event
+   * @param session - Session of the tab
+   * @param url - URL that passed the navigation policy
+   * @param options - Lifecycle event to wait for and timeout
+   */
+  private async loadUrl(
+    session: CDPSession,
+    url: string,
+    options: NavigationOptions,
+  ): Promise<NavigationResult> {
+    const lifecycle = this.waitForLifecycle(session, options);
+    const response = await session.send<{
+      loaderId?: string;
+      errorText?: string;
+    }>("Page.navigate", { url });
+
+    if (response.errorText) {
+      lifecycle.cancel();
+      throw new Error(response.errorText);
+    }
+
+    // No loaderId means a same-document navigation (e.g., a #hash change) without a load event
+    let loaded = true;
+    if (response.loaderId) {
+      loaded = await lifecycle.done;
+    } else {
+      lifecycle.cancel();
+    }
+
+    return this.getNavigationResult(session, loaded);
+  }
+
+  /**
+   * Wait for a page lifecycle event on a session
+   * Subscribe before triggering the navigation so the event cannot be missed
+   * @param session - Session of the tab
+   * @param options - Lifecycle event to wait for and timeout
+   * @returns done resolves to false on timeout; cancel stops waiting
+   */
+  private waitForLifecycle(
+    session: CDPSession,
+    options: NavigationOptions,
+  ): { done: Promise<boolean>; cancel: () => void } {
+    const waitUntil = options.waitUntil ?? "load";
+    if (waitUntil === "none") {
+      return { done: Promise.resolve(true), cancel: () => undefined };
+    }
+
+    const event =
+      waitUntil === "domcontentloaded"
+        ? "Page.domContentEventFired"
+        : "Page.loadEventFired";
+    const timeout = options.timeout ?? this.config.timeout ?? 30000;
+
+    let cancel: () => void = () => undefined;
+    const done = new Promise<boolean>((resolve) => {
+      const timer = setTimeout(() => {
+        unsubscribe();
+        resolve(false);
+      }, timeout);
+      const unsubscribe = session.on(event, () => {
+        clearTimeout(timer);
+        unsubscribe();
+        resolve(true);
+      });
+      cancel = () => {
+        clearTimeout(timer);
+        unsubscribe();
+        resolve(false);
+      };
+    });
+
+    return { done, cancel };
+  }
+
+  /**
+   * Read the URL and title of a tab after navigation
+   */
+  private async getNavigationResult(
+    session: CDPSession,
+    loaded: boolean,
+  ): Promise<NavigationResult> {
+    const response = await session.send("Runtime.evaluate", {
+      expression: "({ url: location.href, title: document.title })",
+      returnByValue: true,
+    });
+    const page = response.result?.value as { url: string; title: string };
+    return { tabId: session.targetId, url: page.url, title: page.title, loaded };
+  }
+
   async extractElements(
     tabId: string,
     selectors: string[],
+    options: ElementExtractionOptions = {},
   ): Promise<ElementInfo[]> {
-    this.assertConnected();
+    await this.ensureConnected();
     await this.findTabById(tabId);
 
     const sanitizedSelectors = this.sanitizeSelectors(selectors);
@@ -616,132 +2273,44 @@ export class ChromeProvider extends BaseBrowserProvider {
       throw new Error("No valid selectors provided");
     }
 
-    let tabClient: any = null;
+    if (options.includeFrames) {
+      const elements = await this.extractElementsFromFrames(tabId, sanitizedSelectors);
+      chromeLog.success(`Extracted ${elements.length} elements from the frames of tab ${tabId}`);
+      return elements;
+    }
+
     try {
       chromeLog.debug(
         `Extracting elements from tab ${tabId} for selectors:`,
         sanitizedSelectors,
       );
 
-      // Connect to the specific tab
-      tabClient = await this.connectToTab(tabId);
-
-      const selectorsArray = JSON.stringify(sanitizedSelectors);
-
-      // Build JavaScript expression to extract comprehensive element information
-      const extractionExpression = `
-        (() => {
-          const selectors = ${selectorsArray};
-          const elementsInfo = [];
-          
-          selectors.forEach(selector => {
-            try {
-              const elements = document.querySelectorAll(selector);
-              
-              if (elements.length === 0) {
-                elementsInfo.push({
-                  selector,
-                  tagName: null,
-                  textContent: null,
-                  error: 'No elements found for selector'
-                });
-                return;
-              }
-              
-              // Extract info for all matching elements (up to 10 for performance)
-              const maxElements = Math.min(elements.length, 10);
-              
-              for (let i = 0; i < maxElements; i++) {
-                const element = elements[i];
-                const computedStyle = window.getComputedStyle(element);
-                const rect = element.getBoundingClientRect();
-                
-                // Extract key computed styles
-                const styles = {};
-                const importantStyleProps = [
-                  'display', 'position', 'top', 'left', 'right', 'bottom',
-                  'width', 'height', 'margin', 'padding', 'border',
-                  'color', 'background-color', 'font-family', 'font-size',
-                  'text-align', 'line-height', 'opacity', 'z-index',
-                  'transform', 'transition', 'box-shadow', 'border-radius'
-                ];
-                
-                importantStyleProps.forEach(prop => {
-                  const value = computedStyle.getPropertyValue(prop);
-                  if (value && value !== 'initial' && value !== 'auto' && value !== 'none') {
-                    styles[prop] = value;
-                  }
-                });
-                
-                // Extract all attributes
-                const attributes = {};
-                for (let j = 0; j < element.attributes.length; j++) {
-                  const attr = element.attributes[j];
-                  attributes[attr.name] = attr.value;
-                }
-                
-                // Get text content (trimmed and limited)
-                let textContent = element.textContent || '';
-                textContent = textContent.trim();
-                if (textContent.length > 200) {
-                  textContent = textContent.substring(0, 200) + '...';
-                }
-                
-                const elementInfo = {
-                  selector: elements.length === 1 ? selector : \`\${selector}:nth-child(\${i + 1})\`,
-                  tagName: element.tagName.toLowerCase(),
-                  textContent: textContent || null,
-                  styles,
-                  attributes,
-                  boundingBox: {
-                    x: Math.round(rect.x),
-                    y: Math.round(rect.y),
-                    width: Math.round(rect.width),
-                    height: Math.round(rect.height)
-                  },
-                  isVisible: rect.width > 0 && rect.height > 0 && 
-                           computedStyle.visibility !== 'hidden' && 
-                           computedStyle.display !== 'none',
-                  scrollPosition: {
-                    scrollTop: element.scrollTop,
-                    scrollLeft: element.scrollLeft
-                  }
-                };
-                
-                elementsInfo.push(elementInfo);
-              }
-              
-            } catch (e) {
-              elementsInfo.push({
-                selector,
-                tagName: null,
-                textContent: null,
-                error: \`Error processing selector: \${e.message}\`
-              });
-            }
-          });
-          
-          return elementsInfo;
-        })()
-      `;
-
-      chromeLog.debug("Evaluating element extraction expression...");
-
-      // Execute JavaScript to extract element information
-      const result = await tabClient.Runtime.evaluate({
-        expression: extractionExpression,
-        returnByValue: true,
-        awaitPromise: false,
-      });
-
-      if (result.exceptionDetails) {
-        throw new Error(
-          `JavaScript execution failed: ${result.exceptionDetails.text}`,
-        );
+      // Reuse the pooled session of the specific tab
+      const session = await this.getSession(tabId);
+
+      // Piercing selectors go through the DOM domain, which also reaches closed
+      // shadow roots; runs of plain selectors share one in-page evaluation.
+      // Results keep the order of the selectors
+      const extractedElements: ElementInfo[] = [];
+      let plainSelectors: string[] = [];
+      for (const selector of [...sanitizedSelectors, null]) {
+        if (selector !== null && !selector.includes(">>>")) {
+          plainSelectors.push(selector);
+          continue;
+        }
+        if (plainSelectors.length > 0) {
+          extractedElements.push(
+            ...(await this.evaluateElementExtraction(session, tabId, plainSelectors)),
+          );
+          plainSelectors = [];
+        }
+        if (selector !== null) {
+          extractedElements.push(
+            ...(await this.describeDeepElements(session, selector)),
+          );
+        }
       }
 
-      const extractedElements = result.result.value as ElementInfo[];
-
       // Filter out elements with errors and log warnings
       const validElements = extractedElements.filter((element) => {
         if ("error" in element) {
@@ -762,16 +2331,77 @@ export class ChromeProvider extends BaseBrowserProvider {
         tabId,
         "elements",
       );
-    } finally {
-      // Clean up tab connection
-      if (tabClient) {
-        try {
-          await tabClient.close();
-        } catch (error) {
-          chromeLog.debug(`Error closing tab connection: ${error}`);
+    }
+  }
+
+  /**
+   * Describe the elements matching a piercing selector, resolved with
+   * querySelectorDeep and inspected in their own frame
+   * Selectors without matches are reported like in the in-page extraction
+   */
+  private async describeDeepElements(
+    session: CDPSession,
+    selector: string,
+  ): Promise<ElementInfo[]> {
+    const nodeIds = await this.querySelectorDeep(session, selector);
+    if (nodeIds.length === 0) {
+      return [
+        {
+          selector,
+          tagName: "",
+          error: "No elements found for selector",
+        } as ElementInfo,
+      ];
+    }
+
+    const elements: ElementInfo[] = [];
+    try {
+      for (const [position, nodeId] of nodeIds
+        .slice(0, MAX_ELEMENTS_PER_SELECTOR)
+        .entries()) {
+        const { object } = await this.createTimeout(
+          session.send<{ object: { objectId?: string } }>("DOM.resolveNode", {
+            nodeId,
+            objectGroup: ELEMENT_OBJECT_GROUP,
+          }),
+        );
+        if (!object.objectId) {
+          continue;
+        }
+
+        const response = await this.createTimeout(
+          session.send<{
+            result?: { value?: ElementInfo };
+            exceptionDetails?: { text: string };
+          }>("Runtime.callFunctionOn", {
+            objectId: object.objectId,
+            functionDeclaration: buildDescribeElementFunction(),
+            arguments: [
+              {
+                value:
+                  nodeIds.length === 1
+                    ? selector
+                    : `${selector} [match ${position + 1}]`,
+              },
+            ],
+            returnByValue: true,
+          }),
+        );
+        if (response.exceptionDetails) {
+          throw new Error(
+            `JavaScript execution failed: ${response.exceptionDetails.text}`,
+          );
+        }
+        if (response.result?.value) {
+          elements.push(response.result.value);
         }
       }
+    } finally {
+      await session
+        .send("Runtime.releaseObjectGroup", { objectGroup: ELEMENT_OBJECT_GROUP })
+        .catch(() => undefined);
     }
+    return elements;
   }
 
   /**
@@ -781,140 +2411,27 @@ export class ChromeProvider extends BaseBrowserProvider {
    */
   async scrollPage(
     tabId: string,
-    options: {
-      scrollType: 'pixels' | 'coordinates' | 'viewport' | 'element' | 'top' | 'bottom';
-      x?: number;
-      y?: number;
-      selector?: string;
-      smooth?: boolean;
-    },
-  ): Promise<{
-    success: boolean;
-    scrollPosition: { x: number; y: number };
-    viewportSize: { width: number; height: number };
-    pageSize: { width: number; height: number };
-  }> {
-    this.assertConnected();
+    options: ScrollOptions,
+  ): Promise<ScrollResult> {
+    await this.ensureConnected();
     await this.findTabById(tabId);
 
-    let tabClient: any = null;
     try {
       chromeLog.debug(`Scrolling page in tab ${tabId} with options:`, options);
 
-      // Connect to the specific tab
-      tabClient = await this.connectToTab(tabId);
+      // Reuse the pooled session of the specific tab
+      const session = await this.getSession(tabId);
 
       // Build JavaScript expression based on scroll type
-      let scrollExpression = '';
-      const smooth = options.smooth !== false ? 'smooth' : 'auto';
-
-      switch (options.scrollType) {
-        case 'pixels':
-          scrollExpression = `
-            window.scrollBy({
-              left: ${options.x ?? 0},
-              top: ${options.y ?? 0},
-              behavior: '${smooth}'
-            });
-          `;
-          break;
-
-        case 'coordinates':
-          scrollExpression = `
-            window.scrollTo({
-              left: ${options.x ?? 0},
-              top: ${options.y ?? 0},
-              behavior: '${smooth}'
-            });
-          `;
-          break;
-
-        case 'viewport':
-          // Scroll by viewport height (page up/down)
-          const direction = (options.y ?? 0) < 0 ? -1 : 1;
-          scrollExpression = `
-            window.scrollBy({
-              left: 0,
-              top: ${direction} * window.innerHeight,
-              behavior: '${smooth}'
-            });
-          `;
-          break;
-
-        case 'element':
-          if (!options.selector) {
-            throw new Error('Selector is required for element scroll type');
-          }
-          scrollExpression = `
-            const element = document.querySelector(${JSON.stringify(options.selector)});
-            if (element) {
-              element.scrollIntoView({ behavior: '${smooth}', block: 'start' });
-            } else {
-              throw new Error('Element not found for selector: ${options.selector}');
-            }
-          `;
-          break;
-
-        case 'top':
-          scrollExpression = `
-            window.scrollTo({
-              left: 0,
-              top: 0,
-              behavior: '${smooth}'
-            });
-          `;
-          break;
-
-        case 'bottom':
-          scrollExpression = `
-            window.scrollTo({
-              left: 0,
-              top: document.body.scrollHeight,
-              behavior: '${smooth}'
-            });
-          `;
-          break;
-
-        default:
-          throw new Error(`Unsupported scroll type: ${options.scrollType}`);
-      }
-
-      // Execute scroll and get position information
-      const fullExpression = `
-        (() => {
-          try {
-            ${scrollExpression}
-            
-            // Wait a bit for scroll to complete, then return position info
-            return new Promise(resolve => {
-              setTimeout(() => {
-                resolve({
-                  scrollPosition: {
-                    x: window.pageXOffset || document.documentElement.scrollLeft,
-                    y: window.pageYOffset || document.documentElement.scrollTop
-                  },
-                  viewportSize: {
-                    width: window.innerWidth,
-                    height: window.innerHeight
-                  },
-                  pageSize: {
-                    width: Math.max(document.body.scrollWidth, document.documentElement.scrollWidth),
-                    height: Math.max(document.body.scrollHeight, document.documentElement.scrollHeight)
-                  }
-                });
-              }, 100);
-            });
-          } catch (error) {
-            throw new Error('Scroll operation failed: ' + error.message);
-          }
-        })()
-      `;
+      const fullExpression = buildScrollExpression(options);
 
-      const result = await tabClient.Runtime.evaluate({
-        expression: fullExpression,
-        awaitPromise: true,
-        returnByValue: true,
-      });
+      const result = await this.evaluateSelectorExpression(
+        session,
+        tabId,
+        fullExpression,
+        options.selector ? [options.selector] : [],
+        true,
+      );
 
       if (result.exceptionDetails) {
         throw new Error(
@@ -922,7 +2439,7 @@ export class ChromeProvider extends BaseBrowserProvider {
         );
       }
 
-      const scrollResult = result.result.value;
+      const scrollResult = result.result.value as Omit<ScrollResult, "success">;
       chromeLog.success(
         `Page scrolled in tab ${tabId}, position: (${scrollResult.scrollPosition.x}, ${scrollResult.scrollPosition.y})`,
       );
@@ -938,15 +2455,6 @@ export class ChromeProvider extends BaseBrowserProvider {
         tabId,
         "scroll",
       );
-    } finally {
-      // Clean up tab connection
-      if (tabClient) {
-        try {
-          await tabClient.close();
-        } catch (error) {
-          chromeLog.debug(`Error closing tab connection: ${error}`);
-        }
-      }
     }
   }
 }
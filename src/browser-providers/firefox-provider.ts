@@ -0,0 +1,1070 @@
+/**
+ * Firefox browser provider implementation
+ * Uses WebDriver BiDi (Firefox Remote Agent) for browser automation
+ */
+
+import { BaseBrowserProvider } from "@/browser-providers/base-provider.js";
+import {
+  type TabInfo,
+  type TabQuery,
+  type CaptureOptions,
+  type HTMLCaptureOptions,
+  type CSSCaptureOptions,
+  type ElementInfo,
+  type ElementExtractionOptions,
+  type FrameEvaluation,
+  type AccessibilitySnapshot,
+  type BrowserType,
+  type ScrollOptions,
+  type ScrollResult,
+  type NavigationOptions,
+  type NavigationResult,
+  type ScreenshotResult,
+  type DeviceEmulation,
+  type PrintSettings,
+  BrowserConnectionError,
+  CaptureError,
+  NavigationDeniedError,
+} from "@/interfaces/types.js";
+import {
+  type BrowserCapabilities,
+  FIREFOX_CAPABILITIES,
+} from "@/interfaces/capabilities.js";
+import { type BrowserToolsConfig } from "@/interfaces/browser-tools.js";
+import { BiDiClient, getBiDiStatus } from "@/utils/bidi-client.js";
+import { firefoxLog } from "@/utils/logger.js";
+import { filterTabs } from "@/core/tab-query.js";
+import { getAgentTabs } from "@/core/agent-tabs.js";
+import {
+  type DebugEndpoint,
+  getWebSocketUrl,
+  resolveDebugEndpoint,
+} from "@/utils/debug-endpoint.js";
+import {
+  buildHTMLExpression,
+  buildCSSExpression,
+  buildElementExtractionExpression,
+  buildScrollExpression,
+  buildPageStateExpression,
+  buildElementRectExpression,
+  prettifyHTML,
+  prettifyCSS,
+} from "@/capture/page-scripts.js";
+
+/** Browsing context as reported by browsingContext.getTree */
+interface BiDiContextNode {
+  context: string;
+  url: string;
+  children?: BiDiContextNode[] | null;
+}
+
+/** browsingContext.print takes page and margin sizes in centimeters */
+const CENTIMETERS_PER_INCH = 2.54;
+
+export class FirefoxProvider extends BaseBrowserProvider {
+  private bidiClient: BiDiClient | null = null; // WebDriver BiDi client
+  private readonly endpoint: DebugEndpoint;
+
+  constructor(config: BrowserToolsConfig = {}) {
+    super(config);
+    this.endpoint = resolveDebugEndpoint(config, "firefox");
+    this.agentTabs = getAgentTabs(this.endpoint);
+  }
+
+  getBrowserType(): BrowserType {
+    return "firefox";
+  }
+
+  getCapabilities(): BrowserCapabilities {
+    return this.withNavigationPolicy(FIREFOX_CAPABILITIES);
+  }
+
+  /**
+   * WebDriver BiDi endpoint exposed by the Firefox Remote Agent
+   */
+  private get sessionUrl(): string {
+    return (
+      this.endpoint.webSocketDebuggerUrl ??
+      getWebSocketUrl(this.endpoint, "/session")
+    );
+  }
+
+  async isAvailable(): Promise<boolean> {
+    firefoxLog.debug(`Checking availability at ${this.sessionUrl}...`);
+
+    const status = await getBiDiStatus(this.sessionUrl);
+    if (!status) {
+      firefoxLog.debug("Firefox WebDriver BiDi endpoint not reachable");
+      return false;
+    }
+
+    // A connected provider holds the only session, so status reports not ready
+    if (!status.ready && !this.connected) {
+      firefoxLog.debug(`Firefox not accepting sessions: ${status.message}`);
+      return false;
+    }
+
+    firefoxLog.success("Firefox is available:", status);
+    return true;
+  }
+
+  async connect(): Promise<void> {
+    if (this.connected) {
+      firefoxLog.debug("Already connected, skipping connection");
+      return;
+    }
+
+    firefoxLog.debug(
+      `Attempting to connect to WebDriver BiDi at ${this.sessionUrl}...`,
+    );
+
+    const client = new BiDiClient(this.sessionUrl, this.config.timeout);
+    try {
+      await client.connect();
+
+      // Firefox allows a single BiDi session per browser instance
+      await client.send("session.new", { capabilities: {} });
+
+      client.on("disconnect", () => {
+        firefoxLog.debug("BiDi connection closed by Firefox");
+        this.bidiClient = null;
+        this.connected = false;
+      });
+
+      this.bidiClient = client;
+      this.connected = true;
+      firefoxLog.success("Connected to Firefox WebDriver BiDi successfully");
+    } catch (error) {
+      await client.close();
+      const errorMsg = `Failed to connect to Firefox: ${error instanceof Error ? error.message : String(error)}. Start Firefox with --remote-debugging-port=${this.endpoint.port} and make sure no other automation session is attached.`;
+      firefoxLog.error(errorMsg);
+      throw new BrowserConnectionError(
+        errorMsg,
+        "firefox",
+        error instanceof Error ? error : undefined,
+      );
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    if (!this.connected || !this.bidiClient) {
+      return;
+    }
+
+    try {
+      firefoxLog.debug("Ending BiDi session...");
+      await this.bidiClient.send("session.end");
+    } catch (error) {
+      firefoxLog.debug("Error ending BiDi session:", error);
+    }
+
+    try {
+      await this.bidiClient.close();
+      firefoxLog.success("Disconnected from Firefox WebDriver BiDi");
+    } catch (error) {
+      firefoxLog.error("Error during disconnect:", error);
+    } finally {
+      this.bidiClient = null;
+      this.connected = false;
+    }
+  }
+
+  /**
+   * Get the connected BiDi client or throw if the connection was lost
+   */
+  private get client(): BiDiClient {
+    this.assertConnected();
+    if (!this.bidiClient) {
+      throw new BrowserConnectionError(
+        "Firefox BiDi connection lost. Reconnect to continue.",
+        "firefox",
+      );
+    }
+    return this.bidiClient;
+  }
+
+  /**
+   * Evaluate an expression in a browsing context and return its JSON value
+   * Results are serialized with JSON.stringify in the page so they come back
+   * as plain values instead of BiDi remote value trees
+   * @param contextId - Browsing context (tab) ID
+   * @param expression - JavaScript expression, may evaluate to a promise
+   * @returns Promise resolving to the parsed result
+   */
+  private async evaluate<T>(contextId: string, expression: string): Promise<T> {
+    const response = await this.client.send("script.evaluate", {
+      expression: `Promise.resolve(${expression}).then(value => JSON.stringify(value))`,
+      target: { context: contextId },
+      awaitPromise: true,
+      resultOwnership: "none",
+    });
+
+    if (response.type === "exception") {
+      throw new Error(
+        `JavaScript execution failed: ${response.exceptionDetails?.text ?? "Unknown error"}`,
+      );
+    }
+
+    const value = response.result?.value;
+    return (typeof value === "string" ? JSON.parse(value) : undefined) as T;
+  }
+
+  /**
+   * WebDriver BiDi can only emulate the viewport size and pixel ratio;
+   * mobile mode, touch and user agent settings are ignored
+   */
+  protected async applyEmulation(
+    tabId: string,
+    emulation: DeviceEmulation,
+  ): Promise<void> {
+    this.assertConnected();
+    if (emulation.media) {
+      throw new CaptureError(
+        "Media type and media feature emulation (print, color scheme, reduced motion, forced colors) is not supported over WebDriver BiDi",
+        tabId,
+        "emulation",
+      );
+    }
+    firefoxLog.debug(`Emulating device on tab ${tabId}:`, emulation);
+
+    let viewport: { width: number; height: number } | null = null;
+    if (emulation.width || emulation.height) {
+      // setViewport needs both sides; keep the current one that was not given
+      const current = await this.evaluate<{ width: number; height: number }>(
+        tabId,
+        "({ width: window.innerWidth, height: window.innerHeight })",
+      );
+      viewport = {
+        width: emulation.width || current.width,
+        height: emulation.height || current.height,
+      };
+    }
+
+    await this.client.send("browsingContext.setViewport", {
+      context: tabId,
+      viewport,
+      devicePixelRatio: emulation.deviceScaleFactor || null,
+    });
+  }
+
+  /**
+   * Pixel ratio set by the active emulation of a tab, or null for the window's own
+   */
+  private getEmulatedPixelRatio(tabId: string): number | null {
+    const deviceScaleFactor = this.emulations.get(tabId)?.deviceScaleFactor ?? 0;
+    return deviceScaleFactor > 0 ? deviceScaleFactor : null;
+  }
+
+  protected async clearEmulation(tabId: string): Promise<void> {
+    this.assertConnected();
+    await this.client.send("browsingContext.setViewport", {
+      context: tabId,
+      viewport: null,
+      devicePixelRatio: null,
+    });
+  }
+
+  protected async evaluateInTab<T>(tabId: string, expression: string): Promise<T> {
+    this.assertConnected();
+    return this.evaluate<T>(tabId, expression);
+  }
+
+  /**
+   * Frames are child browsing contexts; script.evaluate reaches cross-origin
+   * ones directly, so there is no separate out-of-process handling
+   */
+  protected async evaluateInFrames<T>(
+    tabId: string,
+    expression: string,
+  ): Promise<FrameEvaluation<T>[]> {
+    this.assertConnected();
+    await this.findTabById(tabId);
+
+    let contexts: BiDiContextNode[];
+    try {
+      const tree = await this.client.send("browsingContext.getTree", {
+        root: tabId,
+      });
+      contexts = (tree.contexts ?? []) as BiDiContextNode[];
+    } catch (error) {
+      firefoxLog.error(`Frame tree lookup failed for tab ${tabId}:`, error);
+      throw new CaptureError(
+        `Failed to read frames: ${error instanceof Error ? error.message : String(error)}`,
+        tabId,
+        "frames",
+      );
+    }
+
+    const results: FrameEvaluation<T>[] = [];
+    const visit = async (
+      node: BiDiContextNode,
+      parentFrameId?: string,
+    ): Promise<void> => {
+      const result: FrameEvaluation<T> = { frameId: node.context, url: node.url };
+      if (parentFrameId) {
+        result.parentFrameId = parentFrameId;
+      }
+      try {
+        result.value = await this.evaluate<T>(node.context, expression);
+      } catch (error) {
+        result.error = error instanceof Error ? error.message : String(error);
+      }
+      results.push(result);
+
+      for (const child of node.children ?? []) {
+        await visit(child, node.context);
+      }
+    };
+    for (const context of contexts) {
+      await visit(context);
+    }
+
+    firefoxLog.debug(`Evaluated expression in ${results.length} frames of tab ${tabId}`);
+    return results;
+  }
+
+  async listTabs(query?: TabQuery): Promise<TabInfo[]> {
+    this.assertConnected();
+
+    let result: TabInfo[];
+    try {
+      firefoxLog.debug("Fetching browsing context tree from Firefox...");
+
+      const tree = await this.client.send("browsingContext.getTree", {
+        maxDepth: 0,
+      });
+      const contexts = (tree.contexts ?? []) as {
+        context: string;
+        url: string;
+        clientWindow?: string;
+      }[];
+
+      // Window states need browser.getClientWindows (Firefox 131+)
+      const windowStates = new Map<string, TabInfo["windowState"]>();
+      try {
+        const { clientWindows } = await this.client.send<{
+          clientWindows: { clientWindow: string; state: TabInfo["windowState"] }[];
+        }>("browser.getClientWindows");
+        for (const window of clientWindows) {
+          windowStates.set(window.clientWindow, window.state);
+        }
+      } catch (error) {
+        firefoxLog.debug("browser.getClientWindows is not supported:", error);
+      }
+
+      const tabs = await Promise.all(
+        contexts.map(async (context): Promise<TabInfo> => {
+          // Title, visibility and focus are only available from inside the page
+          const pageState = await this.evaluate<{
+            title: string;
+            visible: boolean;
+            focused: boolean;
+            favIconUrl: string | null;
+          }>(context.context, buildPageStateExpression()).catch(() => ({
+            title: "",
+            visible: false,
+            focused: false,
+            favIconUrl: null,
+          }));
+
+          const tab: TabInfo = {
+            id: context.context,
+            url: context.url,
+            title: pageState.title,
+            active: false,
+            visible: pageState.visible,
+            focused: pageState.focused,
+            browserType: "firefox",
+            agentOwned: this.agentTabs.has(context.context),
+          };
+          if (pageState.favIconUrl) {
+            tab.favIconUrl = pageState.favIconUrl;
+          }
+          if (context.clientWindow) {
+            tab.windowId = context.clientWindow;
+            const windowState = windowStates.get(context.clientWindow);
+            if (windowState) {
+              tab.windowState = windowState;
+            }
+          }
+          return tab;
+        }),
+      );
+      result = this.markActiveTab(tabs);
+
+      firefoxLog.success(`Successfully mapped ${result.length} tabs:`, result);
+    } catch (error) {
+      const errorMsg = `Failed to list Firefox tabs: ${error instanceof Error ? error.message : String(error)}`;
+      firefoxLog.error(errorMsg);
+      throw new BrowserConnectionError(
+        errorMsg,
+        "firefox",
+        error instanceof Error ? error : undefined,
+      );
+    }
+
+    return filterTabs(result, query);
+  }
+
+  protected async renderScreenshot(
+    tabId: string,
+    options: CaptureOptions,
+  ): Promise<ScreenshotResult> {
+    this.assertConnected();
+    await this.findTabById(tabId); // Validate tab exists
+
+    try {
+      firefoxLog.debug(
+        `Capturing screenshot of tab ${tabId} with options:`,
+        options,
+      );
+
+      const format = options.format ?? "png";
+      if (!this.getCapabilities().supportedImageFormats.includes(format)) {
+        throw new Error(`Firefox does not support ${format} screenshots`);
+      }
+
+      const screenshotParams: Record<string, unknown> = {
+        context: tabId,
+        origin: options.fullPage ? "document" : "viewport",
+        format: {
+          type: `image/${format}`,
+          // BiDi expects quality in the 0-1 range
+          ...(format === "jpeg"
+            ? { quality: (options.quality ?? 80) / 100 }
+            : {}),
+        },
+      };
+
+      const metrics = await this.evaluate<{
+        devicePixelRatio: number;
+        viewportWidth: number;
+        viewportHeight: number;
+        contentWidth: number;
+        contentHeight: number;
+      }>(
+        tabId,
+        `({
+          devicePixelRatio: window.devicePixelRatio,
+          viewportWidth: document.documentElement.clientWidth,
+          viewportHeight: document.documentElement.clientHeight,
+          contentWidth: document.documentElement.scrollWidth,
+          contentHeight: document.documentElement.scrollHeight
+        })`,
+      );
+      const devicePixelRatio = metrics.devicePixelRatio || 1;
+
+      let width = metrics.viewportWidth;
+      let height = metrics.viewportHeight;
+      let truncated = false;
+      let elementClip: ScreenshotResult["clip"];
+
+      if (options.selector) {
+        const rect = await this.evaluate<{
+          x: number;
+          y: number;
+          width: number;
+          height: number;
+          documentWidth: number;
+          documentHeight: number;
+        } | null>(tabId, buildElementRectExpression(options.selector));
+        if (!rect) {
+          throw new Error(`No element matches selector "${options.selector}"`);
+        }
+        if (rect.width === 0 || rect.height === 0) {
+          throw new Error(`Element "${options.selector}" has an empty box`);
+        }
+
+        elementClip = this.padClip(rect, options.padding ?? 0, {
+          width: rect.documentWidth,
+          height: rect.documentHeight,
+        });
+        width = elementClip.width;
+        height = elementClip.height;
+        screenshotParams.origin = "document";
+        screenshotParams.clip = { type: "box", ...elementClip };
+      } else if (options.clip) {
+        width = options.clip.width;
+        height = options.clip.height;
+        screenshotParams.clip = {
+          type: "box",
+          x: options.clip.x,
+          y: options.clip.y,
+          width,
+          height,
+        };
+      } else if (options.fullPage) {
+        // Firefox renders the document in one pass, so only enforce the size limit
+        const maxDimensions = this.getCapabilities().maxScreenshotDimensions;
+        width = Math.min(
+          metrics.contentWidth,
+          Math.floor((maxDimensions?.width ?? Infinity) / devicePixelRatio),
+        );
+        height = Math.min(
+          metrics.contentHeight,
+          Math.floor((maxDimensions?.height ?? Infinity) / devicePixelRatio),
+        );
+        truncated =
+          width < metrics.contentWidth || height < metrics.contentHeight;
+        if (truncated) {
+          screenshotParams.clip = { type: "box", x: 0, y: 0, width, height };
+        }
+      }
+
+      // BiDi screenshots have no scale; render at a lower pixel ratio instead
+      const scale = options.scale ?? 1;
+      if (scale !== 1) {
+        await this.client.send("browsingContext.setViewport", {
+          context: tabId,
+          devicePixelRatio: devicePixelRatio * scale,
+        });
+      }
+
+      let result: { data: string };
+      try {
+        result = await this.client.send<{ data: string }>(
+          "browsingContext.captureScreenshot",
+          screenshotParams,
+        );
+      } finally {
+        if (scale !== 1) {
+          // Back to the emulated ratio, or the window's own when not emulating
+          await this.client
+            .send("browsingContext.setViewport", {
+              context: tabId,
+              devicePixelRatio: this.getEmulatedPixelRatio(tabId),
+            })
+            .catch((error: unknown) =>
+              firefoxLog.debug("Failed to reset device pixel ratio:", error),
+            );
+        }
+      }
+
+      firefoxLog.success(
+        `Screenshot captured for tab ${tabId}, data length: ${result.data.length}`,
+      );
+      return {
+        // Base64 encoded image data
+        ...this.toScreenshotResult(
+          result.data,
+          format,
+          { width, height },
+          devicePixelRatio,
+          options,
+        ),
+        truncated,
+        ...(elementClip && { clip: elementClip }),
+        ...(options.fullPage && !elementClip && {
+          contentSize: {
+            width: metrics.contentWidth,
+            height: metrics.contentHeight,
+          },
+        }),
+      };
+    } catch (error) {
+      firefoxLog.error(`Screenshot capture failed for tab ${tabId}:`, error);
+      throw new CaptureError(
+        `Failed to capture screenshot: ${error instanceof Error ? error.message : String(error)}`,
+        tabId,
+        "screenshot",
+      );
+    }
+  }
+
+  /**
+   * WebDriver BiDi prints without header/footer templates and sizes pages in centimeters
+   */
+  protected async renderPDF(
+    tabId: string,
+    settings: PrintSettings,
+  ): Promise<string> {
+    this.assertConnected();
+    await this.findTabById(tabId);
+
+    if (
+      settings.headerTemplate !== undefined ||
+      settings.footerTemplate !== undefined ||
+      settings.preferCSSPageSize
+    ) {
+      throw new CaptureError(
+        "Header/footer templates and CSS page sizes are not supported over WebDriver BiDi",
+        tabId,
+        "pdf",
+      );
+    }
+
+    try {
+      firefoxLog.debug(`Printing tab ${tabId} to PDF with settings:`, settings);
+
+      const result = await this.client.send<{ data: string }>(
+        "browsingContext.print",
+        {
+          context: tabId,
+          background: settings.printBackground,
+          orientation: settings.landscape ? "landscape" : "portrait",
+          page: {
+            width: settings.paperWidth * CENTIMETERS_PER_INCH,
+            height: settings.paperHeight * CENTIMETERS_PER_INCH,
+          },
+          margin: {
+            top: settings.margin.top * CENTIMETERS_PER_INCH,
+            right: settings.margin.right * CENTIMETERS_PER_INCH,
+            bottom: settings.margin.bottom * CENTIMETERS_PER_INCH,
+            left: settings.margin.left * CENTIMETERS_PER_INCH,
+          },
+          scale: settings.scale,
+          shrinkToFit: false,
+          ...(settings.pageRanges && {
+            pageRanges: settings.pageRanges.split(",").map((range) =>
+              range.replace(/\s+/g, ""),
+            ),
+          }),
+        },
+      );
+
+      firefoxLog.success(`PDF printed from tab ${tabId}`);
+      return result.data;
+    } catch (error) {
+      firefoxLog.error(`PDF export failed for tab ${tabId}:`, error);
+      throw new CaptureError(
+        `Failed to print PDF: ${error instanceof Error ? error.message : String(error)}`,
+        tabId,
+        "pdf",
+      );
+    }
+  }
+
+  /**
+   * WebDriver BiDi has no screencast command
+   */
+  protected async recordScreencast(tabId: string): Promise<number> {
+    this.assertConnected();
+    await this.findTabById(tabId);
+    throw new CaptureError(
+      "Screencasts are not supported over WebDriver BiDi",
+      tabId,
+      "screencast",
+    );
+  }
+
+  /**
+   * WebDriver BiDi has no page snapshot command
+   */
+  protected async renderArchive(tabId: string): Promise<string> {
+    this.assertConnected();
+    await this.findTabById(tabId);
+    throw new CaptureError(
+      "MHTML snapshots are not supported over WebDriver BiDi",
+      tabId,
+      "archive",
+    );
+  }
+
+  async captureHTML(
+    tabId: string,
+    options: HTMLCaptureOptions = {},
+  ): Promise<string> {
+    this.assertConnected();
+    await this.findTabById(tabId);
+
+    try {
+      firefoxLog.debug(
+        `Capturing HTML from tab ${tabId} with options:`,
+        options,
+      );
+
+      let htmlContent = await this.evaluate<string>(
+        tabId,
+        buildHTMLExpression(options),
+      );
+
+      // Pretty format if requested
+      if (options.prettify && htmlContent && (options.format ?? "html") === "html") {
+        htmlContent = prettifyHTML(htmlContent);
+      }
+
+      firefoxLog.success(
+        `HTML captured from tab ${tabId}, length: ${htmlContent.length}`,
+      );
+      return htmlContent;
+    } catch (error) {
+      firefoxLog.error(`HTML capture failed for tab ${tabId}:`, error);
+      throw new CaptureError(
+        `Failed to capture HTML: ${error instanceof Error ? error.message : String(error)}`,
+        tabId,
+        "html",
+      );
+    }
+  }
+
+  async captureAccessibilityTree(tabId: string): Promise<AccessibilitySnapshot> {
+    this.assertConnected();
+    await this.findTabById(tabId);
+    throw new CaptureError(
+      "Accessibility tree snapshots are not supported over WebDriver BiDi",
+      tabId,
+      "accessibility",
+    );
+  }
+
+  async captureCSS(tabId: string, options: CSSCaptureOptions): Promise<string> {
+    this.assertConnected();
+    await this.findTabById(tabId);
+
+    if (!options.selectors || options.selectors.length === 0) {
+      throw new Error("CSS capture requires at least one selector");
+    }
+    if (options.mode === "rules") {
+      throw new CaptureError(
+        "Matched CSS rules are not supported over WebDriver BiDi",
+        tabId,
+        "css",
+      );
+    }
+
+    try {
+      firefoxLog.debug(
+        `Capturing CSS from tab ${tabId} for selectors:`,
+        options.selectors,
+      );
+
+      const sanitizedSelectors = this.sanitizeSelectors(options.selectors);
+      let cssContent = await this.evaluate<string>(
+        tabId,
+        buildCSSExpression(sanitizedSelectors, options),
+      );
+
+      // Pretty format if requested
+      if (options.prettify && cssContent) {
+        cssContent = prettifyCSS(cssContent);
+      }
+
+      firefoxLog.success(
+        `CSS captured from tab ${tabId}, length: ${cssContent.length}`,
+      );
+      return cssContent;
+    } catch (error) {
+      firefoxLog.error(`CSS capture failed for tab ${tabId}:`, error);
+      throw new CaptureError(
+        `Failed to capture CSS: ${error instanceof Error ? error.message : String(error)}`,
+        tabId,
+        "css",
+      );
+    }
+  }
+
+  /**
+   * Set a tab as active/focused in the browser
+   * @param tabId - ID of the browsing context to activate
+   */
+  async setActiveTab(tabId: string): Promise<void> {
+    this.assertConnected();
+    await this.findTabById(tabId); // Validate tab exists
+
+    try {
+      firefoxLog.debug(`Setting tab ${tabId} as active...`);
+      await this.client.send("browsingContext.activate", { context: tabId });
+      firefoxLog.success(`Tab ${tabId} set as active`);
+    } catch (error) {
+      firefoxLog.error(`Failed to set active tab ${tabId}:`, error);
+      throw new BrowserConnectionError(
+        `Failed to set active tab: ${error instanceof Error ? error.message : String(error)}`,
+        "firefox",
+        error instanceof Error ? error : undefined,
+      );
+    }
+  }
+
+  async navigateTab(
+    tabId: string,
+    url: string,
+    options: NavigationOptions = {},
+  ): Promise<NavigationResult> {
+    this.assertConnected();
+    const targetUrl = this.assertNavigationAllowed(url);
+    await this.findTabById(tabId);
+
+    try {
+      firefoxLog.debug(`Navigating tab ${tabId} to ${targetUrl}...`);
+      await this.createTimeout(
+        this.client.send("browsingContext.navigate", {
+          context: tabId,
+          url: targetUrl,
+          wait: toReadinessState(options.waitUntil),
+        }),
+        options.timeout,
+      );
+      const result = await this.assertNavigationEndAllowed(
+        targetUrl,
+        await this.getNavigationResult(tabId),
+        () =>
+          this.client.send("browsingContext.navigate", {
+            context: tabId,
+            url: "about:blank",
+          }),
+      );
+      firefoxLog.success(`Tab ${tabId} navigated to ${result.url}`);
+      return result;
+    } catch (error) {
+      firefoxLog.error(`Navigation failed for tab ${tabId}:`, error);
+      if (error instanceof NavigationDeniedError) {
+        throw error;
+      }
+      throw new CaptureError(
+        `Failed to navigate tab: ${error instanceof Error ? error.message : String(error)}`,
+        tabId,
+        "navigation",
+      );
+    }
+  }
+
+  async openTab(
+    url?: string,
+    options: NavigationOptions = {},
+  ): Promise<NavigationResult> {
+    this.assertConnected();
+    const targetUrl = url === undefined ? undefined : this.assertNavigationAllowed(url);
+
+    let tabId = "";
+    try {
+      const { context } = await this.client.send<{ context: string }>(
+        "browsingContext.create",
+        { type: "tab" },
+      );
+      tabId = context;
+      this.agentTabs.add(tabId);
+      firefoxLog.debug(`Opened agent tab ${tabId}`);
+
+      if (targetUrl) {
+        await this.createTimeout(
+          this.client.send("browsingContext.navigate", {
+            context: tabId,
+            url: targetUrl,
+            wait: toReadinessState(options.waitUntil),
+          }),
+          options.timeout,
+        );
+      }
+
+      const result = targetUrl
+        ? await this.assertNavigationEndAllowed(
+            targetUrl,
+            await this.getNavigationResult(tabId),
+            () => this.closeTab(tabId),
+          )
+        : await this.getNavigationResult(tabId);
+      firefoxLog.success(`Opened tab ${tabId} at ${result.url}`);
+      return result;
+    } catch (error) {
+      firefoxLog.error("Failed to open tab:", error);
+      // A tab that failed to load is not left behind
+      if (this.agentTabs.has(tabId)) {
+        await this.closeTab(tabId).catch((closeError: unknown) =>
+          firefoxLog.debug(`Could not close failed tab ${tabId}:`, closeError),
+        );
+      }
+      if (error instanceof NavigationDeniedError) {
+        throw error;
+      }
+      throw new CaptureError(
+        `Failed to open tab: ${error instanceof Error ? error.message : String(error)}`,
+        tabId,
+        "navigation",
+      );
+    }
+  }
+
+  async reloadTab(
+    tabId: string,
+    options: NavigationOptions & { ignoreCache?: boolean } = {},
+  ): Promise<NavigationResult> {
+    this.assertConnected();
+    const tab = await this.findTabById(tabId);
+    this.assertNavigationAllowed(tab.url);
+
+    try {
+      firefoxLog.debug(`Reloading tab ${tabId} (${tab.url})...`);
+      await this.createTimeout(
+        this.client.send("browsingContext.reload", {
+          context: tabId,
+          wait: toReadinessState(options.waitUntil),
+          // Not every Firefox version implements ignoreCache; only send it when asked
+          ...(options.ignoreCache ? { ignoreCache: true } : {}),
+        }),
+        options.timeout,
+      );
+      const result = await this.assertNavigationEndAllowed(
+        tab.url,
+        await this.getNavigationResult(tabId),
+        () =>
+          this.client.send("browsingContext.navigate", {
+            context: tabId,
+            url: "about:blank",
+          }),
+      );
+      firefoxLog.success(`Tab ${tabId} reloaded`);
+      return result;
+    } catch (error) {
+      firefoxLog.error(`Reload failed for tab ${tabId}:`, error);
+      if (error instanceof NavigationDeniedError) {
+        throw error;
+      }
+      throw new CaptureError(
+        `Failed to reload tab: ${error instanceof Error ? error.message : String(error)}`,
+        tabId,
+        "navigation",
+      );
+    }
+  }
+
+  async duplicateTab(
+    tabId: string,
+    options: NavigationOptions = {},
+  ): Promise<NavigationResult> {
+    this.assertConnected();
+    const tab = await this.findTabById(tabId);
+
+    // BiDi has no duplicate command; open the same URL in a new agent tab
+    firefoxLog.debug(`Duplicating tab ${tabId} (${tab.url})...`);
+    return await this.openTab(tab.url, options);
+  }
+
+  async closeTab(tabId: string): Promise<void> {
+    this.assertConnected();
+    this.assertAgentOwned(tabId);
+
+    try {
+      firefoxLog.debug(`Closing agent tab ${tabId}...`);
+      await this.client.send("browsingContext.close", { context: tabId });
+      this.agentTabs.delete(tabId);
+      firefoxLog.success(`Closed agent tab ${tabId}`);
+    } catch (error) {
+      firefoxLog.error(`Failed to close tab ${tabId}:`, error);
+      throw new CaptureError(
+        `Failed to close tab: ${error instanceof Error ? error.message : String(error)}`,
+        tabId,
+        "close",
+      );
+    }
+  }
+
+  /**
+   * Read the URL and title of a tab after navigation
+   */
+  private async getNavigationResult(tabId: string): Promise<NavigationResult> {
+    const page = await this.evaluate<{ url: string; title: string }>(
+      tabId,
+      "({ url: location.href, title: document.title })",
+    );
+    return { tabId, url: page.url, title: page.title, loaded: true };
+  }
+
+  async extractElements(
+    tabId: string,
+    selectors: string[],
+    options: ElementExtractionOptions = {},
+  ): Promise<ElementInfo[]> {
+    this.assertConnected();
+    await this.findTabById(tabId);
+
+    const sanitizedSelectors = this.sanitizeSelectors(selectors);
+    if (sanitizedSelectors.length === 0) {
+      throw new Error("No valid selectors provided");
+    }
+
+    if (options.includeFrames) {
+      const elements = await this.extractElementsFromFrames(tabId, sanitizedSelectors);
+      firefoxLog.success(`Extracted ${elements.length} elements from the frames of tab ${tabId}`);
+      return elements;
+    }
+
+    try {
+      firefoxLog.debug(
+        `Extracting elements from tab ${tabId} for selectors:`,
+        sanitizedSelectors,
+      );
+
+      const extractedElements = await this.evaluate<ElementInfo[]>(
+        tabId,
+        buildElementExtractionExpression(sanitizedSelectors),
+      );
+
+      // Filter out elements with errors and log warnings
+      const validElements = extractedElements.filter((element) => {
+        if ("error" in element) {
+          firefoxLog.debug(`Element extraction warning: ${element.error}`);
+          return false;
+        }
+        return true;
+      });
+
+      firefoxLog.success(
+        `Extracted ${validElements.length} elements from tab ${tabId} (${extractedElements.length - validElements.length} had errors)`,
+      );
+      return validElements;
+    } catch (error) {
+      firefoxLog.error(`Element extraction failed for tab ${tabId}:`, error);
+      throw new CaptureError(
+        `Failed to extract elements: ${error instanceof Error ? error.message : String(error)}`,
+        tabId,
+        "elements",
+      );
+    }
+  }
+
+  /**
+   * Scroll the page using various methods
+   * @param tabId - ID of the tab to scroll
+   * @param options - Scroll options including type and parameters
+   */
+  async scrollPage(
+    tabId: string,
+    options: ScrollOptions,
+  ): Promise<ScrollResult> {
+    this.assertConnected();
+    await this.findTabById(tabId);
+
+    try {
+      firefoxLog.debug(`Scrolling page in tab ${tabId} with options:`, options);
+
+      const scrollResult = await this.evaluate<Omit<ScrollResult, "success">>(
+        tabId,
+        buildScrollExpression(options),
+      );
+
+      firefoxLog.success(
+        `Page scrolled in tab ${tabId}, position: (${scrollResult.scrollPosition.x}, ${scrollResult.scrollPosition.y})`,
+      );
+
+      return {
+        success: true,
+        ...scrollResult,
+      };
+    } catch (error) {
+      firefoxLog.error(`Scroll operation failed for tab ${tabId}:`, error);
+      throw new CaptureError(
+        `Failed to scroll page: ${error instanceof Error ? error.message : String(error)}`,
+        tabId,
+        "scroll",
+      );
+    }
+  }
+}
+
+/**
+ * Map a lifecycle event to the BiDi readiness state to wait for
+ * @param waitUntil - Lifecycle event requested by the caller
+ * @returns BiDi readiness state
+ */
+function toReadinessState(
+  waitUntil: NavigationOptions["waitUntil"] = "load",
+): "none" | "interactive" | "complete" {
+  switch (waitUntil) {
+    case "none":
+      return "none";
+    case "domcontentloaded":
+      return "interactive";
+    default:
+      return "complete";
+  }
+}
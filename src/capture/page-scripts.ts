@@ -0,0 +1,1086 @@
+/**
+ * In-page JavaScript expression builders shared by all browser providers
+ * Each builder returns a self-contained expression string that is evaluated
+ * inside the target page (CDP Runtime.evaluate, BiDi script.evaluate, ...)
+ */
+
+import {
+  type HTMLCaptureOptions,
+  type CSSCaptureOptions,
+  type ScrollOptions,
+} from "@/interfaces/types.js";
+
+/**
+ * In-page helper that resolves piercing selectors: "host >>> inner" matches
+ * "inner" inside the open shadow roots (or same-origin iframe documents) of
+ * the elements matching "host"; element refs ("ref=e123") are taken from the
+ * lensElementRefs map the provider passes in when it resolved them, and match
+ * nothing otherwise; other selectors behave like querySelectorAll
+ */
+const QUERY_ALL_DEEP = `
+  const queryAllDeep = (selector) => {
+    if (/^ref=e\\d+$/.test(selector.trim())) {
+      const element = typeof lensElementRefs === 'undefined' ? undefined : lensElementRefs.get(selector.trim());
+      return element ? [element] : [];
+    }
+    const parts = selector.split('>>>').map(part => part.trim());
+    if (parts.some(part => part.length === 0)) {
+      throw new Error('Invalid piercing selector: ' + selector);
+    }
+    let scopes = [document];
+    let matches = [];
+    parts.forEach((part, index) => {
+      matches = scopes.flatMap(scope => Array.from(scope.querySelectorAll(part)));
+      if (index < parts.length - 1) {
+        scopes = matches
+          .map(el => el.shadowRoot || (el.tagName === 'IFRAME' || el.tagName === 'FRAME' ? el.contentDocument : null))
+          .filter(Boolean);
+      }
+    });
+    return Array.from(new Set(matches));
+  };
+`;
+
+/**
+ * In-page helper that copies a node with its open shadow roots written out as
+ * declarative shadow DOM (<template shadowrootmode="open">)
+ */
+const CLONE_WITH_SHADOW_ROOTS = `
+  const cloneWithShadowRoots = (node) => {
+    // Template contents are not child nodes; a deep clone copies them
+    if (node.nodeName === 'TEMPLATE') {
+      return node.cloneNode(true);
+    }
+    const clone = node.cloneNode(false);
+    if (node.shadowRoot) {
+      const template = document.createElement('template');
+      template.setAttribute('shadowrootmode', node.shadowRoot.mode);
+      if (node.shadowRoot.delegatesFocus) {
+        template.setAttribute('shadowrootdelegatesfocus', '');
+      }
+      node.shadowRoot.childNodes.forEach(child => template.content.appendChild(cloneWithShadowRoots(child)));
+      clone.appendChild(template);
+    }
+    node.childNodes.forEach(child => clone.appendChild(cloneWithShadowRoots(child)));
+    return clone;
+  };
+`;
+
+/**
+ * In-page helper that reports an element's tag, text, key computed styles,
+ * attributes and viewport bounding box under the given selector label
+ */
+const DESCRIBE_ELEMENT = `
+  const describeElement = (element, label) => {
+    // Elements of other frames are styled by their own window
+    const view = element.ownerDocument.defaultView || window;
+    const computedStyle = view.getComputedStyle(element);
+    const rect = element.getBoundingClientRect();
+
+    // Extract key computed styles
+    const styles = {};
+    const importantStyleProps = [
+      'display', 'position', 'top', 'left', 'right', 'bottom',
+      'width', 'height', 'margin', 'padding', 'border',
+      'color', 'background-color', 'font-family', 'font-size',
+      'text-align', 'line-height', 'opacity', 'z-index',
+      'transform', 'transition', 'box-shadow', 'border-radius'
+    ];
+
+    importantStyleProps.forEach(prop => {
+      const value = computedStyle.getPropertyValue(prop);
+      if (value && value !== 'initial' && value !== 'auto' && value !== 'none') {
+        styles[prop] = value;
+      }
+    });
+
+    // Extract all attributes
+    const attributes = {};
+    for (let j = 0; j < element.attributes.length; j++) {
+      const attr = element.attributes[j];
+      attributes[attr.name] = attr.value;
+    }
+
+    // Get text content (trimmed and limited)
+    let textContent = element.textContent || '';
+    textContent = textContent.trim();
+    if (textContent.length > 200) {
+      textContent = textContent.substring(0, 200) + '...';
+    }
+
+    return {
+      selector: label,
+      tagName: element.tagName.toLowerCase(),
+      textContent: textContent || null,
+      styles,
+      attributes,
+      boundingBox: {
+        x: Math.round(rect.x),
+        y: Math.round(rect.y),
+        width: Math.round(rect.width),
+        height: Math.round(rect.height)
+      },
+      isVisible: rect.width > 0 && rect.height > 0 &&
+               computedStyle.visibility !== 'hidden' &&
+               computedStyle.display !== 'none',
+      scrollPosition: {
+        scrollTop: element.scrollTop,
+        scrollLeft: element.scrollLeft
+      }
+    };
+  };
+`;
+
+/**
+ * In-page Markdown converter: htmlToMarkdown(roots, readable) keeps headings,
+ * paragraphs, links, lists, tables, code and image alt text; in readable mode
+ * navigation, banners, sidebars and similar boilerplate are dropped, and
+ * findMainContent picks the element holding the main text
+ */
+const MARKDOWN_CONVERTER = `
+  const BLOCK_TAGS = new Set(['P', 'DIV', 'SECTION', 'ARTICLE', 'MAIN', 'HEADER', 'FOOTER', 'NAV', 'ASIDE',
+    'FIGURE', 'FIGCAPTION', 'FORM', 'FIELDSET', 'ADDRESS', 'DETAILS', 'SUMMARY', 'DL', 'DT', 'DD', 'BODY', 'HTML']);
+  const SKIPPED_TAGS = new Set(['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE', 'SVG', 'CANVAS', 'IFRAME', 'FRAME',
+    'OBJECT', 'EMBED', 'HEAD', 'INPUT', 'SELECT', 'TEXTAREA', 'OPTION', 'AUDIO', 'VIDEO']);
+  const BOILERPLATE_TAGS = new Set(['NAV', 'HEADER', 'FOOTER', 'ASIDE', 'BUTTON', 'FORM', 'DIALOG']);
+  const BOILERPLATE_ROLES = new Set(['navigation', 'banner', 'contentinfo', 'complementary', 'search',
+    'dialog', 'alertdialog', 'menu', 'menubar', 'toolbar']);
+  // Matched against each dash or underscore separated part of ids and class names
+  const BOILERPLATE_NAMES = /^(.*[-_])?(nav|navbar|navigation|menu|sidebar|footer|breadcrumbs?|cookies?|consent|social|share|sharing|comments|related|promo|ads?|advert|advertisement|sponsored|popup|modal|newsletter|subscribe)([-_].*)?$/i;
+  // Placeholders that survive whitespace cleanup: list indentation and code blocks
+  const INDENT = '\\u0001';
+  const FENCE = '\\x60\\x60\\x60';
+
+  const isHidden = (el) => el.hidden || el.getAttribute('aria-hidden') === 'true' ||
+    (el.ownerDocument.defaultView || window).getComputedStyle(el).display === 'none';
+
+  const isBoilerplate = (el) => {
+    // An article's own header and footer are part of the content
+    if ((el.tagName === 'HEADER' || el.tagName === 'FOOTER') && el.parentElement && el.parentElement.closest('article')) {
+      return false;
+    }
+    const names = ((el.id || '') + ' ' + (typeof el.className === 'string' ? el.className : '')).split(/\\s+/);
+    return BOILERPLATE_TAGS.has(el.tagName) ||
+      BOILERPLATE_ROLES.has(el.getAttribute('role')) ||
+      names.some(name => BOILERPLATE_NAMES.test(name));
+  };
+
+  const findMainContent = () => {
+    const articles = document.querySelectorAll('article');
+    if (articles.length === 1) {
+      return articles[0];
+    }
+    const main = document.querySelector('main, [role="main"]');
+    if (main) {
+      return main;
+    }
+
+    // Score containers by the paragraph text they hold, like Readability
+    const scores = new Map();
+    document.querySelectorAll('p, pre, blockquote, td').forEach(paragraph => {
+      const text = paragraph.textContent.trim();
+      if (text.length < 25) {
+        return;
+      }
+      const score = 1 + text.split(',').length + Math.min(Math.floor(text.length / 100), 3);
+      let parent = paragraph.parentElement;
+      for (let level = 0; parent && parent !== document.body && level < 3; level++) {
+        scores.set(parent, (scores.get(parent) || 0) + score / (level + 1));
+        parent = parent.parentElement;
+      }
+    });
+
+    let best = null;
+    let bestScore = 0;
+    scores.forEach((score, el) => {
+      if (isBoilerplate(el)) {
+        return;
+      }
+      const textLength = el.textContent.length || 1;
+      let linkLength = 0;
+      el.querySelectorAll('a').forEach(link => { linkLength += link.textContent.length; });
+      const adjusted = score * (1 - Math.min(linkLength / textLength, 1));
+      if (adjusted > bestScore) {
+        best = el;
+        bestScore = adjusted;
+      }
+    });
+    return best || document.body || document.documentElement;
+  };
+
+  const htmlToMarkdown = (roots, readable) => {
+    const codeBlocks = [];
+    const collapse = (text) => text.replace(/\\s+/g, ' ');
+    const block = (text) => '\\n\\n' + text.trim() + '\\n\\n';
+    const childNodesOf = (node) => {
+      if (node.shadowRoot) {
+        return node.shadowRoot.childNodes;
+      }
+      if (node.tagName === 'SLOT') {
+        const assigned = node.assignedNodes({ flatten: true });
+        return assigned.length > 0 ? assigned : node.childNodes;
+      }
+      return node.childNodes;
+    };
+    const renderChildren = (node) => Array.from(childNodesOf(node)).map(child => render(child)).join('');
+    const inline = (node) => collapse(renderChildren(node)).trim();
+    const wrap = (node, marker) => {
+      const text = inline(node);
+      return text ? marker + text + marker : '';
+    };
+
+    const renderList = (list) => {
+      let number = Number(list.getAttribute('start') || 1);
+      const items = Array.from(list.children)
+        .filter(item => item.tagName === 'LI' && !isHidden(item))
+        .map(item => {
+          const marker = list.tagName === 'OL' ? (number++) + '. ' : '- ';
+          const text = renderChildren(item).replace(/[ \\t]*\\n[ \\t]*/g, '\\n').replace(/\\n{3,}/g, '\\n\\n').trim();
+          return marker + text.split('\\n')
+            .map((line, index) => index === 0 || !line ? line : INDENT.repeat(marker.length) + line)
+            .join('\\n');
+        });
+      return items.length > 0 ? block(items.join('\\n')) : '';
+    };
+
+    const renderTable = (table) => {
+      const rows = Array.from(table.rows)
+        .filter(row => !isHidden(row))
+        .map(row => Array.from(row.cells).map(cell => inline(cell).replace(/\\|/g, '\\\\|')));
+      if (rows.length === 0) {
+        return '';
+      }
+      const width = Math.max(...rows.map(row => row.length));
+      const line = (cells) => '| ' + Array.from({ length: width }, (_, index) => cells[index] || '').join(' | ') + ' |';
+      const caption = table.caption ? inline(table.caption) : '';
+      return (caption ? block(caption) : '') +
+        block([line(rows[0]), line(Array(width).fill('---')), ...rows.slice(1).map(line)].join('\\n'));
+    };
+
+    // The roots themselves are never dropped as boilerplate
+    const render = (node, isRoot = false) => {
+      if (node.nodeType === Node.TEXT_NODE) {
+        return collapse(node.textContent);
+      }
+      if (node.nodeType !== Node.ELEMENT_NODE) {
+        return '';
+      }
+      // SVG and MathML tag names keep their lowercase spelling
+      const tag = node.tagName.toUpperCase();
+      if (SKIPPED_TAGS.has(tag) || isHidden(node) || (readable && !isRoot && isBoilerplate(node))) {
+        return '';
+      }
+
+      switch (tag) {
+        case 'H1': case 'H2': case 'H3': case 'H4': case 'H5': case 'H6': {
+          const text = inline(node);
+          return text ? block('#'.repeat(Number(tag[1])) + ' ' + text) : '';
+        }
+        case 'BR':
+          return '\\n';
+        case 'HR':
+          return block('---');
+        case 'A': {
+          const text = inline(node);
+          const href = node.getAttribute('href');
+          if (!text) {
+            return '';
+          }
+          return href && !/^(#|javascript:)/i.test(href) ? '[' + text + '](' + node.href + ')' : text;
+        }
+        case 'IMG': {
+          // Decorative images (empty or missing alt) carry no content
+          const alt = (node.getAttribute('alt') || '').trim();
+          return alt ? '![' + alt + '](' + (node.currentSrc || node.src) + ')' : '';
+        }
+        case 'STRONG': case 'B':
+          return wrap(node, '**');
+        case 'EM': case 'I':
+          return wrap(node, '*');
+        case 'DEL': case 'S':
+          return wrap(node, '~~');
+        case 'CODE':
+          return '\\x60' + node.textContent + '\\x60';
+        case 'PRE': {
+          const code = node.querySelector('code');
+          const language = (/language-(\\S+)/.exec((code || node).className) || [])[1] || '';
+          codeBlocks.push(FENCE + language + '\\n' + node.textContent.replace(/\\n$/, '') + '\\n' + FENCE);
+          return block('\\u0002' + (codeBlocks.length - 1) + '\\u0002');
+        }
+        case 'BLOCKQUOTE': {
+          const text = renderChildren(node).replace(/[ \\t]*\\n[ \\t]*/g, '\\n').replace(/\\n{3,}/g, '\\n\\n').trim();
+          return text ? block(text.split('\\n').map(line => line ? '> ' + line : '>').join('\\n')) : '';
+        }
+        case 'UL': case 'OL':
+          return renderList(node);
+        case 'TABLE':
+          return renderTable(node);
+        default: {
+          const text = renderChildren(node);
+          if (!BLOCK_TAGS.has(tag)) {
+            return text;
+          }
+          return text.trim() ? block(text) : '';
+        }
+      }
+    };
+
+    return roots.map(root => render(root, true)).join('\\n\\n')
+      .replace(/[ \\t]*\\n[ \\t]*/g, '\\n')
+      .replace(/\\n{3,}/g, '\\n\\n')
+      .trim()
+      .replace(/\\u0001/g, ' ')
+      .replace(/\\u0002(\\d+)\\u0002/g, (_, index) => codeBlocks[Number(index)]);
+  };
+`;
+
+/**
+ * Build the expression that extracts HTML content from the page
+ * Other formats are converted in the page: Markdown, the visible text, or
+ * (readability) the Markdown of the main content without boilerplate
+ * @param options - HTML extraction options
+ * @returns Expression evaluating to the HTML, Markdown or text string
+ */
+export function buildHTMLExpression(options: HTMLCaptureOptions = {}): string {
+  if (options.format && options.format !== "html") {
+    return buildReadableExpression(options.format, options.selectors ?? []);
+  }
+
+  const serialize = options.includeShadowRoots
+    ? "cloneWithShadowRoots(node).outerHTML"
+    : "node.outerHTML";
+
+  // If specific selectors are requested, extract only those
+  if (options.selectors && options.selectors.length > 0) {
+    const selectorsArray = JSON.stringify(options.selectors);
+    return `
+      (() => {
+        ${QUERY_ALL_DEEP}
+        ${CLONE_WITH_SHADOW_ROOTS}
+        const selectors = ${selectorsArray};
+        const elements = [];
+        selectors.forEach(selector => {
+          try {
+            const nodes = queryAllDeep(selector);
+            nodes.forEach(node => elements.push(${serialize}));
+          } catch (e) {
+            console.warn('Invalid selector:', selector);
+          }
+        });
+        return elements.join('\\n');
+      })()
+    `;
+  }
+
+  if (!options.includeScripts || !options.includeStyles || options.includeShadowRoots) {
+    // Filter out scripts and/or styles if requested
+    return `
+      (() => {
+        ${CLONE_WITH_SHADOW_ROOTS}
+        const clone = ${
+          options.includeShadowRoots
+            ? "cloneWithShadowRoots(document.documentElement)"
+            : "document.documentElement.cloneNode(true)"
+        };
+        // Shadow roots are serialized as templates, whose content is filtered separately
+        const filter = (root) => {
+          ${
+            !options.includeScripts
+              ? `
+          const scripts = root.querySelectorAll('script');
+          scripts.forEach(script => script.remove());
+          `
+              : ""
+          }
+          ${
+            !options.includeStyles
+              ? `
+          const styles = root.querySelectorAll('style, link[rel="stylesheet"]');
+          styles.forEach(style => style.remove());
+          const elementsWithStyle = root.querySelectorAll('[style]');
+          elementsWithStyle.forEach(el => el.removeAttribute('style'));
+          `
+              : ""
+          }
+          root.querySelectorAll('template').forEach(template => filter(template.content));
+        };
+        filter(clone);
+        return '<!DOCTYPE html>\\n' + clone.outerHTML;
+      })()
+    `;
+  }
+
+  return "document.documentElement.outerHTML";
+}
+
+/**
+ * Build the expression for the non-HTML formats of buildHTMLExpression
+ * Selectors replace the document (or, for readability, the detected main
+ * content) as the roots to convert
+ */
+function buildReadableExpression(
+  format: "markdown" | "text" | "readability",
+  selectors: string[],
+): string {
+  return `
+    (() => {
+      ${QUERY_ALL_DEEP}
+      ${MARKDOWN_CONVERTER}
+      const format = ${JSON.stringify(format)};
+      const selectors = ${JSON.stringify(selectors)};
+      const roots = selectors.length > 0
+        ? selectors.flatMap(selector => {
+            try {
+              return queryAllDeep(selector);
+            } catch (e) {
+              console.warn('Invalid selector:', selector);
+              return [];
+            }
+          })
+        : [format === 'readability' ? findMainContent() : (document.body || document.documentElement)];
+
+      if (format === 'text') {
+        return roots.map(root => root.innerText || root.textContent || '').join('\\n\\n')
+          .replace(/[ \\t]+\\n/g, '\\n')
+          .replace(/\\n{3,}/g, '\\n\\n')
+          .trim();
+      }
+
+      const markdown = htmlToMarkdown(roots, format === 'readability');
+      // Readable output starts with the page title unless the content has its own
+      if (format === 'readability' && selectors.length === 0 && document.title && !/^# /m.test(markdown)) {
+        return '# ' + document.title.trim() + '\\n\\n' + markdown;
+      }
+      return markdown;
+    })()
+  `;
+}
+
+/**
+ * Build the expression that extracts CSS styles for the given selectors
+ * @param selectors - Already sanitized CSS selectors
+ * @param options - CSS extraction options
+ * @returns Expression evaluating to the CSS string
+ */
+export function buildCSSExpression(
+  selectors: string[],
+  options: CSSCaptureOptions,
+): string {
+  const selectorsArray = JSON.stringify(selectors);
+
+  return `
+    (() => {
+      ${QUERY_ALL_DEEP}
+      const selectors = ${selectorsArray};
+      const cssRules = [];
+
+      selectors.forEach(selector => {
+        try {
+          const elements = queryAllDeep(selector);
+          if (elements.length === 0) {
+            cssRules.push(\`/* No elements found for selector: \${selector} */\`);
+            return;
+          }
+
+          // Get computed styles for the first matching element
+          const element = elements[0];
+          const computedStyle = window.getComputedStyle(element);
+
+          const rules = [];
+          const importantProps = [];
+
+          // Extract all computed style properties
+          for (let i = 0; i < computedStyle.length; i++) {
+            const property = computedStyle[i];
+            const value = computedStyle.getPropertyValue(property);
+            const priority = computedStyle.getPropertyPriority(property);
+
+            if (value && value !== 'initial' && value !== 'inherit') {
+              ${
+                options.includeComputed
+                  ? `
+              rules.push(\`  \${property}: \${value}\${priority ? ' !' + priority : ''};\`);
+              `
+                  : `
+              // Only include non-default values for basic extraction
+              if (!['auto', 'normal', 'none', '0px', 'transparent', 'rgba(0, 0, 0, 0)'].includes(value)) {
+                rules.push(\`  \${property}: \${value}\${priority ? ' !' + priority : ''};\`);
+              }
+              `
+              }
+            }
+          }
+
+          ${
+            options.includeInherited
+              ? `
+          // Include inherited styles from parent elements
+          let parent = element.parentElement;
+          while (parent && parent !== document.body) {
+            const parentStyle = window.getComputedStyle(parent);
+            rules.push(\`  /* Inherited from parent \${parent.tagName.toLowerCase()} */\`);
+
+            ['color', 'font-family', 'font-size', 'line-height', 'text-align'].forEach(prop => {
+              const value = parentStyle.getPropertyValue(prop);
+              if (value && value !== 'initial') {
+                rules.push(\`  \${prop}: \${value}; /* inherited */\`);
+              }
+            });
+
+            parent = parent.parentElement;
+          }
+          `
+              : ""
+          }
+
+          if (rules.length > 0) {
+            cssRules.push(\`\${selector} {\n\${rules.join('\\n')}\n}\`);
+          } else {
+            cssRules.push(\`\${selector} {\n  /* No significant styles found */\n}\`);
+          }
+
+        } catch (e) {
+          cssRules.push(\`/* Error processing selector \${selector}: \${e.message} */\`);
+        }
+      });
+
+      return cssRules.join('\\n\\n');
+    })()
+  `;
+}
+
+/**
+ * Build the expression that extracts comprehensive element information
+ * @param selectors - Already sanitized CSS selectors
+ * @returns Expression evaluating to an array of element info objects
+ */
+export function buildElementExtractionExpression(selectors: string[]): string {
+  const selectorsArray = JSON.stringify(selectors);
+
+  return `
+    (() => {
+      ${QUERY_ALL_DEEP}
+      ${DESCRIBE_ELEMENT}
+      const selectors = ${selectorsArray};
+      const elementsInfo = [];
+
+      selectors.forEach(selector => {
+        try {
+          const elements = queryAllDeep(selector);
+
+          if (elements.length === 0) {
+            elementsInfo.push({
+              selector,
+              tagName: null,
+              textContent: null,
+              error: 'No elements found for selector'
+            });
+            return;
+          }
+
+          // Extract info for all matching elements (up to 10 for performance)
+          const maxElements = Math.min(elements.length, 10);
+
+          // :nth-child would read as a selector for another element across shadow roots and frames
+          const deep = selector.includes('>>>');
+          for (let i = 0; i < maxElements; i++) {
+            elementsInfo.push(describeElement(
+              elements[i],
+              elements.length === 1
+                ? selector
+                : deep ? \`\${selector} [match \${i + 1}]\` : \`\${selector}:nth-child(\${i + 1})\`
+            ));
+          }
+
+        } catch (e) {
+          elementsInfo.push({
+            selector,
+            tagName: null,
+            textContent: null,
+            error: \`Error processing selector: \${e.message}\`
+          });
+        }
+      });
+
+      return elementsInfo;
+    })()
+  `;
+}
+
+/**
+ * Build a function declaration that describes the element it is called on
+ * (CDP Runtime.callFunctionOn with the element as `this`), for elements
+ * resolved outside the page, e.g. through closed shadow roots
+ * @returns Function declaration taking the selector label to report
+ */
+export function buildDescribeElementFunction(): string {
+  return `
+    function (label) {
+      ${DESCRIBE_ELEMENT}
+      return describeElement(this, label);
+    }
+  `;
+}
+
+/**
+ * Build a function declaration that labels the ancestors of the element it is
+ * called on, e.g. "div#app.layout", in the flat-tree order CDP reports
+ * inherited styles in: slotted elements continue at their slot and shadow
+ * roots at their host
+ * @returns Function declaration returning the labels, the parent first
+ */
+export function buildAncestorLabelsFunction(): string {
+  return `
+    function () {
+      const labels = [];
+      let node = this;
+      while (node) {
+        const root = node.parentNode;
+        node = node.assignedSlot || node.parentElement || (root && root.host) || null;
+        if (node) {
+          const classes = Array.from(node.classList).map(name => '.' + name).join('');
+          labels.push(node.tagName.toLowerCase() + (node.id ? '#' + node.id : '') + classes);
+        }
+      }
+      return labels;
+    }
+  `;
+}
+
+/**
+ * Build the expression that draws numbered boxes over the visible interactive
+ * elements (links, buttons, form fields, ARIA widgets) and returns their legend
+ * The overlay is ignored by pointer events and removed with buildRemoveMarksExpression
+ * @param maxMarks - Most elements to mark
+ * @returns Expression evaluating to an array of element marks
+ */
+export function buildMarksExpression(maxMarks: number): string {
+  return `
+    (() => {
+      document.querySelectorAll('[data-lens-marks]').forEach(el => el.remove());
+
+      const INTERACTIVE = [
+        'a[href]', 'button', 'input:not([type="hidden"])', 'select', 'textarea', 'summary',
+        '[role="button"]', '[role="link"]', '[role="checkbox"]', '[role="radio"]',
+        '[role="switch"]', '[role="tab"]', '[role="menuitem"]', '[role="option"]',
+        '[role="combobox"]', '[role="textbox"]', '[role="searchbox"]', '[role="slider"]',
+        '[onclick]', '[tabindex]:not([tabindex="-1"])', '[contenteditable=""]', '[contenteditable="true"]'
+      ].join(',');
+      const COLORS = ['#e6194b', '#3cb44b', '#4363d8', '#f58231', '#911eb4', '#008080', '#9a6324', '#800000'];
+
+      const isUnique = selector => {
+        try {
+          return document.querySelectorAll(selector).length === 1;
+        } catch (e) {
+          return false;
+        }
+      };
+      const quote = value => '"' + value.replace(/["\\\\]/g, '\\\\$&') + '"';
+
+      const selectorFor = el => {
+        if (el.id && isUnique('#' + CSS.escape(el.id))) {
+          return '#' + CSS.escape(el.id);
+        }
+        const tag = el.tagName.toLowerCase();
+        for (const attr of ['data-testid', 'data-test', 'data-cy', 'name', 'aria-label']) {
+          const value = el.getAttribute(attr);
+          if (value && isUnique(tag + '[' + attr + '=' + quote(value) + ']')) {
+            return tag + '[' + attr + '=' + quote(value) + ']';
+          }
+        }
+        const parts = [];
+        let node = el;
+        while (node && node.nodeType === 1 && node !== document.documentElement) {
+          if (node !== el && node.id && isUnique('#' + CSS.escape(node.id))) {
+            parts.unshift('#' + CSS.escape(node.id));
+            break;
+          }
+          let part = node.tagName.toLowerCase();
+          const parent = node.parentElement;
+          if (parent) {
+            const siblings = Array.from(parent.children).filter(child => child.tagName === node.tagName);
+            if (siblings.length > 1) {
+              part += ':nth-of-type(' + (siblings.indexOf(node) + 1) + ')';
+            }
+          }
+          parts.unshift(part);
+          node = parent;
+        }
+        return parts.join(' > ');
+      };
+
+      const roleOf = el => {
+        const explicit = el.getAttribute('role');
+        if (explicit) {
+          return explicit.split(' ')[0];
+        }
+        const tag = el.tagName.toLowerCase();
+        if (tag === 'a') return 'link';
+        if (tag === 'button' || tag === 'summary') return 'button';
+        if (tag === 'select') return el.multiple ? 'listbox' : 'combobox';
+        if (tag === 'textarea' || el.isContentEditable) return 'textbox';
+        if (tag === 'input') {
+          const type = (el.getAttribute('type') || 'text').toLowerCase();
+          if (['button', 'submit', 'reset', 'image'].includes(type)) return 'button';
+          if (type === 'checkbox' || type === 'radio') return type;
+          if (type === 'range') return 'slider';
+          if (type === 'search') return 'searchbox';
+          return 'textbox';
+        }
+        return 'generic';
+      };
+
+      const clean = text => (text || '').replace(/\\s+/g, ' ').trim().slice(0, 80);
+      const nameOf = el => {
+        const labelledBy = el.getAttribute('aria-labelledby');
+        if (labelledBy) {
+          const text = labelledBy.split(/\\s+/)
+            .map(id => document.getElementById(id))
+            .filter(Boolean)
+            .map(label => label.textContent)
+            .join(' ');
+          if (clean(text)) return clean(text);
+        }
+        const candidates = [
+          el.getAttribute('aria-label'),
+          el.labels && el.labels[0] ? el.labels[0].textContent : null,
+          el.getAttribute('alt'),
+          el.tagName === 'INPUT' && ['button', 'submit', 'reset'].includes(el.type) ? el.value : null,
+          el.innerText,
+          el.getAttribute('title'),
+          el.getAttribute('placeholder'),
+          el.querySelector('img[alt]') ? el.querySelector('img[alt]').getAttribute('alt') : null
+        ];
+        for (const candidate of candidates) {
+          if (clean(candidate)) return clean(candidate);
+        }
+        return '';
+      };
+
+      const isVisible = (el, rect) => {
+        if (rect.width < 1 || rect.height < 1) return false;
+        if (rect.bottom <= 0 || rect.right <= 0 || rect.top >= innerHeight || rect.left >= innerWidth) return false;
+        const style = getComputedStyle(el);
+        if (style.visibility === 'hidden' || Number(style.opacity) === 0) return false;
+        // Skip elements covered by something else, e.g. behind a modal
+        const x = Math.min(Math.max(rect.left + rect.width / 2, 0), innerWidth - 1);
+        const y = Math.min(Math.max(rect.top + rect.height / 2, 0), innerHeight - 1);
+        const hit = document.elementFromPoint(x, y);
+        return !hit || el === hit || el.contains(hit) || hit.contains(el);
+      };
+
+      const marks = [];
+      for (const el of document.querySelectorAll(INTERACTIVE)) {
+        if (marks.length >= ${maxMarks}) break;
+        const rect = el.getBoundingClientRect();
+        if (!isVisible(el, rect)) continue;
+        marks.push({
+          el,
+          mark: marks.length + 1,
+          selector: selectorFor(el),
+          tagName: el.tagName.toLowerCase(),
+          role: roleOf(el),
+          name: nameOf(el),
+          boundingBox: {
+            x: Math.round(rect.left),
+            y: Math.round(rect.top),
+            width: Math.round(rect.width),
+            height: Math.round(rect.height)
+          }
+        });
+      }
+
+      const overlay = document.createElement('div');
+      overlay.setAttribute('data-lens-marks', '');
+      overlay.style.cssText = 'position:fixed;inset:0;z-index:2147483647;pointer-events:none;';
+      for (const { mark, boundingBox } of marks) {
+        const color = COLORS[(mark - 1) % COLORS.length];
+        const box = document.createElement('div');
+        box.style.cssText = 'position:fixed;box-sizing:border-box;border:2px solid ' + color + ';' +
+          'left:' + boundingBox.x + 'px;top:' + boundingBox.y + 'px;' +
+          'width:' + boundingBox.width + 'px;height:' + boundingBox.height + 'px;';
+        const label = document.createElement('span');
+        label.textContent = String(mark);
+        label.style.cssText = 'position:absolute;left:-2px;top:-2px;padding:0 3px;background:' + color + ';' +
+          'color:#fff;font:bold 11px/14px monospace;';
+        box.appendChild(label);
+        overlay.appendChild(box);
+      }
+      document.documentElement.appendChild(overlay);
+
+      return marks.map(({ el, ...mark }) => mark);
+    })()
+  `;
+}
+
+/**
+ * Build the expression that removes the overlay drawn by buildMarksExpression
+ * @returns Expression evaluating to the number of overlays removed
+ */
+export function buildRemoveMarksExpression(): string {
+  return `
+    (() => {
+      const overlays = document.querySelectorAll('[data-lens-marks]');
+      overlays.forEach(el => el.remove());
+      return overlays.length;
+    })()
+  `;
+}
+
+/**
+ * Build the expression that reports title, visibility, focus and favicon of the page
+ * @returns Expression evaluating to a page state object
+ */
+export function buildPageStateExpression(): string {
+  return `
+    (() => {
+      const icon = document.querySelector('link[rel~="icon"]');
+      return {
+        title: document.title,
+        visible: document.visibilityState === 'visible',
+        focused: document.hasFocus(),
+        favIconUrl: icon ? icon.href : null
+      };
+    })()
+  `;
+}
+
+/**
+ * Build the expression that scrolls an element into view and measures it
+ * @param selector - CSS selector of the element
+ * @returns Expression evaluating to the element box and document size in CSS
+ * pixels relative to the document, or null if no element matches
+ */
+export function buildElementRectExpression(selector: string): string {
+  return `
+    (() => {
+      ${QUERY_ALL_DEEP}
+      const el = queryAllDeep(${JSON.stringify(selector)})[0];
+      if (!el) {
+        return null;
+      }
+      el.scrollIntoView({ block: 'center', inline: 'center', behavior: 'instant' });
+      const rect = el.getBoundingClientRect();
+      // Elements inside same-origin iframes are measured in their frame; add the frame offsets
+      let left = rect.left;
+      let top = rect.top;
+      for (let view = el.ownerDocument.defaultView; view && view !== window && view.frameElement; view = view.parent) {
+        const frameRect = view.frameElement.getBoundingClientRect();
+        left += frameRect.left + view.frameElement.clientLeft;
+        top += frameRect.top + view.frameElement.clientTop;
+      }
+      return {
+        x: left + window.scrollX,
+        y: top + window.scrollY,
+        width: rect.width,
+        height: rect.height,
+        documentWidth: document.documentElement.scrollWidth,
+        documentHeight: document.documentElement.scrollHeight
+      };
+    })()
+  `;
+}
+
+/**
+ * Build the expression that reports how far the page is scrolled
+ * @returns Expression evaluating to the scroll offset in CSS pixels
+ */
+export function buildScrollOffsetExpression(): string {
+  return `({ x: window.scrollX, y: window.scrollY })`;
+}
+
+/**
+ * Build the expression that waits until the page has painted its latest changes
+ * Background tabs pause animation frames, so a short timer bounds the wait
+ * @returns Expression evaluating to a promise that resolves after the next paint
+ */
+export function buildSettleExpression(): string {
+  return `
+    new Promise(resolve => {
+      requestAnimationFrame(() => requestAnimationFrame(resolve));
+      setTimeout(resolve, 100);
+    })
+  `;
+}
+
+/**
+ * Build the expression that hides or restores fixed and sticky elements
+ * Used while a full page is captured in tiles so headers do not repeat in every tile
+ * @param hide - True to hide the elements, false to restore them
+ * @returns Expression evaluating to the number of elements changed
+ */
+export function buildFixedElementsExpression(hide: boolean): string {
+  if (!hide) {
+    return `
+      (() => {
+        const frozen = document.querySelectorAll('[data-lens-frozen]');
+        frozen.forEach(el => {
+          const [value, priority] = el.getAttribute('data-lens-frozen').split('|');
+          if (value) {
+            el.style.setProperty('visibility', value, priority);
+          } else {
+            el.style.removeProperty('visibility');
+          }
+          el.removeAttribute('data-lens-frozen');
+        });
+        return frozen.length;
+      })()
+    `;
+  }
+
+  return `
+    (() => {
+      let count = 0;
+      document.querySelectorAll('body *').forEach(el => {
+        const position = getComputedStyle(el).position;
+        if (position !== 'fixed' && position !== 'sticky') {
+          return;
+        }
+        el.setAttribute(
+          'data-lens-frozen',
+          el.style.getPropertyValue('visibility') + '|' + el.style.getPropertyPriority('visibility')
+        );
+        el.style.setProperty('visibility', 'hidden', 'important');
+        count++;
+      });
+      return count;
+    })()
+  `;
+}
+
+/**
+ * Build the expression that scrolls the page and reports the new position
+ * @param options - Scroll options including type and parameters
+ * @returns Expression evaluating to a promise of scroll position information
+ * @throws Error if the scroll type is unsupported or a selector is missing
+ */
+export function buildScrollExpression(options: ScrollOptions): string {
+  let scrollExpression = "";
+  const smooth = options.smooth !== false ? "smooth" : "auto";
+
+  switch (options.scrollType) {
+    case "pixels":
+      scrollExpression = `
+        window.scrollBy({
+          left: ${options.x ?? 0},
+          top: ${options.y ?? 0},
+          behavior: '${smooth}'
+        });
+      `;
+      break;
+
+    case "coordinates":
+      scrollExpression = `
+        window.scrollTo({
+          left: ${options.x ?? 0},
+          top: ${options.y ?? 0},
+          behavior: '${smooth}'
+        });
+      `;
+      break;
+
+    case "viewport": {
+      // Scroll by viewport height (page up/down)
+      const direction = (options.y ?? 0) < 0 ? -1 : 1;
+      scrollExpression = `
+        window.scrollBy({
+          left: 0,
+          top: ${direction} * window.innerHeight,
+          behavior: '${smooth}'
+        });
+      `;
+      break;
+    }
+
+    case "element":
+      if (!options.selector) {
+        throw new Error("Selector is required for element scroll type");
+      }
+      scrollExpression = `
+        ${QUERY_ALL_DEEP}
+        const element = queryAllDeep(${JSON.stringify(options.selector)})[0];
+        if (element) {
+          element.scrollIntoView({ behavior: '${smooth}', block: 'start' });
+        } else {
+          throw new Error('Element not found for selector: ' + ${JSON.stringify(options.selector)});
+        }
+      `;
+      break;
+
+    case "top":
+      scrollExpression = `
+        window.scrollTo({
+          left: 0,
+          top: 0,
+          behavior: '${smooth}'
+        });
+      `;
+      break;
+
+    case "bottom":
+      scrollExpression = `
+        window.scrollTo({
+          left: 0,
+          top: document.body.scrollHeight,
+          behavior: '${smooth}'
+        });
+      `;
+      break;
+
+    default:
+      throw new Error(`Unsupported scroll type: ${String(options.scrollType)}`);
+  }
+
+  // Execute scroll and get position information
+  return `
+    (() => {
+      try {
+        ${scrollExpression}
+
+        // Wait a bit for scroll to complete, then return position info
+        return new Promise(resolve => {
+          setTimeout(() => {
+            resolve({
+              scrollPosition: {
+                x: window.pageXOffset || document.documentElement.scrollLeft,
+                y: window.pageYOffset || document.documentElement.scrollTop
+              },
+              viewportSize: {
+                width: window.innerWidth,
+                height: window.innerHeight
+              },
+              pageSize: {
+                width: Math.max(document.body.scrollWidth, document.documentElement.scrollWidth),
+                height: Math.max(document.body.scrollHeight, document.documentElement.scrollHeight)
+              }
+            });
+          }, 100);
+        });
+      } catch (error) {
+        throw new Error('Scroll operation failed: ' + error.message);
+      }
+    })()
+  `;
+}
+
+/**
+ * Basic HTML formatting - just add line breaks after tags
+ * @param html - Raw HTML string
+ * @returns Formatted HTML string
+ */
+export function prettifyHTML(html: string): string {
+  return html.replace(/></g, ">\n<").replace(/^\s+|\s+$/gm, "");
+}
+
+/**
+ * Basic CSS formatting
+ * @param css - Raw CSS string
+ * @returns Formatted CSS string
+ */
+export function prettifyCSS(css: string): string {
+  return css
+    .replace(/\{\s+/g, " {\n  ")
+    .replace(/;\s+/g, ";\n  ")
+    .replace(/\s+\}/g, "\n}")
+    .replace(/\}\s+/g, "}\n\n");
+}
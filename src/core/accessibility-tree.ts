@@ -0,0 +1,240 @@
+/**
+ * Accessibility tree snapshots
+ * Turns the nodes reported by CDP Accessibility.getFullAXTree into a compact
+ * role/name/state tree, and defines the element references ("ref=e123") that
+ * tools accept in place of a CSS selector
+ */
+
+import {
+  type AccessibilityNode,
+  type AccessibilityOptions,
+} from "@/interfaces/types.js";
+
+/** Element reference as accepted by tools instead of a selector */
+const ELEMENT_REF_PATTERN = /^ref=e(\d+)$/;
+
+/** Nodes included unless maxNodes is given */
+const DEFAULT_MAX_NODES = 2000;
+
+/** Containers that only group other nodes and are left out unless they have a name */
+const STRUCTURAL_ROLES = new Set(["generic", "none", "presentation"]);
+
+/** Roles that never carry information of their own */
+const SKIPPED_ROLES = new Set(["InlineTextBox"]);
+
+/** CDP role names that read better under their ARIA-style name */
+const ROLE_NAMES: Record<string, string> = {
+  StaticText: "text",
+  RootWebArea: "document",
+  LineBreak: "br",
+};
+
+/** Properties reported as states, in output order */
+const STATE_PROPERTIES = [
+  "checked",
+  "pressed",
+  "selected",
+  "expanded",
+  "disabled",
+  "readonly",
+  "required",
+  "invalid",
+  "focused",
+  "modal",
+  "level",
+];
+
+/** Accessibility.AXValue, with the value types that occur for roles, names and states */
+interface RawAXValue {
+  value?: string | number | boolean;
+}
+
+/** Accessibility.AXNode as reported by CDP, with the fields used here */
+export interface RawAXNode {
+  nodeId: string;
+  ignored: boolean;
+  role?: RawAXValue;
+  name?: RawAXValue;
+  value?: RawAXValue;
+  properties?: { name: string; value: RawAXValue }[];
+  childIds?: string[];
+  parentId?: string;
+  backendDOMNodeId?: number;
+}
+
+export interface AccessibilityTree {
+  nodes: AccessibilityNode[];
+  nodeCount: number;
+  truncated: boolean;
+  /** Backend DOM node IDs of the nodes that carry a ref */
+  refNodeIds: number[];
+}
+
+/**
+ * Build the element reference of a DOM node
+ * @param backendNodeId - Backend DOM node ID, stable for the life of the node
+ * @returns Reference such as "e123"
+ */
+export function toElementRef(backendNodeId: number): string {
+  return `e${backendNodeId}`;
+}
+
+/**
+ * Read the backend DOM node ID from an element reference
+ * @param selector - Selector or reference such as "ref=e123"
+ * @returns The node ID, or null if the value is not a reference
+ */
+export function parseElementRef(selector: string): number | null {
+  const match = ELEMENT_REF_PATTERN.exec(selector.trim());
+  return match ? Number(match[1]) : null;
+}
+
+/**
+ * Build the compact tree from the flat node list of Accessibility.getFullAXTree
+ * @param axNodes - Nodes as reported by CDP, the document root first
+ * @param options - Filtering and size limits
+ * @param rootBackendNodeId - DOM node whose subtree is wanted; the whole document if omitted
+ * @returns The tree, its size and the DOM nodes that were given a ref
+ * @throws Error if no accessibility node belongs to rootBackendNodeId
+ */
+export function buildAccessibilityTree(
+  axNodes: RawAXNode[],
+  options: AccessibilityOptions = {},
+  rootBackendNodeId?: number,
+): AccessibilityTree {
+  const interestingOnly = options.interestingOnly ?? true;
+  const maxDepth = options.maxDepth ?? Infinity;
+  const maxNodes = options.maxNodes ?? DEFAULT_MAX_NODES;
+
+  const byId = new Map(axNodes.map((node) => [node.nodeId, node]));
+  const root =
+    rootBackendNodeId === undefined
+      ? axNodes.find((node) => !node.parentId || !byId.has(node.parentId))
+      : axNodes.find((node) => node.backendDOMNodeId === rootBackendNodeId);
+  if (!root) {
+    throw new Error(
+      rootBackendNodeId === undefined
+        ? "The page has no accessibility tree"
+        : "The selected element is not part of the accessibility tree",
+    );
+  }
+
+  let nodeCount = 0;
+  let truncated = false;
+  const refNodeIds: number[] = [];
+
+  // Returns the nodes to show in place of axNode: itself, or its children if it is left out
+  const convert = (
+    axNode: RawAXNode,
+    depth: number,
+    parentName: string,
+  ): AccessibilityNode[] => {
+    const role = String(axNode.role?.value ?? "");
+    const name = String(axNode.name?.value ?? "").trim();
+    // Text that only repeats the parent's name, e.g. the label of a link, adds nothing
+    if (SKIPPED_ROLES.has(role) || (role === "StaticText" && name === parentName)) {
+      return [];
+    }
+    const convertChildren = (childDepth: number, childParentName: string): AccessibilityNode[] =>
+      (axNode.childIds ?? []).flatMap((childId) => {
+        const child = byId.get(childId);
+        return child ? convert(child, childDepth, childParentName) : [];
+      });
+
+    if (
+      interestingOnly &&
+      (axNode.ignored || (STRUCTURAL_ROLES.has(role) && !name))
+    ) {
+      return convertChildren(depth, parentName);
+    }
+
+    if (nodeCount >= maxNodes) {
+      truncated = true;
+      return [];
+    }
+    nodeCount++;
+
+    const node: AccessibilityNode = {
+      role: ROLE_NAMES[role] ?? (role || "unknown"),
+      name,
+      states: readStates(axNode),
+      children: [],
+    };
+    const value = String(axNode.value?.value ?? "");
+    if (value && value !== name) {
+      node.value = value;
+    }
+    if (axNode.backendDOMNodeId !== undefined && role !== "StaticText") {
+      node.ref = toElementRef(axNode.backendDOMNodeId);
+      refNodeIds.push(axNode.backendDOMNodeId);
+    }
+
+    if (depth >= maxDepth) {
+      truncated ||= (axNode.childIds ?? []).length > 0;
+      return [node];
+    }
+    node.children = convertChildren(depth + 1, name);
+    return [node];
+  };
+
+  const nodes = convert(root, 0, "");
+  return { nodes, nodeCount, truncated, refNodeIds };
+}
+
+/**
+ * Format the tree as an indented outline, one node per line:
+ * - role "name" [state] [ref=e123]: value
+ * @param nodes - Top-level nodes
+ * @returns The outline
+ */
+export function formatAccessibilityTree(nodes: AccessibilityNode[]): string {
+  const lines: string[] = [];
+  const write = (node: AccessibilityNode, depth: number): void => {
+    let line = `${"  ".repeat(depth)}- ${node.role}`;
+    if (node.name) {
+      line += ` ${JSON.stringify(node.name)}`;
+    }
+    for (const state of node.states) {
+      line += ` [${state}]`;
+    }
+    if (node.ref) {
+      line += ` [ref=${node.ref}]`;
+    }
+    if (node.value) {
+      line += `: ${JSON.stringify(node.value)}`;
+    }
+    lines.push(line);
+    for (const child of node.children) {
+      write(child, depth + 1);
+    }
+  };
+  for (const node of nodes) {
+    write(node, 0);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Format the state properties of a node; false values are left out except
+ * for expanded, where collapsed is worth knowing
+ */
+function readStates(axNode: RawAXNode): string[] {
+  const states: string[] = [];
+  for (const name of STATE_PROPERTIES) {
+    const value = axNode.properties?.find((property) => property.name === name)
+      ?.value.value;
+    if (value === undefined || value === "") {
+      continue;
+    }
+    if (value === true || value === "true") {
+      states.push(name);
+    } else if (value === false || value === "false") {
+      if (name === "expanded") {
+        states.push("expanded=false");
+      }
+    } else {
+      states.push(`${name}=${String(value)}`);
+    }
+  }
+  return states;
+}
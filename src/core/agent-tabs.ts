@@ -0,0 +1,27 @@
+/**
+ * Agent tab ownership
+ * Tabs opened by the agent are recorded per browser debugging endpoint rather
+ * than per provider, so every provider attached to the same browser (e.g. one
+ * created for "auto" and one for "chrome", or one created after a
+ * reconfiguration) agrees on which tabs may be closed
+ */
+
+import { type DebugEndpoint, formatHostPort } from "@/utils/debug-endpoint.js";
+
+/** Agent-opened tab IDs per host:port of the debugging server */
+const agentTabsByEndpoint = new Map<string, Set<string>>();
+
+/**
+ * Get the agent-opened tabs of a browser
+ * @param endpoint - Debug endpoint of the browser
+ * @returns Set of tab IDs shared by every provider of that endpoint
+ */
+export function getAgentTabs(endpoint: DebugEndpoint): Set<string> {
+  const key = formatHostPort(endpoint);
+  let tabs = agentTabsByEndpoint.get(key);
+  if (!tabs) {
+    tabs = new Set();
+    agentTabsByEndpoint.set(key, tabs);
+  }
+  return tabs;
+}
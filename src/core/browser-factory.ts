@@ -9,8 +9,10 @@ import {
 } from "@/interfaces/browser-tools.js";
 import { type BrowserType } from "@/interfaces/types.js";
 import { ChromeProvider } from "@/browser-providers/chrome-provider.js";
+import { FirefoxProvider } from "@/browser-providers/firefox-provider.js";
 import { detectBestBrowser } from "@/core/capability-detector.js";
 import { factoryLog } from "@/utils/logger.js";
+import { CHROMIUM_BROWSER_TYPES } from "@/utils/chromium-browsers.js";
 
 /**
  * React-style hook for creating browser tools instances
@@ -29,12 +31,13 @@ export async function useBrowserTools(
   // Auto-detect best available browser if needed
   if (browserType === "auto") {
     factoryLog.debug("Auto-detecting best available browser...");
-    const detection = await detectBestBrowser();
+    const detection = await detectBestBrowser(config);
     if (!detection) {
       const errorMsg =
-        "Chrome not found with debugging enabled. Chrome will be auto-launched:\n" +
+        "No browser found with debugging enabled. Chrome will be auto-launched:\n" +
         "\nManual launch: chrome --remote-debugging-port=9222\n" +
-        'macOS manual: open -a "Google Chrome" --args --remote-debugging-port=9222';
+        'macOS manual: open -a "Google Chrome" --args --remote-debugging-port=9222\n' +
+        "Firefox: firefox --remote-debugging-port=9222";
       factoryLog.error(errorMsg);
       throw new Error(errorMsg);
     }
@@ -66,7 +69,7 @@ export async function useBrowserTools(
 
 /**
  * Factory function to create browser provider instances
- * Supports Chrome and Safari (on macOS)
+ * Supports Chromium-family browsers (DevTools Protocol) and Firefox (WebDriver BiDi)
  * @param browserType - The browser type to create a provider for
  * @param config - Configuration options
  * @returns BrowserTools instance for the specified browser
@@ -77,14 +80,22 @@ function createBrowserProvider(
 ): BrowserTools {
   switch (browserType) {
     case "chrome":
-      // Chrome provider using DevTools Protocol
-      return new ChromeProvider(config);
+    case "chromium":
+    case "edge":
+    case "brave":
+    case "vivaldi":
+      // Chrome provider using DevTools Protocol, shared by all Chromium-family browsers
+      return new ChromeProvider(config, browserType);
+
+    case "firefox":
+      // Firefox provider using WebDriver BiDi
+      return new FirefoxProvider(config);
 
     default:
       throw new Error(
         `Browser type "${browserType}" is not currently supported.\n` +
-          `Currently supported: Chrome with auto-launch and debugging\n` +
-          `Future browsers (Safari, Firefox, Arc) can be added as needed.`,
+          `Currently supported: Chrome with auto-launch and debugging, Chromium, Edge, Brave, Vivaldi, Firefox via WebDriver BiDi\n` +
+          `Future browsers (Safari, Arc) can be added as needed.`,
       );
   }
 }
@@ -95,9 +106,9 @@ function createBrowserProvider(
  * @returns Array of supported browser type strings
  */
 export function getSupportedBrowserTypes(): BrowserType[] {
-  // Currently Chrome-focused for best debugging experience
+  // Chromium family first for best debugging experience, Firefox via WebDriver BiDi
   // Future: Add conditional support for other browsers as needed
-  return ["chrome"];
+  return [...CHROMIUM_BROWSER_TYPES, "firefox"];
 }
 
 /**
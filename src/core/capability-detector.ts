@@ -1,29 +1,64 @@
 /**
  * Chrome capability detection and setup guidance
- * Detects Chrome with DevTools Protocol enabled and provides setup help
+ * Detects Chromium-family browsers with DevTools Protocol enabled,
+ * Firefox with WebDriver BiDi, and provides setup help
  */
 
-import { type BrowserType, type BrowserDetectionResult } from "@/interfaces/types.js";
+import {
+  type BrowserType,
+  type BrowserDetectionResult,
+  type ChromiumBrowserType,
+} from "@/interfaces/types.js";
 import {
   type CapabilityScore,
   type PlatformCapabilities,
 } from "@/interfaces/capabilities.js";
+import { BiDiClient, getBiDiStatus } from "@/utils/bidi-client.js";
+import { type BrowserToolsConfig } from "@/interfaces/browser-tools.js";
 import { browserLog } from "@/utils/logger.js";
+import {
+  formatHostPort,
+  getHttpUrl,
+  getWebSocketUrl,
+  resolveDebugEndpoint,
+} from "@/utils/debug-endpoint.js";
+import {
+  CHROMIUM_BROWSERS,
+  CHROMIUM_BROWSER_TYPES,
+  findChromiumExecutable,
+  getChromiumExecutableCandidates,
+  identifyChromiumBrowser,
+  isChromiumBrowserType,
+  parseChromiumVersion,
+} from "@/utils/chromium-browsers.js";
 
 /**
- * Detect Chrome with debugging enabled
- * Chrome-first approach with clear extension point for future browsers
- * @returns Promise resolving to Chrome detection result, or null if not available
+ * Detect the best browser with debugging enabled
+ * Chromium-first approach, falling back to Firefox over WebDriver BiDi
+ * @param config - Configuration with the debug endpoint to probe
+ * @returns Promise resolving to the best detection result, or null if none is available
  */
-export async function detectBestBrowser(): Promise<BrowserDetectionResult | null> {
-  browserLog.debug("Detecting Chrome with debugging enabled...");
+export async function detectBestBrowser(
+  config: BrowserToolsConfig = {},
+): Promise<BrowserDetectionResult | null> {
+  browserLog.debug("Detecting Chromium-family browser with debugging enabled...");
 
-  const chromeResult = await detectSingleBrowser("chrome");
-  if (chromeResult) {
+  const chromiumResult = await detectChromium(config);
+  if (chromiumResult) {
+    browserLog.success(
+      `${chromiumResult.name} detected: v${chromiumResult.version}`,
+    );
+    return chromiumResult;
+  }
+
+  browserLog.debug("Chrome not detected, checking Firefox WebDriver BiDi...");
+
+  const firefoxResult = await detectSingleBrowser("firefox", config);
+  if (firefoxResult) {
     browserLog.success(
-      `Chrome detected: ${chromeResult.name} v${chromeResult.version}`,
+      `Firefox detected: ${firefoxResult.name} v${firefoxResult.version}`,
     );
-    return chromeResult;
+    return firefoxResult;
   }
 
   browserLog.error("Chrome not detected - auto-launch will handle this");
@@ -31,33 +66,66 @@ export async function detectBestBrowser(): Promise<BrowserDetectionResult | null
 }
 
 /**
- * Detect Chrome availability for MCP operations
- * Chrome-focused with framework for future browser expansion
+ * Detect all browsers available for MCP operations
+ * Running browsers come first, followed by installed Chromium-family browsers
+ * that are not currently running with debugging enabled
+ * @param config - Configuration with the debug endpoint to probe
  * @returns Promise resolving to browser detection results in array format
  */
-export async function detectAllBrowsers(): Promise<BrowserDetectionResult[]> {
-  browserLog.debug("Checking for Chrome with debugging enabled...");
+export async function detectAllBrowsers(
+  config: BrowserToolsConfig = {},
+): Promise<BrowserDetectionResult[]> {
+  browserLog.debug("Checking for browsers with debugging enabled...");
 
   const results: BrowserDetectionResult[] = [];
 
   try {
-    // Check Chrome (primary supported browser)
-    const chromeResult = await detectSingleBrowser("chrome");
-    if (chromeResult) {
-      browserLog.success("Chrome detected and ready");
-      results.push(chromeResult);
+    // Check the DevTools endpoint and label it with the browser serving it
+    const chromiumResult = await detectChromium(config);
+    if (chromiumResult) {
+      browserLog.success(`${chromiumResult.name} detected and ready`);
+      results.push(chromiumResult);
     } else {
       browserLog.debug("Chrome not available - auto-launch will handle this");
     }
 
+    // Check Firefox (WebDriver BiDi)
+    const firefoxResult = await detectSingleBrowser("firefox", config);
+    if (firefoxResult) {
+      browserLog.success("Firefox detected and ready");
+      results.push(firefoxResult);
+    } else {
+      browserLog.debug("Firefox WebDriver BiDi not available");
+    }
+
+    // List installed Chromium-family browsers that could be launched
+    for (const browserType of CHROMIUM_BROWSER_TYPES) {
+      if (results.some((result) => result.type === browserType)) {
+        continue;
+      }
+
+      const executablePath = findChromiumExecutable(browserType);
+      if (executablePath) {
+        browserLog.debug(
+          `${CHROMIUM_BROWSERS[browserType].displayName} installed at ${executablePath}`,
+        );
+        results.push({
+          type: browserType,
+          name: CHROMIUM_BROWSERS[browserType].displayName,
+          executablePath,
+          isRunning: false,
+          debugPort: resolveDebugEndpoint(config, browserType).port,
+        });
+      }
+    }
+
     // Future: Add other browser detection here as needed
     // if (shouldCheckSafari) { ... }
-    // if (shouldCheckFirefox) { ... }
 
     return results;
   } catch (error) {
     browserLog.error(
-      `Failed to detect Chrome: ${error instanceof Error ? error.message : String(error)}`,
+      `Failed to detect browsers: ${error instanceof Error ? error.message : String(error)}`,
     );
     return results;
   }
@@ -65,18 +133,22 @@ export async function detectAllBrowsers(): Promise<BrowserDetectionResult[]> {
 
 /**
  * Detect browser availability and debugging status
- * Currently Chrome-focused with extension point for future browsers
- * @param browserType - Browser type to detect (currently only 'chrome')
+ * Chromium-family browsers and Firefox, with extension point for future browsers
+ * @param browserType - Browser type to detect
+ * @param config - Configuration with the debug endpoint to probe
  * @returns Promise resolving to browser detection result or null if not available
  */
 async function detectSingleBrowser(
   browserType: BrowserType,
+  config: BrowserToolsConfig = {},
 ): Promise<BrowserDetectionResult | null> {
-  if (browserType === "chrome") {
-    return await detectChrome();
+  if (isChromiumBrowserType(browserType)) {
+    return await detectChromium(config, browserType);
+  } else if (browserType === "firefox") {
+    return await detectFirefox(config);
   } else if (browserType === "auto") {
-    // Auto defaults to Chrome for best experience
-    return await detectChrome();
+    // Auto accepts whichever Chromium-family browser serves the debug port
+    return await detectChromium(config);
   } else {
     browserLog.debug(`${browserType} detection not implemented yet - Chrome recommended`);
     return null;
@@ -84,13 +156,22 @@ async function detectSingleBrowser(
 }
 
 /**
- * Detect Chrome with DevTools Protocol
+ * Detect a Chromium-family browser with DevTools Protocol
+ * The browser is identified from the Browser string of /json/version
+ * @param config - Configuration with the debug endpoint to probe
+ * @param browserType - Expected browser, or undefined to accept any Chromium-family browser
  */
-async function detectChrome(): Promise<BrowserDetectionResult | null> {
-  const debugPort = 9222; // Chrome DevTools Protocol standard port
-  const url = `http://localhost:${debugPort}/json/version`;
+async function detectChromium(
+  config: BrowserToolsConfig,
+  browserType?: ChromiumBrowserType,
+): Promise<BrowserDetectionResult | null> {
+  const endpoint = resolveDebugEndpoint(config, browserType ?? "chrome");
+  const debugPort = endpoint.port;
+  const url = getHttpUrl(endpoint, "/json/version");
 
-  browserLog.debug(`Testing Chrome DevTools Protocol on port ${debugPort}...`);
+  browserLog.debug(
+    `Testing Chrome DevTools Protocol at ${formatHostPort(endpoint)}...`,
+  );
 
   try {
     browserLog.debug(`Fetching: ${url}`);
@@ -98,22 +179,30 @@ async function detectChrome(): Promise<BrowserDetectionResult | null> {
       signal: AbortSignal.timeout(2000), // 2 second timeout
     });
 
-    browserLog.debug(`Chrome response status: ${response.status}`);
+    browserLog.debug(`DevTools response status: ${response.status}`);
 
     if (response.ok) {
-      const versionInfo = (await response.json()) as Record<string, any>;
-      browserLog.debug("Chrome version info:", versionInfo);
-
-      const result = {
-        type: "chrome" as BrowserType,
-        name: "Google Chrome",
-        version: versionInfo?.Browser?.split("/")?.[1] ?? "Unknown",
-        executablePath: undefined,
+      const versionInfo = (await response.json()) as Record<string, string>;
+      browserLog.debug("DevTools version info:", versionInfo);
+
+      const identified = identifyChromiumBrowser(versionInfo, browserType);
+      if (browserType && identified !== browserType) {
+        browserLog.debug(
+          `${formatHostPort(endpoint)} is served by ${CHROMIUM_BROWSERS[identified].displayName}, not ${CHROMIUM_BROWSERS[browserType].displayName}`,
+        );
+        return null;
+      }
+
+      const result: BrowserDetectionResult = {
+        type: identified,
+        name: CHROMIUM_BROWSERS[identified].displayName,
+        version: parseChromiumVersion(versionInfo.Browser),
+        executablePath: findChromiumExecutable(identified) ?? undefined,
         isRunning: true,
         debugPort: debugPort,
       };
 
-      browserLog.success("Chrome detected successfully:", result);
+      browserLog.success(`${result.name} detected successfully:`, result);
       return result;
     } else {
       browserLog.debug(
@@ -129,6 +218,57 @@ async function detectChrome(): Promise<BrowserDetectionResult | null> {
   return null;
 }
 
+/**
+ * Detect Firefox with the WebDriver BiDi Remote Agent
+ * @param config - Configuration with the debug endpoint to probe
+ */
+async function detectFirefox(
+  config: BrowserToolsConfig,
+): Promise<BrowserDetectionResult | null> {
+  const endpoint = resolveDebugEndpoint(config, "firefox");
+  const debugPort = endpoint.port;
+  const url =
+    endpoint.webSocketDebuggerUrl ?? getWebSocketUrl(endpoint, "/session");
+
+  browserLog.debug(`Testing Firefox WebDriver BiDi at ${url}...`);
+
+  const status = await getBiDiStatus(url, 2000);
+  if (!status) {
+    browserLog.debug("Firefox WebDriver BiDi not available");
+    return null;
+  }
+
+  const result: BrowserDetectionResult = {
+    type: "firefox",
+    name: "Mozilla Firefox",
+    version: "Unknown",
+    executablePath: undefined,
+    isRunning: true,
+    debugPort,
+  };
+
+  // Version is only reported by session.new, so open a throwaway session when possible
+  if (status.ready) {
+    const client = new BiDiClient(url, 2000);
+    try {
+      await client.connect();
+      const session = await client.send("session.new", { capabilities: {} });
+      result.version = session.capabilities?.browserVersion ?? "Unknown";
+      await client.send("session.end");
+    } catch (error) {
+      browserLog.debug(
+        `Firefox version lookup failed: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    } finally {
+      await client.close();
+    }
+  } else {
+    browserLog.debug(`Firefox BiDi session already in use: ${status.message}`);
+  }
+
+  browserLog.success("Firefox detected successfully:", result);
+  return result;
+}
 
 /**
  * Generate Chrome capability score for current setup
@@ -232,13 +372,26 @@ Or add --remote-debugging-port=9222 to your Chrome startup script.`;
 
 /**
  * Get platform capabilities for the current system
- * Chrome-focused with clear extension points for future browsers
+ * Chromium-family browsers and Firefox, with clear extension points for future browsers
  * @returns Platform capabilities object with browser support info
  */
 export function getPlatformCapabilities(): PlatformCapabilities {
   const platform = process.platform;
 
-  const baseChromeConfig = {
+  // Chromium-family configs come from the shared browser registry
+  const chromiumConfigs = Object.fromEntries(
+    CHROMIUM_BROWSER_TYPES.map((browserType) => [
+      browserType,
+      {
+        defaultPort: 9222,
+        debugLaunchArgs: ["--remote-debugging-port=9222"],
+        installPaths: getChromiumExecutableCandidates(browserType),
+        processNames: CHROMIUM_BROWSERS[browserType].processNames,
+      },
+    ]),
+  ) as Pick<PlatformCapabilities["browserConfigs"], ChromiumBrowserType>;
+
+  const baseFirefoxConfig = {
     defaultPort: 9222,
     debugLaunchArgs: ["--remote-debugging-port=9222"],
   };
@@ -247,42 +400,43 @@ export function getPlatformCapabilities(): PlatformCapabilities {
     case "darwin": // macOS
       return {
         platform: "macos",
-        supportedBrowsers: ["chrome"], // Safari can be added later if needed
+        supportedBrowsers: [...CHROMIUM_BROWSER_TYPES, "firefox"], // Safari can be added later if needed
         features: {
           hasAppleScript: true,
           hasNativeScreenCapture: true,
         },
         browserConfigs: {
-          chrome: {
-            ...baseChromeConfig,
+          ...chromiumConfigs,
+          firefox: {
+            ...baseFirefoxConfig,
             installPaths: [
-              "/Applications/Google Chrome.app/Contents/MacOS/Google Chrome",
-              "/usr/local/bin/google-chrome",
-              "/opt/homebrew/bin/google-chrome",
+              "/Applications/Firefox.app/Contents/MacOS/firefox",
+              "/Applications/Firefox Developer Edition.app/Contents/MacOS/firefox",
+              "/opt/homebrew/bin/firefox",
             ],
-            processNames: ["Google Chrome", "chrome"],
+            processNames: ["firefox", "Firefox"],
           },
           // Extension point: Future browsers can be added here
           // safari: { defaultPort: 9230, ... },
-          // firefox: { defaultPort: 6000, ... },
         },
       };
 
     case "win32": // Windows
       return {
         platform: "windows",
-        supportedBrowsers: ["chrome"],
+        supportedBrowsers: [...CHROMIUM_BROWSER_TYPES, "firefox"],
         features: {
           hasNativeScreenCapture: false,
         },
         browserConfigs: {
-          chrome: {
-            ...baseChromeConfig,
+          ...chromiumConfigs,
+          firefox: {
+            ...baseFirefoxConfig,
             installPaths: [
-              "C:\\Program Files\\Google\\Chrome\\Application\\chrome.exe",
-              "C:\\Program Files (x86)\\Google\\Chrome\\Application\\chrome.exe",
+              "C:\\Program Files\\Mozilla Firefox\\firefox.exe",
+              "C:\\Program Files (x86)\\Mozilla Firefox\\firefox.exe",
             ],
-            processNames: ["chrome.exe", "Google Chrome"],
+            processNames: ["firefox.exe"],
           },
           // Extension point: Future browsers can be added here
         },
@@ -291,19 +445,16 @@ export function getPlatformCapabilities(): PlatformCapabilities {
     default: // Linux and others
       return {
         platform: "linux",
-        supportedBrowsers: ["chrome"],
+        supportedBrowsers: [...CHROMIUM_BROWSER_TYPES, "firefox"],
         features: {
           hasNativeScreenCapture: false,
         },
         browserConfigs: {
-          chrome: {
-            ...baseChromeConfig,
-            installPaths: [
-              "/usr/bin/google-chrome",
-              "/usr/bin/google-chrome-stable",
-              "/usr/bin/chromium-browser",
-            ],
-            processNames: ["chrome", "google-chrome", "chromium-browser"],
+          ...chromiumConfigs,
+          firefox: {
+            ...baseFirefoxConfig,
+            installPaths: ["/usr/bin/firefox", "/usr/lib/firefox/firefox"],
+            processNames: ["firefox", "firefox-bin"],
           },
           // Extension point: Future browsers can be added here
         },
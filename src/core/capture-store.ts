@@ -0,0 +1,349 @@
+/**
+ * Capture store
+ * Keeps large capture results on the server under a capture id so tools can
+ * return them one chunk at a time. Offsets are UTF-8 byte offsets; chunk
+ * boundaries follow a token estimate and prefer line, tag and word breaks
+ *
+ * Cursor syntax: <captureId>:<offset>-<end>, e.g. "c1a2b3c4:40960-812345"
+ */
+
+import { randomBytes } from "node:crypto";
+import {
+  outlineHtml,
+  summarizeOutline,
+  type HtmlOutlineNode,
+  type OutlineEntry,
+} from "@/utils/html-outline.js";
+
+export type CaptureKind =
+  | "html"
+  | "markdown"
+  | "text"
+  | "readability"
+  | "css"
+  | "accessibility";
+
+export interface CaptureSource {
+  tabId: string;
+  kind: CaptureKind;
+}
+
+/** Where a chunked capture continues, as returned with its first chunk */
+export interface ChunkSummary {
+  captureId: string;
+  /** Cursor of the next chunk */
+  cursor: string;
+  totalBytes: number;
+  estimatedTokens: number;
+  /** Largest subtrees of an HTML capture, readable on their own by path */
+  outline?: OutlineEntry[];
+}
+
+export interface CaptureChunk {
+  captureId: string;
+  tabId: string;
+  kind: CaptureKind;
+  content: string;
+  /** Byte offset of the chunk */
+  offset: number;
+  /** Byte offset where the requested range ends */
+  end: number;
+  /** Byte offset of the next chunk, or null after the last one */
+  nextOffset: number | null;
+  /** Cursor of the next chunk, or null after the last one */
+  cursor: string | null;
+  totalBytes: number;
+}
+
+export interface ChunkRequest {
+  /** Cursor returned with a previous chunk */
+  cursor?: string;
+  captureId?: string;
+  /** Byte offset to read from */
+  offset?: number;
+  /** Path of an HTML subtree from the capture outline */
+  path?: string;
+  /** Token budget of the chunk */
+  maxTokens?: number;
+}
+
+interface StoredCapture extends CaptureSource {
+  id: string;
+  data: Buffer;
+  /** Built on the first subtree read */
+  outline?: Map<string, HtmlOutlineNode>;
+}
+
+/** Token budget of a chunk unless the tool is given one */
+export const DEFAULT_CHUNK_TOKENS = 8000;
+
+/** Smallest useful chunk; smaller budgets send content by cursor only */
+export const MIN_CHUNK_TOKENS = 500;
+
+/** Captures kept before the oldest are dropped */
+const MAX_STORED_CAPTURES = 20;
+
+/** Total size kept before the oldest captures are dropped */
+const MAX_STORED_BYTES = 100 * 1024 * 1024;
+
+/** Upper bound on the bytes read for one token, limiting the text scanned per chunk */
+const MAX_BYTES_PER_TOKEN = 8;
+
+/** How far back from the token limit a chunk may end to land on a nicer break */
+const BREAK_SEARCH_RATIO = 0.2;
+
+/**
+ * Rough tokenizer units: words, numbers, whitespace runs and single other
+ * characters. Costs approximate common BPE vocabularies
+ */
+const TOKEN_PATTERN = /[A-Za-z]+|\d+|\s+|[^A-Za-z\d\s]/gu;
+
+const CURSOR_PATTERN = /^([\w-]+):(\d+)-(\d+)$/;
+
+export class CaptureStore {
+  private readonly captures = new Map<string, StoredCapture>();
+  private storedBytes = 0;
+
+  /**
+   * @param maxCaptures - Captures kept before the oldest are dropped
+   * @param maxBytes - Total size kept before the oldest are dropped
+   */
+  constructor(
+    private readonly maxCaptures: number = MAX_STORED_CAPTURES,
+    private readonly maxBytes: number = MAX_STORED_BYTES,
+  ) {}
+
+  /**
+   * Return content that fits in one chunk as is; store larger content and
+   * return its first chunk with the cursor of the rest
+   * @param content - Capture result
+   * @param source - Tab and kind of capture
+   * @param maxTokens - Token budget of the first chunk; below MIN_CHUNK_TOKENS
+   *   the content is stored and only its cursor is returned
+   * @returns The content to send and, if it was split, where it continues
+   */
+  paginate(
+    content: string,
+    source: CaptureSource,
+    maxTokens: number = DEFAULT_CHUNK_TOKENS,
+  ): { content: string; chunk: ChunkSummary | null } {
+    const estimatedTokens = estimateTokens(content);
+    if (estimatedTokens <= maxTokens) {
+      return { content, chunk: null };
+    }
+
+    const capture = this.save(content, source);
+    const first =
+      maxTokens >= MIN_CHUNK_TOKENS
+        ? this.readRange(capture, 0, capture.data.length, maxTokens)
+        : null;
+    if (first && !first.cursor) {
+      return { content: first.content, chunk: null };
+    }
+    const chunk: ChunkSummary = {
+      captureId: capture.id,
+      cursor: first?.cursor ?? formatCursor(capture.id, 0, capture.data.length),
+      totalBytes: capture.data.length,
+      estimatedTokens,
+    };
+    if (capture.kind === "html") {
+      // Bytes that make up one chunk on average in this document
+      const chunkTokens = Math.max(maxTokens, DEFAULT_CHUNK_TOKENS);
+      const chunkBytes = (capture.data.length / estimatedTokens) * chunkTokens;
+      chunk.outline = summarizeOutline(outlineHtml(content), chunkBytes);
+    }
+    return { content: first?.content ?? "", chunk };
+  }
+
+  /**
+   * Read a chunk of a stored capture
+   * @param request - A cursor, or a capture id with an offset and/or an HTML subtree path
+   * @returns The chunk and the cursor of the next one
+   * @throws Error if the capture or path is unknown, or the cursor is malformed
+   */
+  read(request: ChunkRequest): CaptureChunk {
+    const maxTokens = request.maxTokens ?? DEFAULT_CHUNK_TOKENS;
+
+    if (request.cursor !== undefined) {
+      const match = CURSOR_PATTERN.exec(request.cursor.trim());
+      if (!match?.[1]) {
+        throw new Error(`Malformed cursor "${request.cursor}", expected <captureId>:<offset>-<end>`);
+      }
+      const capture = this.get(match[1]);
+      const end = Math.min(Number(match[3]), capture.data.length);
+      return this.readRange(capture, Number(match[2]), end, maxTokens);
+    }
+
+    if (request.captureId === undefined) {
+      throw new Error("Either a cursor or a captureId is required");
+    }
+    const capture = this.get(request.captureId);
+    let start = 0;
+    let end = capture.data.length;
+    if (request.path !== undefined) {
+      const node = this.findSubtree(capture, request.path);
+      start = node.start;
+      end = node.end;
+    }
+    const offset = request.offset === undefined ? start : Math.max(start, request.offset);
+    return this.readRange(capture, offset, end, maxTokens);
+  }
+
+  private save(content: string, source: CaptureSource): StoredCapture {
+    const capture: StoredCapture = {
+      id: `c${randomBytes(4).toString("hex")}`,
+      tabId: source.tabId,
+      kind: source.kind,
+      data: Buffer.from(content, "utf8"),
+    };
+    this.captures.set(capture.id, capture);
+    this.storedBytes += capture.data.length;
+
+    // Maps iterate in insertion order, so the first entry is the oldest
+    for (const [id, stored] of this.captures) {
+      if (
+        id === capture.id ||
+        (this.captures.size <= this.maxCaptures && this.storedBytes <= this.maxBytes)
+      ) {
+        break;
+      }
+      this.captures.delete(id);
+      this.storedBytes -= stored.data.length;
+    }
+    return capture;
+  }
+
+  private get(captureId: string): StoredCapture {
+    const capture = this.captures.get(captureId);
+    if (!capture) {
+      throw new Error(
+        `Unknown capture "${captureId}"; it may have been dropped to make room for newer captures. Capture the page again`,
+      );
+    }
+    return capture;
+  }
+
+  private findSubtree(capture: StoredCapture, path: string): HtmlOutlineNode {
+    if (capture.kind !== "html") {
+      throw new Error(`Capture ${capture.id} is ${capture.kind}; subtree paths only apply to HTML captures`);
+    }
+    capture.outline ??= new Map(
+      outlineHtml(capture.data.toString("utf8")).map((node) => [node.path, node]),
+    );
+    const normalized = path.trim().replace(/\s*>\s*/g, " > ");
+    const node = capture.outline.get(normalized);
+    if (!node) {
+      throw new Error(`No element at path "${path}" in capture ${capture.id}; use a path from the capture outline`);
+    }
+    return node;
+  }
+
+  /**
+   * Read up to maxTokens from offset, stopping at end
+   */
+  private readRange(
+    capture: StoredCapture,
+    offset: number,
+    end: number,
+    maxTokens: number,
+  ): CaptureChunk {
+    const data = capture.data;
+    // Never start or stop inside a multi-byte character
+    let start = Math.min(Math.max(offset, 0), end);
+    while (start < end && isContinuationByte(data[start])) {
+      start++;
+    }
+    let windowEnd = Math.min(end, start + maxTokens * MAX_BYTES_PER_TOKEN);
+    while (windowEnd > start && windowEnd < data.length && isContinuationByte(data[windowEnd])) {
+      windowEnd--;
+    }
+
+    const window = data.toString("utf8", start, windowEnd);
+    let cut = findTokenLimit(window, maxTokens);
+    if (cut < window.length || windowEnd < end) {
+      cut = findBreak(window, cut);
+    }
+    const content = window.slice(0, cut);
+    const next = start + Buffer.byteLength(content, "utf8");
+    const done = next >= end;
+
+    return {
+      captureId: capture.id,
+      tabId: capture.tabId,
+      kind: capture.kind,
+      content,
+      offset: start,
+      end,
+      nextOffset: done ? null : next,
+      cursor: done ? null : formatCursor(capture.id, next, end),
+      totalBytes: data.length,
+    };
+  }
+}
+
+/**
+ * Estimate the number of tokens a language model reads for a text
+ * @param text - Text to measure
+ * @returns Estimated token count
+ */
+export function estimateTokens(text: string): number {
+  let tokens = 0;
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    tokens += tokenCost(match[0]);
+  }
+  return tokens;
+}
+
+function tokenCost(unit: string): number {
+  if (/^\s/.test(unit)) {
+    // Indentation runs tokenize in groups
+    return Math.ceil(unit.length / 8);
+  }
+  if (/^\d/.test(unit)) {
+    return Math.ceil(unit.length / 3);
+  }
+  if (/^[A-Za-z]/.test(unit)) {
+    return Math.ceil(unit.length / 4);
+  }
+  return 1;
+}
+
+/**
+ * Index at which the text exceeds the token budget, or its length if it never does
+ */
+function findTokenLimit(text: string, maxTokens: number): number {
+  let tokens = 0;
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    tokens += tokenCost(match[0]);
+    if (tokens > maxTokens) {
+      // A single oversized unit is split rather than never read
+      return match.index > 0 ? match.index : Math.min(text.length, maxTokens * 4);
+    }
+  }
+  return text.length;
+}
+
+/**
+ * Move a chunk end back to just after a line break, the end of a tag or a
+ * space, whichever comes first, if one is close enough
+ */
+function findBreak(text: string, limit: number): number {
+  const earliest = Math.floor(limit * (1 - BREAK_SEARCH_RATIO));
+  for (const separator of ["\n", ">", " "]) {
+    const index = text.lastIndexOf(separator, limit - 1);
+    if (index >= 0 && index >= earliest) {
+      return index + 1;
+    }
+  }
+  // Never end between the halves of a surrogate pair
+  const code = text.charCodeAt(limit - 1);
+  return code >= 0xd800 && code <= 0xdbff ? limit - 1 : limit;
+}
+
+function isContinuationByte(byte: number | undefined): boolean {
+  return byte !== undefined && (byte & 0xc0) === 0x80;
+}
+
+function formatCursor(captureId: string, offset: number, end: number): string {
+  return `${captureId}:${offset}-${end}`;
+}
@@ -0,0 +1,378 @@
+/**
+ * CSS cascade
+ * Turns the result of CDP CSS.getMatchedStylesForNode into the rules that
+ * apply to an element in cascade order, with their stylesheet source and
+ * specificity, marks the declarations that lose the cascade, and formats the
+ * result as annotated CSS
+ */
+
+/** CSS.SourceRange, zero-based and relative to the stylesheet text */
+interface RawSourceRange {
+  startLine: number;
+  startColumn: number;
+}
+
+/** CSS.CSSProperty, with the fields used here */
+interface RawCSSProperty {
+  name: string;
+  value: string;
+  important?: boolean;
+  parsedOk?: boolean;
+  disabled?: boolean;
+  range?: RawSourceRange;
+  longhandProperties?: { name: string }[];
+}
+
+interface RawCSSStyle {
+  cssProperties: RawCSSProperty[];
+  range?: RawSourceRange;
+}
+
+/** CSS.CSSRule, with the fields used here */
+interface RawCSSRule {
+  styleSheetId?: string;
+  selectorList: {
+    selectors: {
+      text: string;
+      range?: RawSourceRange;
+      specificity?: { a: number; b: number; c: number };
+    }[];
+    text: string;
+  };
+  origin: string;
+  style: RawCSSStyle;
+  media?: { text: string }[];
+  layers?: { text: string }[];
+}
+
+interface RawRuleMatch {
+  rule: RawCSSRule;
+  matchingSelectors: number[];
+}
+
+/** Result of CSS.getMatchedStylesForNode */
+export interface RawMatchedStyles {
+  inlineStyle?: RawCSSStyle;
+  attributesStyle?: RawCSSStyle;
+  /** Rules matching the node, lowest precedence first */
+  matchedCSSRules?: RawRuleMatch[];
+  pseudoElements?: {
+    pseudoType: string;
+    pseudoIdentifier?: string;
+    matches: RawRuleMatch[];
+  }[];
+  /** One entry per ancestor, the parent first */
+  inherited?: {
+    inlineStyle?: RawCSSStyle;
+    matchedCSSRules: RawRuleMatch[];
+  }[];
+}
+
+/** CSS.CSSStyleSheetHeader, as reported by CSS.styleSheetAdded */
+export interface RawStyleSheetHeader {
+  styleSheetId: string;
+  sourceURL: string;
+  sourceMapURL?: string;
+  startLine: number;
+  startColumn: number;
+  isInline?: boolean;
+  isConstructed?: boolean;
+}
+
+export interface CSSDeclaration {
+  name: string;
+  value: string;
+  important: boolean;
+  /** Whether another declaration wins the cascade for this property, or the value is invalid */
+  overridden: boolean;
+}
+
+export interface MatchedRule {
+  /** Selector list of the rule, "element.style" for the style attribute */
+  selector: string;
+  /** author, user-agent, injected (extensions), inspector, inline or attributes (presentational HTML) */
+  origin: string;
+  /** Specificity (a, b, c) of the most specific matching selector */
+  specificity?: [number, number, number];
+  /** Stylesheet URL with one-based line and column, e.g. "https://example.com/app.css:12:3" */
+  source?: string;
+  /** Source map of the stylesheet, for rules built from Sass, Less or similar */
+  sourceMapURL?: string;
+  /** Enclosing @media conditions, outermost first */
+  media: string[];
+  /** Enclosing @layer names, outermost first */
+  layers: string[];
+  declarations: CSSDeclaration[];
+}
+
+export interface ElementCascade {
+  /** Selector as requested */
+  selector: string;
+  /** Rules of the element, highest precedence first */
+  rules: MatchedRule[];
+  /** Rules of ancestors that set inherited properties, the parent first */
+  inherited: { from: string; rules: MatchedRule[] }[];
+  /** Rules of the element's pseudo-elements such as ::before and ::marker */
+  pseudoElements: { pseudo: string; rules: MatchedRule[] }[];
+}
+
+/** Properties that inherit by default; custom properties inherit as well */
+const INHERITED_PROPERTIES = new Set([
+  "border-collapse", "border-spacing", "caption-side", "color", "color-scheme",
+  "cursor", "direction", "empty-cells", "font", "font-family", "font-feature-settings",
+  "font-kerning", "font-size", "font-size-adjust", "font-stretch", "font-style",
+  "font-variant", "font-variant-caps", "font-variant-ligatures", "font-variant-numeric",
+  "font-variation-settings", "font-weight", "hyphens", "letter-spacing", "line-height",
+  "list-style", "list-style-image", "list-style-position", "list-style-type", "orphans",
+  "overflow-wrap", "pointer-events", "quotes", "tab-size", "text-align", "text-align-last",
+  "text-indent", "text-rendering", "text-shadow", "text-transform", "text-underline-position",
+  "visibility", "white-space", "widows", "word-break", "word-spacing", "word-wrap",
+  "writing-mode", "-webkit-font-smoothing", "-webkit-text-fill-color",
+]);
+
+/** CDP origins under the names used in CSS */
+const ORIGIN_NAMES: Record<string, string> = {
+  regular: "author",
+};
+
+/**
+ * Build the cascade of one element
+ * @param selector - Selector the element was found with
+ * @param matched - Result of CSS.getMatchedStylesForNode for the element
+ * @param styleSheets - Stylesheet headers by ID, from CSS.styleSheetAdded
+ * @param ancestors - Labels of the element's ancestors in flat-tree order, the parent first
+ * @returns The rules of the element, its ancestors and pseudo-elements
+ */
+export function buildElementCascade(
+  selector: string,
+  matched: RawMatchedStyles,
+  styleSheets: Map<string, RawStyleSheetHeader>,
+  ancestors: string[],
+): ElementCascade {
+  // Longhands set by each declaration, which decide the cascade of shorthands
+  const longhands = new Map<CSSDeclaration, string[]>();
+  const convert = (style: RawCSSStyle | undefined, match: RawRuleMatch | null, origin: string) =>
+    style ? toMatchedRule(style, match, origin, styleSheets, longhands) : null;
+
+  const rules = compact([
+    convert(matched.inlineStyle, null, "inline"),
+    ...(matched.matchedCSSRules ?? [])
+      .map((match) => convert(match.rule.style, match, match.rule.origin))
+      .reverse(),
+    convert(matched.attributesStyle, null, "attributes"),
+  ]);
+  // Properties the element or a closer ancestor already sets
+  const claimed = new Set<string>();
+  markOverridden(rules, longhands, claimed);
+
+  const inherited: ElementCascade["inherited"] = [];
+  (matched.inherited ?? []).forEach((entry, index) => {
+    const ancestorRules = compact([
+      convert(entry.inlineStyle, null, "inline"),
+      ...entry.matchedCSSRules
+        .map((match) => convert(match.rule.style, match, match.rule.origin))
+        .reverse(),
+    ])
+      .map((rule) => ({
+        ...rule,
+        declarations: rule.declarations.filter((declaration) => isInherited(declaration.name)),
+      }))
+      .filter((rule) => rule.declarations.length > 0);
+    markOverridden(ancestorRules, longhands, claimed);
+    if (ancestorRules.length > 0) {
+      inherited.push({ from: ancestors[index] ?? `ancestor ${index + 1}`, rules: ancestorRules });
+    }
+  });
+
+  const pseudoElements = (matched.pseudoElements ?? [])
+    .map((pseudo) => {
+      const pseudoRules = compact(
+        pseudo.matches
+          .map((match) => convert(match.rule.style, match, match.rule.origin))
+          .reverse(),
+      );
+      markOverridden(pseudoRules, longhands, new Set());
+      const name = `::${pseudo.pseudoType}`;
+      return {
+        pseudo: pseudo.pseudoIdentifier ? `${name}(${pseudo.pseudoIdentifier})` : name,
+        rules: pseudoRules,
+      };
+    })
+    .filter((pseudo) => pseudo.rules.length > 0);
+
+  return { selector, rules, inherited, pseudoElements };
+}
+
+/**
+ * Format a cascade as CSS, each rule preceded by a comment with its origin,
+ * source, specificity and at-rules, and overridden declarations marked
+ * @param cascade - Cascade of one element
+ * @returns Annotated CSS
+ */
+export function formatCascade(cascade: ElementCascade): string {
+  const sections = [`/* ===== ${cascade.selector} ===== */`];
+  sections.push(...cascade.rules.map(formatRule));
+  for (const ancestor of cascade.inherited) {
+    sections.push(`/* --- Inherited from ${ancestor.from} --- */`);
+    sections.push(...ancestor.rules.map(formatRule));
+  }
+  for (const pseudo of cascade.pseudoElements) {
+    sections.push(`/* --- Pseudo-element ${pseudo.pseudo} --- */`);
+    sections.push(...pseudo.rules.map(formatRule));
+  }
+  return sections.join("\n\n");
+}
+
+function toMatchedRule(
+  style: RawCSSStyle,
+  match: RawRuleMatch | null,
+  origin: string,
+  styleSheets: Map<string, RawStyleSheetHeader>,
+  longhands: Map<CSSDeclaration, string[]>,
+): MatchedRule {
+  // Shorthands are reported along with their longhands; authored rules only show what was written
+  const declarations = style.cssProperties
+    .filter((property) => !style.range || property.range)
+    .filter((property) => !property.disabled)
+    .map((property) => {
+      const declaration: CSSDeclaration = {
+        name: property.name,
+        value: property.value,
+        important: property.important ?? false,
+        overridden: property.parsedOk === false,
+      };
+      const names = property.longhandProperties?.map((longhand) => longhand.name) ?? [];
+      longhands.set(declaration, names.length > 0 ? names : [property.name]);
+      return declaration;
+    });
+
+  const rule: MatchedRule = {
+    selector: "element.style",
+    origin: ORIGIN_NAMES[origin] ?? origin,
+    media: [],
+    layers: [],
+    declarations,
+  };
+  if (origin === "attributes") {
+    rule.selector = "presentational attributes";
+  }
+  if (!match) {
+    return rule;
+  }
+
+  const cssRule = match.rule;
+  rule.selector = cssRule.selectorList.text;
+  rule.media = (cssRule.media ?? []).map((media) => media.text).reverse();
+  rule.layers = (cssRule.layers ?? [])
+    .map((layer) => layer.text)
+    .filter((text) => text.length > 0)
+    .reverse();
+
+  const matching = match.matchingSelectors
+    .map((index) => cssRule.selectorList.selectors[index]?.specificity)
+    .filter((specificity) => specificity !== undefined)
+    .map((specificity): [number, number, number] => [specificity.a, specificity.b, specificity.c])
+    .sort((left, right) => left[0] - right[0] || left[1] - right[1] || left[2] - right[2]);
+  const specificity = matching[matching.length - 1];
+  if (specificity) {
+    rule.specificity = specificity;
+  }
+
+  const header = cssRule.styleSheetId ? styleSheets.get(cssRule.styleSheetId) : undefined;
+  const range = cssRule.selectorList.selectors[0]?.range ?? cssRule.style.range;
+  if (header && range) {
+    rule.source = formatSource(header, range);
+    if (header.sourceMapURL) {
+      rule.sourceMapURL = header.sourceMapURL;
+    }
+  }
+  return rule;
+}
+
+/**
+ * Mark the declarations that lose the cascade, given rules in precedence
+ * order; a declaration loses when every longhand it sets is won elsewhere
+ * @param longhands - Longhands set by each declaration
+ * @param claimed - Longhands set at a higher level; updated with this level's
+ */
+function markOverridden(
+  rules: MatchedRule[],
+  longhands: Map<CSSDeclaration, string[]>,
+  claimed: Set<string>,
+): void {
+  const applying = rules
+    .flatMap((rule) => rule.declarations)
+    .filter((declaration) => !declaration.overridden);
+  const longhandsOf = (declaration: CSSDeclaration): string[] =>
+    longhands.get(declaration) ?? [declaration.name];
+
+  // Important declarations beat every normal one; otherwise the first in precedence order wins
+  const winners = new Map<string, CSSDeclaration>();
+  for (const important of [true, false]) {
+    for (const declaration of applying.filter((entry) => entry.important === important)) {
+      for (const longhand of longhandsOf(declaration)) {
+        if (!winners.has(longhand) && !claimed.has(longhand)) {
+          winners.set(longhand, declaration);
+        }
+      }
+    }
+  }
+
+  for (const declaration of applying) {
+    declaration.overridden = longhandsOf(declaration).every(
+      (longhand) => winners.get(longhand) !== declaration,
+    );
+  }
+  for (const longhand of winners.keys()) {
+    claimed.add(longhand);
+  }
+}
+
+function isInherited(property: string): boolean {
+  return property.startsWith("--") || INHERITED_PROPERTIES.has(property);
+}
+
+/**
+ * Stylesheet URL with one-based line and column; rules of inline <style>
+ * elements are located in the document
+ */
+function formatSource(header: RawStyleSheetHeader, range: RawSourceRange): string {
+  let line = range.startLine;
+  let column = range.startColumn;
+  if (header.isInline) {
+    column += line === 0 ? header.startColumn : 0;
+    line += header.startLine;
+  }
+  let url = header.sourceURL;
+  if (!url) {
+    url = header.isConstructed ? "<constructed stylesheet>" : "<style>";
+  }
+  return `${url}:${line + 1}:${column + 1}`;
+}
+
+function formatRule(rule: MatchedRule): string {
+  const notes = [rule.origin];
+  if (rule.source) {
+    notes.push(rule.source);
+  }
+  if (rule.specificity) {
+    notes.push(`specificity ${rule.specificity.join(",")}`);
+  }
+  notes.push(...rule.layers.map((layer) => `@layer ${layer}`));
+  notes.push(...rule.media.map((media) => `@media ${media}`));
+  if (rule.sourceMapURL) {
+    notes.push(`source map ${rule.sourceMapURL}`);
+  }
+
+  const declarations = rule.declarations.map((declaration) => {
+    const important = declaration.important ? " !important" : "";
+    const overridden = declaration.overridden ? " /* overridden */" : "";
+    return `  ${declaration.name}: ${declaration.value}${important};${overridden}`;
+  });
+  const body = declarations.length > 0 ? `\n${declarations.join("\n")}\n` : " ";
+  return `/* ${notes.join(" | ")} */\n${rule.selector} {${body}}`;
+}
+
+function compact<T>(values: (T | null)[]): T[] {
+  return values.filter((value): value is T => value !== null);
+}
@@ -0,0 +1,150 @@
+/**
+ * Device presets for viewport emulation
+ * Named phone, tablet and desktop profiles plus the rules for combining a
+ * preset with custom width, height, pixel ratio, touch, user-agent and
+ * media settings
+ */
+
+import {
+  type DeviceEmulation,
+  type EmulationOptions,
+  type MediaEmulation,
+} from "@/interfaces/types.js";
+
+const IPHONE_USER_AGENT =
+  "Mozilla/5.0 (iPhone; CPU iPhone OS 17_5 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.5 Mobile/15E148 Safari/604.1";
+const IPAD_USER_AGENT =
+  "Mozilla/5.0 (iPad; CPU OS 17_5 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.5 Mobile/15E148 Safari/604.1";
+const PIXEL_USER_AGENT =
+  "Mozilla/5.0 (Linux; Android 14; Pixel 8) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Mobile Safari/537.36";
+const GALAXY_USER_AGENT =
+  "Mozilla/5.0 (Linux; Android 14; SM-S911B) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Mobile Safari/537.36";
+
+export const DEVICE_PRESETS: Record<string, DeviceEmulation> = {
+  "iphone-se": {
+    width: 375,
+    height: 667,
+    deviceScaleFactor: 2,
+    mobile: true,
+    hasTouch: true,
+    userAgent: IPHONE_USER_AGENT,
+  },
+  "iphone-15": {
+    width: 393,
+    height: 852,
+    deviceScaleFactor: 3,
+    mobile: true,
+    hasTouch: true,
+    userAgent: IPHONE_USER_AGENT,
+  },
+  "iphone-15-pro-max": {
+    width: 430,
+    height: 932,
+    deviceScaleFactor: 3,
+    mobile: true,
+    hasTouch: true,
+    userAgent: IPHONE_USER_AGENT,
+  },
+  "pixel-8": {
+    width: 412,
+    height: 915,
+    deviceScaleFactor: 2.625,
+    mobile: true,
+    hasTouch: true,
+    userAgent: PIXEL_USER_AGENT,
+  },
+  "galaxy-s23": {
+    width: 360,
+    height: 780,
+    deviceScaleFactor: 3,
+    mobile: true,
+    hasTouch: true,
+    userAgent: GALAXY_USER_AGENT,
+  },
+  "ipad-mini": {
+    width: 744,
+    height: 1133,
+    deviceScaleFactor: 2,
+    mobile: true,
+    hasTouch: true,
+    userAgent: IPAD_USER_AGENT,
+  },
+  "ipad-pro-11": {
+    width: 834,
+    height: 1194,
+    deviceScaleFactor: 2,
+    mobile: true,
+    hasTouch: true,
+    userAgent: IPAD_USER_AGENT,
+  },
+  laptop: {
+    width: 1440,
+    height: 900,
+    deviceScaleFactor: 2,
+    mobile: false,
+    hasTouch: false,
+  },
+  "desktop-1080p": {
+    width: 1920,
+    height: 1080,
+    deviceScaleFactor: 1,
+    mobile: false,
+    hasTouch: false,
+  },
+  "desktop-1440p": {
+    width: 2560,
+    height: 1440,
+    deviceScaleFactor: 1,
+    mobile: false,
+    hasTouch: false,
+  },
+};
+
+/**
+ * Combine a device preset with custom settings; custom settings win
+ * Width, height and pixel ratio that are neither in the preset nor given are
+ * 0, meaning the browser keeps its current value
+ * @param options - Preset name and/or custom settings
+ * @returns Settings to apply to the tab
+ * @throws Error if the preset is unknown or a value is out of range
+ */
+export function resolveEmulation(options: EmulationOptions): DeviceEmulation {
+  let preset: DeviceEmulation | undefined;
+  if (options.device) {
+    // Accept "iPhone 15" as well as "iphone-15"
+    const name = options.device.trim().toLowerCase().replace(/\s+/g, "-");
+    preset = DEVICE_PRESETS[name];
+    if (!preset) {
+      throw new Error(
+        `Unknown device "${options.device}". Available devices: ${Object.keys(DEVICE_PRESETS).join(", ")}`,
+      );
+    }
+  }
+
+  const emulation: DeviceEmulation = {
+    width: options.width ?? preset?.width ?? 0,
+    height: options.height ?? preset?.height ?? 0,
+    deviceScaleFactor: options.deviceScaleFactor ?? preset?.deviceScaleFactor ?? 0,
+    mobile: options.mobile ?? preset?.mobile ?? false,
+    hasTouch: options.hasTouch ?? preset?.hasTouch ?? false,
+  };
+  const userAgent = options.userAgent ?? preset?.userAgent;
+  if (userAgent) {
+    emulation.userAgent = userAgent;
+  }
+
+  // Keep only the media settings that were given, so nothing else is overridden
+  const media = Object.fromEntries(
+    Object.entries(options.media ?? {}).filter(([, value]) => value !== undefined),
+  ) as MediaEmulation;
+  if (Object.keys(media).length > 0) {
+    emulation.media = media;
+  }
+
+  for (const key of ["width", "height", "deviceScaleFactor"] as const) {
+    if (!Number.isFinite(emulation[key]) || emulation[key] < 0) {
+      throw new Error(`Invalid emulation ${key}: ${emulation[key]}`);
+    }
+  }
+  return emulation;
+}
@@ -0,0 +1,166 @@
+/**
+ * Navigation policy
+ * Decides which URLs the navigation tools may load, based on a user-configured allowlist
+ *
+ * Pattern syntax: [scheme://]host[:port][/path]
+ * - host may start with "*." to match any subdomain (not the domain itself)
+ * - port may be "*"; an omitted port matches any port
+ * - an omitted scheme matches http and https only
+ * - path may end with "*" to match a prefix; an omitted path matches every path
+ * Examples: "localhost:*", "127.0.0.1:3000", "*.staging.example.com", "https://docs.example.com/api/*"
+ */
+
+export interface NavigationDecision {
+  /** Whether the URL may be loaded */
+  allowed: boolean;
+  /** Normalized URL that was checked */
+  url: string;
+  /** Human readable explanation of the decision */
+  reason: string;
+  /** Allowlist pattern that matched, if any */
+  matchedPattern?: string;
+}
+
+interface ParsedPattern {
+  source: string;
+  schemes: string[];
+  host: string;
+  port: string | null;
+  path: string | null;
+}
+
+/** URLs that never leave the browser and are always allowed */
+const ALWAYS_ALLOWED_URLS = ["about:blank"];
+
+export class NavigationPolicy {
+  private readonly patterns: ParsedPattern[];
+
+  /**
+   * @param allowlist - URL patterns navigation is allowed to; empty disables navigation
+   * @throws Error if a pattern cannot be parsed
+   */
+  constructor(allowlist: string[] = []) {
+    this.patterns = allowlist
+      .map((pattern) => pattern.trim())
+      .filter((pattern) => pattern.length > 0)
+      .map((pattern) => parsePattern(pattern));
+  }
+
+  /**
+   * Whether any navigation is allowed at all
+   */
+  get isEnabled(): boolean {
+    return this.patterns.length > 0;
+  }
+
+  /**
+   * The configured allowlist patterns
+   */
+  get allowlist(): string[] {
+    return this.patterns.map((pattern) => pattern.source);
+  }
+
+  /**
+   * Check a URL against the allowlist
+   * @param rawUrl - URL the agent wants to load
+   * @returns Decision with the reason and the matching pattern
+   */
+  check(rawUrl: string): NavigationDecision {
+    let url: URL;
+    try {
+      url = new URL(rawUrl);
+    } catch {
+      return { allowed: false, url: rawUrl, reason: "Not a valid absolute URL" };
+    }
+
+    if (ALWAYS_ALLOWED_URLS.includes(url.href)) {
+      return { allowed: true, url: url.href, reason: "Blank page is always allowed" };
+    }
+
+    if (!this.isEnabled) {
+      return {
+        allowed: false,
+        url: url.href,
+        reason: "Navigation is disabled: no navigation allowlist is configured",
+      };
+    }
+
+    const scheme = url.protocol.replace(/:$/, "");
+    const host = url.hostname.replace(/^\[(.*)\]$/, "$1").toLowerCase();
+    const port = url.port || defaultPort(scheme);
+
+    for (const pattern of this.patterns) {
+      if (
+        pattern.schemes.includes(scheme) &&
+        matchHost(pattern.host, host) &&
+        (pattern.port === null || pattern.port === "*" || pattern.port === port) &&
+        (pattern.path === null || matchPath(pattern.path, url.pathname))
+      ) {
+        return {
+          allowed: true,
+          url: url.href,
+          reason: `Allowed by pattern "${pattern.source}"`,
+          matchedPattern: pattern.source,
+        };
+      }
+    }
+
+    return {
+      allowed: false,
+      url: url.href,
+      reason: `No allowlist pattern matches ${url.host ? `${scheme}://${url.host}` : `${scheme}:`}`,
+    };
+  }
+}
+
+/**
+ * Parse an allowlist pattern
+ * @throws Error if the pattern is malformed
+ */
+function parsePattern(source: string): ParsedPattern {
+  const match =
+    /^(?:([a-z][a-z0-9+.-]*):\/\/)?(\*\.[^/:]+|\[[^\]]+\]|[^/:*]+)(?::(\d+|\*))?(\/.*)?$/i.exec(
+      source,
+    );
+  if (!match) {
+    throw new Error(
+      `Invalid navigation allowlist pattern "${source}". Expected [scheme://]host[:port][/path], e.g. "localhost:*" or "*.staging.example.com"`,
+    );
+  }
+
+  const [, scheme, host = "", port, path] = match;
+  return {
+    source,
+    schemes: scheme ? [scheme.toLowerCase()] : ["http", "https"],
+    host: host.replace(/^\[(.*)\]$/, "$1").toLowerCase(),
+    port: port ?? null,
+    path: path ?? null,
+  };
+}
+
+function matchHost(pattern: string, host: string): boolean {
+  if (pattern.startsWith("*.")) {
+    return host.endsWith(pattern.slice(1));
+  }
+  return pattern === host;
+}
+
+function matchPath(pattern: string, path: string): boolean {
+  if (pattern.endsWith("*")) {
+    return path.startsWith(pattern.slice(0, -1));
+  }
+  return pattern === path;
+}
+
+function defaultPort(scheme: string): string {
+  switch (scheme) {
+    case "http":
+    case "ws":
+      return "80";
+    case "https":
+    case "wss":
+      return "443";
+    default:
+      return "";
+  }
+}
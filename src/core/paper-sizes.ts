@@ -0,0 +1,87 @@
+/**
+ * Paper sizes for PDF export
+ * Named paper formats plus the rules for combining them with custom sizes,
+ * margins and print options
+ */
+
+import { type PDFOptions, type PrintSettings } from "@/interfaces/types.js";
+
+type PaperFormat = NonNullable<PDFOptions["paperFormat"]>;
+
+/** Paper sizes in inches, portrait */
+export const PAPER_SIZES: Record<PaperFormat, { width: number; height: number }> = {
+  letter: { width: 8.5, height: 11 },
+  legal: { width: 8.5, height: 14 },
+  tabloid: { width: 11, height: 17 },
+  a3: { width: 11.69, height: 16.54 },
+  a4: { width: 8.27, height: 11.69 },
+  a5: { width: 5.83, height: 8.27 },
+};
+
+/** Margin applied to every side that is not given, in inches */
+const DEFAULT_MARGIN_INCHES = 0.4;
+
+/** "1-5, 8, 11-13": single pages or ranges, open ended ranges allowed */
+const PAGE_RANGES_PATTERN = /^\s*(\d+\s*(-\s*\d*)?|-\s*\d+)(\s*,\s*(\d+\s*(-\s*\d*)?|-\s*\d+))*\s*$/;
+
+/**
+ * Combine the paper format with custom sizes, margins and print options
+ * @param options - PDF options as given by the caller
+ * @returns Complete print settings in inches
+ * @throws Error if a value is out of range or the page ranges are malformed
+ */
+export function resolvePrintSettings(options: PDFOptions = {}): PrintSettings {
+  const paper = PAPER_SIZES[options.paperFormat ?? "letter"];
+  const settings: PrintSettings = {
+    paperWidth: options.paperWidth ?? paper.width,
+    paperHeight: options.paperHeight ?? paper.height,
+    landscape: options.landscape ?? false,
+    margin: {
+      top: options.margin?.top ?? DEFAULT_MARGIN_INCHES,
+      right: options.margin?.right ?? DEFAULT_MARGIN_INCHES,
+      bottom: options.margin?.bottom ?? DEFAULT_MARGIN_INCHES,
+      left: options.margin?.left ?? DEFAULT_MARGIN_INCHES,
+    },
+    printBackground: options.printBackground ?? false,
+    scale: options.scale ?? 1,
+    preferCSSPageSize: options.preferCSSPageSize ?? false,
+  };
+
+  if (!(settings.paperWidth > 0) || !(settings.paperHeight > 0)) {
+    throw new Error(
+      `Invalid paper size: ${settings.paperWidth}x${settings.paperHeight} inches`,
+    );
+  }
+  for (const [side, value] of Object.entries(settings.margin)) {
+    if (!(value >= 0)) {
+      throw new Error(`Invalid ${side} margin: ${value}`);
+    }
+  }
+  if (
+    settings.margin.left + settings.margin.right >= settings.paperWidth ||
+    settings.margin.top + settings.margin.bottom >= settings.paperHeight
+  ) {
+    throw new Error("Margins leave no printable area on the page");
+  }
+  if (!(settings.scale >= 0.1 && settings.scale <= 2)) {
+    throw new Error(
+      `Invalid scale ${settings.scale}: must be between 0.1 and 2`,
+    );
+  }
+
+  if (options.pageRanges?.trim()) {
+    if (!PAGE_RANGES_PATTERN.test(options.pageRanges)) {
+      throw new Error(
+        `Invalid page ranges "${options.pageRanges}". Expected e.g. "1-5, 8, 11-13"`,
+      );
+    }
+    settings.pageRanges = options.pageRanges.trim();
+  }
+  if (options.headerTemplate !== undefined) {
+    settings.headerTemplate = options.headerTemplate;
+  }
+  if (options.footerTemplate !== undefined) {
+    settings.footerTemplate = options.footerTemplate;
+  }
+  return settings;
+}
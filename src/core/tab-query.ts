@@ -0,0 +1,91 @@
+/**
+ * Tab query matching
+ * Filters tab lists by URL glob, title, origin, localhost and active state
+ */
+
+import { type TabInfo, type TabQuery } from "@/interfaces/types.js";
+
+const LOCALHOST_NAMES = ["localhost", "127.0.0.1", "[::1]", "0.0.0.0"];
+
+/**
+ * Filter tabs by a query; an empty query keeps every tab
+ * @param tabs - Tabs with active already resolved
+ * @param query - Filters to apply, all of which must match
+ * @returns Matching tabs in their original order
+ * @throws Error if query.origin is not a valid URL origin
+ */
+export function filterTabs(tabs: TabInfo[], query: TabQuery = {}): TabInfo[] {
+  const urlPattern = query.urlGlob ? globToRegExp(query.urlGlob) : null;
+  const title = query.titleContains?.toLowerCase();
+  const origin = query.origin ? normalizeOrigin(query.origin) : null;
+
+  return tabs.filter((tab) => {
+    if (query.activeOnly && !tab.active) {
+      return false;
+    }
+    if (urlPattern && !urlPattern.test(tab.url)) {
+      return false;
+    }
+    if (title && !tab.title.toLowerCase().includes(title)) {
+      return false;
+    }
+    if (origin && getOrigin(tab.url) !== origin) {
+      return false;
+    }
+    if (query.localhostOnly && !isLocalhostUrl(tab.url)) {
+      return false;
+    }
+    return true;
+  });
+}
+
+/**
+ * Whether a query has any filter set
+ * @param query - Tab query
+ * @returns True if at least one filter would be applied
+ */
+export function hasTabFilters(query: TabQuery = {}): boolean {
+  return Object.values(query).some(
+    (value) => value !== undefined && value !== false && value !== "",
+  );
+}
+
+/**
+ * Convert a URL glob into an anchored, case-insensitive regular expression
+ */
+function globToRegExp(glob: string): RegExp {
+  const source = glob
+    .split("")
+    .map((char) => {
+      if (char === "*") return ".*";
+      if (char === "?") return ".";
+      return char.replace(/[.+^${}()|[\]\\/]/g, "\\$&");
+    })
+    .join("");
+  return new RegExp(`^${source}$`, "i");
+}
+
+function normalizeOrigin(origin: string): string {
+  try {
+    return new URL(origin).origin;
+  } catch {
+    throw new Error(`Invalid origin "${origin}", expected e.g. "https://example.com"`);
+  }
+}
+
+function getOrigin(url: string): string | null {
+  try {
+    return new URL(url).origin;
+  } catch {
+    return null;
+  }
+}
+
+function isLocalhostUrl(url: string): boolean {
+  try {
+    const { hostname } = new URL(url);
+    return LOCALHOST_NAMES.includes(hostname) || hostname.endsWith(".localhost");
+  } catch {
+    return false;
+  }
+}
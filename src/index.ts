@@ -9,6 +9,8 @@
 
 import { Command } from 'commander';
 import { createBrowserLensServer } from '@/server.js';
+import { BrowserToolsConfig } from '@/interfaces/browser-tools.js';
+import { NavigationPolicy } from '@/core/navigation-policy.js';
 import { logger } from '@/utils/logger.js';
 
 const program = new Command();
@@ -23,6 +25,12 @@ program
   .description('Start the MCP server')
   .option('-d, --debug', 'Enable debug logging')
   .option('-p, --port <port>', 'Debug port for browser connection', '9222')
+  .option('--host <host>', 'Host of the browser debugging server (e.g., a container or SSH tunnel)', 'localhost')
+  .option('--ws-endpoint <url>', 'Full browser WebSocket debugger URL; overrides --host and --port')
+  .option('--headless', 'Launch the browser without a visible window (CI, headless Linux)')
+  .option('--auto-relaunch', 'Relaunch a local browser automatically if it crashes or is closed')
+  .option('--allow-navigation <patterns>', 'Comma-separated URL patterns the navigation tools may load, e.g. "localhost:*,*.staging.example.com"')
+  .option('--output-dir <path>', 'Directory archives are saved to (defaults to <tmpdir>/mcp-browser-lens)')
   .option('-b, --browser <type>', 'Preferred browser type', 'auto')
   .option('-t, --timeout <ms>', 'Operation timeout in milliseconds', '30000')
   .action(async (options) => {
@@ -36,7 +44,38 @@ program
         logger.ifDebug(() => console.error('🐛 Debug mode enabled'));
       }
 
-      const server = await createBrowserLensServer();
+      const port = Number(options.port);
+      if (!Number.isInteger(port) || port <= 0 || port > 65535) {
+        throw new Error(`Invalid port: ${options.port}`);
+      }
+
+      const timeout = Number(options.timeout);
+      if (!Number.isInteger(timeout) || timeout <= 0) {
+        throw new Error(`Invalid timeout: ${options.timeout}`);
+      }
+
+      const config: BrowserToolsConfig = {
+        host: options.host,
+        port,
+        timeout,
+        headless: Boolean(options.headless),
+        autoRelaunch: Boolean(options.autoRelaunch),
+        debug: Boolean(options.debug),
+      };
+      if (options.wsEndpoint) {
+        config.webSocketDebuggerUrl = options.wsEndpoint;
+      }
+      if (options.outputDir) {
+        config.outputDirectory = options.outputDir;
+      }
+      if (options.allowNavigation) {
+        const allowlist = String(options.allowNavigation).split(',').map((pattern) => pattern.trim()).filter(Boolean);
+        // Fail fast on malformed patterns instead of on the first navigation
+        new NavigationPolicy(allowlist);
+        config.navigationAllowlist = allowlist;
+      }
+
+      const server = await createBrowserLensServer(config);
       
       logger.ifDebug(() => {
         console.error('✅ MCP Browser Lens server started successfully');
@@ -80,18 +119,22 @@ program
           console.error('1. Install Chrome, Edge, Brave, Arc, or Zen browser');
           console.error('2. Start the browser with remote debugging enabled:');
           console.error('   Chrome: --remote-debugging-port=9222');
+          console.error('   Firefox: --remote-debugging-port=9222 (WebDriver BiDi)');
           console.error('\n💡 Tip: Open Chrome and check http://localhost:9222/json/list');
           process.exit(1);
         }
         
-        console.error(`Found ${browsers.length} available browser(s):\n`);
+        console.error(`Found ${browsers.length} browser(s):\n`);
         
         for (const browser of browsers) {
-          console.error(`✅ ${browser.name}`);
+          console.error(`${browser.isRunning ? '✅' : '💤'} ${browser.name}`);
           console.error(`   Type: ${browser.type}`);
-          console.error(`   Version: ${browser.version}`);
+          console.error(`   Version: ${browser.version ?? 'Unknown'}`);
           console.error(`   Debug Port: ${browser.debugPort}`);
-          console.error(`   Running: ${browser.isRunning ? 'Yes' : 'No'}`);
+          console.error(`   Running: ${browser.isRunning ? 'Yes' : 'No (installed, not running with debugging)'}`);
+          if (browser.executablePath) {
+            console.error(`   Executable: ${browser.executablePath}`);
+          }
           console.error('');
         }
         
@@ -132,6 +175,7 @@ program
     try {
       const { getPlatformCapabilities } = await import('@/core/capability-detector.js');
       const { getSupportedBrowserTypes } = await import('@/core/browser-factory.js');
+      const { CHROMIUM_BROWSERS, CHROMIUM_BROWSER_TYPES, findChromiumExecutable } = await import('@/utils/chromium-browsers.js');
       
       console.error('MCP Browser Lens System Information\n');
       
@@ -155,6 +199,14 @@ program
       });
       console.error('');
       
+      // Installed Chromium-family browsers
+      console.error('Chromium-Family Browsers:');
+      CHROMIUM_BROWSER_TYPES.forEach(type => {
+        const executablePath = findChromiumExecutable(type);
+        console.error(`  ${type} (${CHROMIUM_BROWSERS[type].displayName}): ${executablePath ? `✅ ${executablePath}` : '❌ not installed'}`);
+      });
+      console.error('');
+      
       // MCP capabilities
       console.error('MCP Tools Available:');
       const tools = [
@@ -165,6 +217,8 @@ program
         'extract_elements - Get detailed element information using CSS selectors',
         'scroll_page - Scroll pages (pixels, viewport, to elements, top/bottom)',
         'set_active_tab - Switch to a specific tab safely',
+        'navigate_tab / open_tab / reload_tab - Load URLs allowed by --allow-navigation',
+        'duplicate_tab / close_tab - Copy tabs and close tabs the agent opened',
         'get_browser_capabilities - Check what browser features are available'
       ];
       tools.forEach(tool => {
@@ -5,12 +5,34 @@
 
 import {
   type TabInfo,
+  type TabQuery,
+  type ScreenshotResult,
+  type EmulationOptions,
+  type AnnotatedCaptureOptions,
+  type AnnotatedScreenshot,
+  type ResponsiveCaptureOptions,
+  type BreakpointCapture,
+  type PDFOptions,
+  type PDFResult,
+  type ArchiveOptions,
+  type ArchiveResult,
+  type ScreencastOptions,
+  type ScreencastResult,
   type CaptureOptions,
   type HTMLCaptureOptions,
   type CSSCaptureOptions,
   type ElementInfo,
+  type ElementExtractionOptions,
+  type FrameHTML,
+  type AccessibilityOptions,
+  type AccessibilitySnapshot,
   type CaptureResult,
   type BrowserType,
+  type ScrollOptions,
+  type ScrollResult,
+  type SessionPoolStats,
+  type NavigationOptions,
+  type NavigationResult,
 } from "@/interfaces/types.js";
 import { type BrowserCapabilities } from "@/interfaces/capabilities.js";
 
@@ -47,11 +69,13 @@ export interface BrowserTools {
   disconnect(): Promise<void>;
 
   /**
-   * List all open tabs in the browser
+   * List open tabs in the browser
+   * @param query - Optional filters; all set filters must match
    * @returns Promise resolving to array of tab information
    * @throws BrowserConnectionError if browser is not accessible
+   * @throws Error if query.origin is not a valid origin
    */
-  listTabs(): Promise<TabInfo[]>;
+  listTabs(query?: TabQuery): Promise<TabInfo[]>;
 
   /**
    * Capture a screenshot of the specified browser tab
@@ -63,6 +87,106 @@ export interface BrowserTools {
    */
   captureScreenshot(tabId: string, options?: CaptureOptions): Promise<string>;
 
+  /**
+   * Capture a screenshot and report its format, dimensions and how it was taken
+   * Full-page captures of pages taller than the browser can render at once are
+   * taken in tiles and stitched; pages beyond maxScreenshotDimensions are cut off
+   * @param tabId - Unique identifier for the target tab
+   * @param options - Screenshot capture options (quality, format, etc.)
+   * @returns Promise resolving to the image and its metadata
+   * @throws TabNotFoundError if tab doesn't exist
+   * @throws CaptureError if screenshot fails
+   */
+  captureScreenshotDetailed(
+    tabId: string,
+    options?: CaptureOptions,
+  ): Promise<ScreenshotResult>;
+
+  /**
+   * Capture the viewport with numbered boxes over the visible interactive
+   * elements (set-of-marks), plus a legend that maps each number to a
+   * selector, bounding box and accessible name
+   * @param tabId - Unique identifier for the target tab
+   * @param options - Screenshot options plus the most elements to mark
+   * @returns Promise resolving to the annotated screenshot and its legend
+   * @throws TabNotFoundError if tab doesn't exist
+   * @throws CaptureError if marking or the screenshot fails
+   */
+  captureAnnotatedScreenshot(
+    tabId: string,
+    options?: AnnotatedCaptureOptions,
+  ): Promise<AnnotatedScreenshot>;
+
+  /**
+   * Capture the tab at a list of viewport widths (a responsive breakpoint
+   * sweep), optionally measuring selector bounding boxes at each width
+   * The tab's own viewport is restored afterwards
+   * @param tabId - Unique identifier for the target tab
+   * @param options - Breakpoint widths, shared device settings, selectors and screenshot options
+   * @returns Promise resolving to one capture per width, in the given order
+   * @throws Error if no widths are given or the device preset is unknown
+   * @throws TabNotFoundError if tab doesn't exist
+   * @throws CaptureError if a screenshot or measurement fails
+   */
+  captureResponsive(
+    tabId: string,
+    options: ResponsiveCaptureOptions,
+  ): Promise<BreakpointCapture[]>;
+
+  /**
+   * Print a tab to PDF, as the browser's print dialog would with print media styles
+   * @param tabId - Unique identifier for the target tab
+   * @param options - Paper size, margins, backgrounds, page ranges and header/footer templates
+   * @returns Promise resolving to the base64 encoded PDF and the settings used
+   * @throws Error if an option is out of range or the page ranges are malformed
+   * @throws TabNotFoundError if tab doesn't exist
+   * @throws CaptureError if printing fails
+   */
+  capturePDF(tabId: string, options?: PDFOptions): Promise<PDFResult>;
+
+  /**
+   * Save an offline copy of a tab: the MHTML snapshot, or a single HTML file
+   * with the snapshot's resources inlined
+   * @param tabId - Unique identifier for the target tab
+   * @param options - Archive format
+   * @returns Promise resolving to the saved file's path and metadata
+   * @throws TabNotFoundError if tab doesn't exist
+   * @throws CaptureError if the snapshot cannot be taken or saved
+   */
+  captureArchive(tabId: string, options?: ArchiveOptions): Promise<ArchiveResult>;
+
+  /**
+   * Record the tab for a short time to show animations and transitions
+   * Frames that do not differ from the previous kept frame are dropped, so
+   * static periods lengthen a frame's duration instead of adding frames
+   * @param tabId - Unique identifier for the target tab
+   * @param options - Duration, frame count and rate, frame size and dedupe threshold
+   * @returns Promise resolving to the kept frames and, optionally, an animated PNG
+   * @throws Error if an option is out of range
+   * @throws TabNotFoundError if tab doesn't exist
+   * @throws CaptureError if recording fails or no frame arrives
+   */
+  captureScreencast(
+    tabId: string,
+    options?: ScreencastOptions,
+  ): Promise<ScreencastResult>;
+
+  /**
+   * Run an operation with the tab rendered as another device or viewport
+   * The previous emulation (or none) is restored when the operation settles
+   * @param tabId - Unique identifier for the target tab
+   * @param emulation - Device preset and/or custom viewport settings
+   * @param operation - Captures to run while the emulation is active
+   * @returns Promise resolving to the operation's result
+   * @throws Error if the device preset is unknown
+   * @throws TabNotFoundError if tab doesn't exist
+   */
+  withEmulation<T>(
+    tabId: string,
+    emulation: EmulationOptions,
+    operation: () => Promise<T>,
+  ): Promise<T>;
+
   /**
    * Extract HTML content from the specified browser tab
    * @param tabId - Unique identifier for the target tab
@@ -73,13 +197,47 @@ export interface BrowserTools {
    */
   captureHTML(tabId: string, options?: HTMLCaptureOptions): Promise<string>;
 
+  /**
+   * Extract the HTML of every frame of a tab, the main frame first
+   * Cross-origin and out-of-process iframes are captured from inside the frame;
+   * a frame that cannot be read reports an error instead of failing the capture
+   * @param tabId - Unique identifier for the target tab
+   * @param options - HTML extraction options, applied to every frame
+   * @returns Promise resolving to the HTML of each frame with its frame tree position
+   * @throws TabNotFoundError if tab doesn't exist
+   * @throws CaptureError if the frame tree cannot be read
+   */
+  captureFrameHTML(
+    tabId: string,
+    options?: HTMLCaptureOptions,
+  ): Promise<FrameHTML[]>;
+
+  /**
+   * Snapshot the accessibility tree of a tab as a compact role/name/state outline
+   * Every node backed by an element gets a ref ("e123") that tools accept as
+   * "ref=e123" in place of a CSS selector; refs are kept by the provider and
+   * the page is left untouched
+   * @param tabId - Unique identifier for the target tab
+   * @param options - Subtree selector, filtering and size limits
+   * @returns Promise resolving to the outline and the node tree
+   * @throws TabNotFoundError if tab doesn't exist
+   * @throws CaptureError if the browser has no accessibility tree access or the selector matches nothing
+   */
+  captureAccessibilityTree(
+    tabId: string,
+    options?: AccessibilityOptions,
+  ): Promise<AccessibilitySnapshot>;
+
   /**
    * Extract CSS styles from the specified browser tab
+   * In "rules" mode the result lists the stylesheet rules that match each
+   * element in cascade order, with their origin, source location, specificity
+   * and overridden declarations, followed by inherited and pseudo-element rules
    * @param tabId - Unique identifier for the target tab
-   * @param options - CSS extraction options including selectors
+   * @param options - CSS extraction options including selectors and mode
    * @returns Promise resolving to CSS content string
    * @throws TabNotFoundError if tab doesn't exist
-   * @throws CaptureError if CSS extraction fails
+   * @throws CaptureError if CSS extraction fails or the browser cannot report matched rules
    */
   captureCSS(tabId: string, options: CSSCaptureOptions): Promise<string>;
 
@@ -93,15 +251,90 @@ export interface BrowserTools {
    */
   setActiveTab(tabId: string): Promise<void>;
 
+  /**
+   * Navigate a tab to a URL allowed by the navigation allowlist
+   * @param tabId - Unique identifier for the target tab
+   * @param url - Absolute URL to load
+   * @param options - Lifecycle event to wait for and timeout
+   * @returns Promise resolving to the tab state after navigation
+   * @throws NavigationDeniedError if the URL is not allowed
+   * @throws TabNotFoundError if tab doesn't exist
+   * @throws CaptureError if navigation fails
+   */
+  navigateTab(
+    tabId: string,
+    url: string,
+    options?: NavigationOptions,
+  ): Promise<NavigationResult>;
+
+  /**
+   * Open a new agent-owned tab, optionally loading a URL allowed by the navigation allowlist
+   * @param url - Absolute URL to load, or undefined for a blank tab
+   * @param options - Lifecycle event to wait for and timeout
+   * @returns Promise resolving to the new tab's state
+   * @throws NavigationDeniedError if the URL is not allowed
+   * @throws CaptureError if the tab cannot be opened
+   */
+  openTab(url?: string, options?: NavigationOptions): Promise<NavigationResult>;
+
+  /**
+   * Open a copy of a tab; the copy is agent-owned
+   * @param tabId - Unique identifier for the tab to duplicate
+   * @param options - Lifecycle event to wait for and timeout
+   * @returns Promise resolving to the new tab's state
+   * @throws NavigationDeniedError if the tab's URL is not allowed
+   * @throws TabNotFoundError if tab doesn't exist
+   * @throws CaptureError if the tab cannot be opened
+   */
+  duplicateTab(
+    tabId: string,
+    options?: NavigationOptions,
+  ): Promise<NavigationResult>;
+
+  /**
+   * Close a tab opened by the agent (openTab or duplicateTab)
+   * @param tabId - Unique identifier for the target tab
+   * @returns Promise that resolves when the tab is closed
+   * @throws TabOwnershipError if the tab was not opened by the agent
+   * @throws CaptureError if the tab cannot be closed
+   */
+  closeTab(tabId: string): Promise<void>;
+
+  /**
+   * Close every tab opened by the agent, e.g. on shutdown
+   * @returns Promise resolving to the IDs of the closed tabs
+   */
+  closeAgentTabs(): Promise<string[]>;
+
+  /**
+   * Reload a tab whose current URL is allowed by the navigation allowlist
+   * @param tabId - Unique identifier for the target tab
+   * @param options - Bypass the cache, lifecycle event to wait for and timeout
+   * @returns Promise resolving to the tab state after reload
+   * @throws NavigationDeniedError if the current URL is not allowed
+   * @throws TabNotFoundError if tab doesn't exist
+   * @throws CaptureError if the reload fails
+   */
+  reloadTab(
+    tabId: string,
+    options?: NavigationOptions & { ignoreCache?: boolean },
+  ): Promise<NavigationResult>;
+
   /**
    * Extract detailed information about specific elements
+   * Selectors may pierce shadow roots and frames with ">>>" ("host >>> inner")
    * @param tabId - Unique identifier for the target tab
    * @param selectors - CSS selectors for elements to extract
+   * @param options - Whether to search every frame of the tab
    * @returns Promise resolving to array of element information
    * @throws TabNotFoundError if tab doesn't exist
    * @throws CaptureError if element extraction fails
    */
-  extractElements(tabId: string, selectors: string[]): Promise<ElementInfo[]>;
+  extractElements(
+    tabId: string,
+    selectors: string[],
+    options?: ElementExtractionOptions,
+  ): Promise<ElementInfo[]>;
 
   /**
    * Scroll the page in a browser tab
@@ -113,19 +346,8 @@ export interface BrowserTools {
    */
   scrollPage(
     tabId: string,
-    options: {
-      scrollType: 'pixels' | 'coordinates' | 'viewport' | 'element' | 'top' | 'bottom';
-      x?: number;
-      y?: number;
-      selector?: string;
-      smooth?: boolean;
-    },
-  ): Promise<{
-    success: boolean;
-    scrollPosition: { x: number; y: number };
-    viewportSize: { width: number; height: number };
-    pageSize: { width: number; height: number };
-  }>;
+    options: ScrollOptions,
+  ): Promise<ScrollResult>;
 
   /**
    * Perform a complete capture of a tab (screenshot + HTML + CSS)
@@ -144,7 +366,11 @@ export interface BrowserTools {
     },
   ): Promise<CaptureResult>;
 
-
+  /**
+   * Get statistics of the per-tab session pool used to reuse connections
+   * @returns Pool statistics, or null if the provider does not pool sessions
+   */
+  getSessionPoolStats(): SessionPoolStats | null;
 }
 
 /**
@@ -169,4 +395,26 @@ export interface BrowserToolsConfig {
   customPaths?: Partial<Record<BrowserType, string>>;
   /** Custom debug ports */
   customPorts?: Partial<Record<BrowserType, number>>;
+  /** Host of the browser debugging server (defaults to localhost) */
+  host?: string;
+  /** Port of the browser debugging server (defaults to 9222) */
+  port?: number;
+  /**
+   * Full browser WebSocket endpoint, e.g. ws://10.0.0.5:9222/devtools/browser/<id>
+   * Takes precedence over host and port
+   */
+  webSocketDebuggerUrl?: string;
+  /** Launch the browser without a visible window (defaults to false) */
+  headless?: boolean;
+  /**
+   * URL patterns the navigation tools may load, e.g. "localhost:*" or "*.staging.example.com"
+   * Navigation is disabled when empty (the default)
+   */
+  navigationAllowlist?: string[];
+  /** Relaunch a local browser when the connection to it is lost (defaults to false) */
+  autoRelaunch?: boolean;
+  /** Interval between connection health checks in milliseconds, 0 disables (defaults to 10000) */
+  healthCheckInterval?: number;
+  /** Directory archives and other file captures are saved to (defaults to <tmpdir>/mcp-browser-lens) */
+  outputDirectory?: string;
 }
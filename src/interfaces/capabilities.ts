@@ -20,6 +20,16 @@ export interface BrowserCapabilities {
   canInjectJavaScript: boolean;
   /** Browser supports full page screenshots */
   canCaptureFullPage: boolean;
+  /** Browser can print tabs to PDF */
+  canCapturePDF: boolean;
+  /** Browser can save MHTML snapshots of tabs */
+  canCaptureArchive: boolean;
+  /** Browser can record screencasts of tabs */
+  canCaptureScreencast: boolean;
+  /** Browser can snapshot the accessibility tree of tabs */
+  canCaptureAccessibilityTree: boolean;
+  /** Browser can list the stylesheet rules that match an element */
+  canCaptureCSSRules: boolean;
   /** Browser can detect localhost development servers */
   canDetectLocalhost: boolean;
   /** Supported image formats for screenshots */
@@ -89,8 +99,17 @@ export const TIER_1_CAPABILITIES: BrowserCapabilities = {
   canExtractElements: true,
   canInjectJavaScript: true,
   canCaptureFullPage: true,
+  canCapturePDF: true,
+  canCaptureArchive: true,
+  canCaptureScreencast: true,
+  canCaptureAccessibilityTree: true,
+  canCaptureCSSRules: true,
   canDetectLocalhost: true,
   supportedImageFormats: ["png", "jpeg", "webp"],
+  maxScreenshotDimensions: {
+    width: 16384,
+    height: 32768,
+  },
   limitations: [],
 };
 
@@ -103,11 +122,50 @@ export const TIER_2_CAPABILITIES: BrowserCapabilities = {
   canExtractElements: false,
   canInjectJavaScript: false,
   canCaptureFullPage: true,
+  canCapturePDF: false,
+  canCaptureArchive: false,
+  canCaptureScreencast: false,
+  canCaptureAccessibilityTree: false,
+  canCaptureCSSRules: false,
   canDetectLocalhost: false,
   supportedImageFormats: ["png"],
   limitations: ["Limited CSS extraction", "No JavaScript injection"],
 };
 
+export const FIREFOX_CAPABILITIES: BrowserCapabilities = {
+  canListTabs: true,
+  canCaptureScreenshots: true,
+  canCaptureHTML: true,
+  canCaptureCSS: true,
+  canNavigate: true,
+  canExtractElements: true,
+  canInjectJavaScript: true,
+  canCaptureFullPage: true,
+  canCapturePDF: true,
+  canCaptureArchive: false,
+  canCaptureScreencast: false,
+  canCaptureAccessibilityTree: false,
+  canCaptureCSSRules: false,
+  canDetectLocalhost: true,
+  supportedImageFormats: ["png", "jpeg"],
+  maxScreenshotDimensions: {
+    width: 32767,
+    height: 32767,
+  },
+  limitations: [
+    "Requires Firefox 129+ started with --remote-debugging-port",
+    "Only one WebDriver BiDi session per Firefox instance",
+    "No WebP screenshots",
+    "Clip scaling (devicePixelRatio) is ignored",
+    "Device emulation sets viewport size and pixel ratio only (no mobile mode, touch, user agent or media features)",
+    "PDF export has no header/footer templates",
+    "No MHTML or single-file HTML archives",
+    "No screencasts",
+    "No accessibility tree snapshots",
+    "No CSS rule provenance (matched rules, stylesheet sources, specificity)",
+  ],
+};
+
 export const FALLBACK_CAPABILITIES: BrowserCapabilities = {
   canListTabs: false,
   canCaptureScreenshots: true,
@@ -117,6 +175,11 @@ export const FALLBACK_CAPABILITIES: BrowserCapabilities = {
   canExtractElements: false,
   canInjectJavaScript: false,
   canCaptureFullPage: false,
+  canCapturePDF: false,
+  canCaptureArchive: false,
+  canCaptureScreencast: false,
+  canCaptureAccessibilityTree: false,
+  canCaptureCSSRules: false,
   canDetectLocalhost: true,
   supportedImageFormats: ["png"],
   limitations: [
@@ -129,6 +192,11 @@ export const FALLBACK_CAPABILITIES: BrowserCapabilities = {
 
 export type BrowserType =
   | "chrome"
+  | "chromium"
+  | "edge"
+  | "brave"
+  | "vivaldi"
+  | "firefox"
   | "auto";
   // Future browsers can be added here:
-  // | "safari" | "firefox" | "arc" | "zen"
+  // | "safari" | "arc" | "zen"
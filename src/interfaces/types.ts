@@ -10,14 +10,38 @@ export interface TabInfo {
   url: string;
   /** Page title */
   title: string;
-  /** Whether the tab is currently active/focused */
+  /**
+   * Whether this is the tab the user is looking at: the focused tab, or the
+   * first visible tab when no browser window has focus
+   */
   active: boolean;
+  /** Whether the page is visible (selected tab of a non-minimized window) */
+  visible?: boolean;
+  /** Whether the page has input focus */
+  focused?: boolean;
   /** Favicon URL if available */
   favIconUrl?: string;
   /** Browser type that owns this tab */
   browserType: BrowserType;
   /** Window ID that contains this tab */
   windowId?: string;
+  /** State of the window that contains this tab */
+  windowState?: "normal" | "minimized" | "maximized" | "fullscreen";
+  /** Whether the tab was opened by the agent (only these may be closed) */
+  agentOwned?: boolean;
+}
+
+export interface TabQuery {
+  /** Glob matched against the full URL; "*" matches any run of characters, "?" one character */
+  urlGlob?: string;
+  /** Case-insensitive substring of the title */
+  titleContains?: string;
+  /** Exact origin, e.g. "https://github.com" */
+  origin?: string;
+  /** Only tabs served from localhost, 127.0.0.1, [::1] or *.localhost */
+  localhostOnly?: boolean;
+  /** Only the active tab */
+  activeOnly?: boolean;
 }
 
 export interface CaptureOptions {
@@ -25,7 +49,7 @@ export interface CaptureOptions {
   format?: "png" | "jpeg" | "webp";
   /** Image quality (0-100) for lossy formats */
   quality?: number;
-  /** Capture full page or just viewport */
+  /** Capture the whole scrollable page instead of just the viewport */
   fullPage?: boolean;
   /** Clip to specific area */
   clip?: {
@@ -36,22 +60,312 @@ export interface CaptureOptions {
   };
   /** Device pixel ratio for high-DPI captures */
   devicePixelRatio?: number;
+  /** Capture only the first element matching this CSS selector; takes precedence over clip and fullPage */
+  selector?: string;
+  /** Extra CSS pixels captured around the selected element */
+  padding?: number;
+  /** Factor applied to the rendered resolution, e.g. 0.5 for half the pixels per side */
+  scale?: number;
+  /** Largest width of the delivered image in pixels; wider captures are downscaled */
+  maxWidth?: number;
+  /** Largest height of the delivered image in pixels; taller captures are downscaled */
+  maxHeight?: number;
+  /** Largest size of the delivered base64 image data in bytes; JPEG, lower quality and lower resolution are tried until it fits */
+  maxBytes?: number;
+}
+
+export interface EmulationOptions {
+  /** Device preset name, e.g. "iphone-15" or "ipad-pro-11" */
+  device?: string;
+  /** Viewport width in CSS pixels */
+  width?: number;
+  /** Viewport height in CSS pixels */
+  height?: number;
+  /** Device pixel ratio */
+  deviceScaleFactor?: number;
+  /** Emulate a mobile browser (meta viewport, overlay scrollbars) */
+  mobile?: boolean;
+  /** Report touch support to the page */
+  hasTouch?: boolean;
+  /** User agent string sent with requests and exposed to scripts */
+  userAgent?: string;
+  /** CSS media type and media features, e.g. print stylesheets or dark mode */
+  media?: MediaEmulation;
+}
+
+export interface MediaEmulation {
+  /** CSS media type; "print" applies print stylesheets */
+  type?: "screen" | "print";
+  /** Value of the prefers-color-scheme media feature */
+  colorScheme?: "light" | "dark";
+  /** Value of the prefers-reduced-motion media feature */
+  reducedMotion?: "no-preference" | "reduce";
+  /** Value of the forced-colors media feature */
+  forcedColors?: "none" | "active";
+}
+
+export interface DeviceEmulation {
+  /** Viewport width in CSS pixels, 0 keeps the current width */
+  width: number;
+  /** Viewport height in CSS pixels, 0 keeps the current height */
+  height: number;
+  /** Device pixel ratio, 0 keeps the current ratio */
+  deviceScaleFactor: number;
+  /** Emulate a mobile browser */
+  mobile: boolean;
+  /** Report touch support to the page */
+  hasTouch: boolean;
+  /** User agent override */
+  userAgent?: string;
+  /** Media type and media features, when any are emulated */
+  media?: MediaEmulation;
+}
+
+export interface ScreenshotResult {
+  /** Base64 encoded image data */
+  data: string;
+  /** Format of the delivered image; stitched full-page captures are always PNG */
+  format: "png" | "jpeg" | "webp";
+  /** Image width in pixels */
+  width: number;
+  /** Image height in pixels */
+  height: number;
+  /** Width the image would have at full resolution */
+  originalWidth: number;
+  /** Height the image would have at full resolution */
+  originalHeight: number;
+  /** Ratio of delivered to full resolution; CSS pixels = image pixels / (scale * devicePixelRatio) */
+  scale: number;
+  /** Device pixel ratio the page was rendered at */
+  devicePixelRatio: number;
+  /** Size of the base64 encoded image data in bytes, as sent to the client */
+  bytes: number;
+  /** Quality of lossy formats */
+  quality?: number;
+  /** Whether the image fits maxBytes, when a byte budget was given */
+  withinBudget?: boolean;
+  /** Number of tiles stitched together, 1 for a single capture */
+  tiles: number;
+  /** Whether the page exceeded maxScreenshotDimensions and was cut off */
+  truncated: boolean;
+  /** Size of the scrollable page in CSS pixels, for full-page captures */
+  contentSize?: {
+    width: number;
+    height: number;
+  };
+  /** Captured region in CSS pixels relative to the document, for element captures */
+  clip?: {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+  };
+}
+
+export interface PDFOptions {
+  /** Named paper size (defaults to letter); ignored when paperWidth and paperHeight are given */
+  paperFormat?: "letter" | "legal" | "tabloid" | "a3" | "a4" | "a5";
+  /** Paper width in inches */
+  paperWidth?: number;
+  /** Paper height in inches */
+  paperHeight?: number;
+  /** Print in landscape orientation */
+  landscape?: boolean;
+  /** Page margins in inches (0.4 on every side by default) */
+  margin?: {
+    top?: number;
+    right?: number;
+    bottom?: number;
+    left?: number;
+  };
+  /** Print background colors and images */
+  printBackground?: boolean;
+  /** Rendering scale, between 0.1 and 2 */
+  scale?: number;
+  /** Pages to print, e.g. "1-5, 8, 11-13"; all pages by default */
+  pageRanges?: string;
+  /**
+   * HTML template for the page header; elements with the classes date, title,
+   * url, pageNumber and totalPages receive the matching values
+   */
+  headerTemplate?: string;
+  /** HTML template for the page footer, with the same classes as headerTemplate */
+  footerTemplate?: string;
+  /** Use the page size defined by CSS @page rules instead of the paper size */
+  preferCSSPageSize?: boolean;
+}
+
+export interface PrintSettings {
+  /** Paper width in inches, before orientation is applied */
+  paperWidth: number;
+  /** Paper height in inches, before orientation is applied */
+  paperHeight: number;
+  /** Print in landscape orientation */
+  landscape: boolean;
+  /** Page margins in inches */
+  margin: {
+    top: number;
+    right: number;
+    bottom: number;
+    left: number;
+  };
+  /** Print background colors and images */
+  printBackground: boolean;
+  /** Rendering scale */
+  scale: number;
+  /** Pages to print; all pages when omitted */
+  pageRanges?: string;
+  /** HTML template for the page header */
+  headerTemplate?: string;
+  /** HTML template for the page footer */
+  footerTemplate?: string;
+  /** Use the page size defined by CSS @page rules */
+  preferCSSPageSize: boolean;
+}
+
+export interface PDFResult {
+  /** Base64 encoded PDF */
+  data: string;
+  /** Size of the PDF in bytes */
+  bytes: number;
+  /** Number of pages, when it can be read from the document */
+  pageCount?: number;
+  /** Settings the PDF was printed with */
+  settings: PrintSettings;
+}
+
+export interface ArchiveOptions {
+  /**
+   * "mhtml" for the browser's MHTML snapshot, "html" for a single HTML file
+   * with stylesheets, images, fonts and frames inlined (defaults to "mhtml")
+   */
+  format?: "mhtml" | "html";
+}
+
+export interface ArchiveResult {
+  /** Absolute path of the saved file */
+  path: string;
+  /** file:// URL of the saved file */
+  uri: string;
+  /** Format of the saved file */
+  format: "mhtml" | "html";
+  /** Media type of the saved file */
+  mimeType: string;
+  /** Size of the saved file in bytes */
+  bytes: number;
+  /** URL of the archived page */
+  url: string;
+  /** Title of the archived page */
+  title: string;
+  /** Number of resources (stylesheets, images, fonts, frames) in the snapshot */
+  resources: number;
+  /** Number of resources inlined into the single-file HTML */
+  inlined?: number;
+}
+
+export interface ScreencastOptions {
+  /** How long to record in milliseconds (defaults to 3000) */
+  durationMs?: number;
+  /** Stop once this many distinct frames are kept (defaults to 12) */
+  maxFrames?: number;
+  /** Most frames kept per second; faster changes keep the latest frame (defaults to 4) */
+  frameRate?: number;
+  /** Largest frame width in pixels (defaults to 800) */
+  maxWidth?: number;
+  /** Largest frame height in pixels */
+  maxHeight?: number;
+  /** Share of pixels (0-1) that must change for a frame to count as new (defaults to 0) */
+  minChange?: number;
+  /** Also encode the kept frames as an animated PNG */
+  animate?: boolean;
+}
+
+export interface ScreencastFrame {
+  /** Base64 encoded PNG */
+  data: string;
+  /** Milliseconds since recording started */
+  timestamp: number;
+  /** How long the page showed this frame, until the next kept frame or the end */
+  durationMs: number;
+  /** Frame width in pixels */
+  width: number;
+  /** Frame height in pixels */
+  height: number;
+}
+
+export interface ScreencastResult {
+  /** Distinct frames in recording order */
+  frames: ScreencastFrame[];
+  /** Length of the recording in milliseconds */
+  recordedMs: number;
+  /** Frames the browser sent */
+  receivedFrames: number;
+  /** Frames dropped because they did not differ from the previous kept frame */
+  duplicateFrames: number;
+  /** Frames dropped to stay within frameRate */
+  skippedFrames: number;
+  /** Animated PNG of the kept frames, when requested */
+  animation?: {
+    data: string;
+    width: number;
+    height: number;
+    bytes: number;
+  };
 }
 
 export interface HTMLCaptureOptions {
+  /**
+   * Output format: the HTML (default), Markdown, the visible text, or
+   * "readability" for the Markdown of the main content without navigation and boilerplate
+   */
+  format?: "html" | "markdown" | "text" | "readability";
   /** Include inline styles in the output */
   includeStyles?: boolean;
   /** Include script tags in the output */
   includeScripts?: boolean;
   /** Pretty format the HTML output */
   prettify?: boolean;
-  /** Extract only specific selectors */
+  /** Extract only specific selectors; "host >>> inner" pierces shadow roots and frames */
   selectors?: string[];
+  /** Serialize open shadow roots as declarative shadow DOM (<template shadowrootmode>) */
+  includeShadowRoots?: boolean;
+}
+
+export interface FrameInfo {
+  /** Frame ID; the main frame's ID is the tab's */
+  frameId: string;
+  /** ID of the frame that embeds this one; absent for the main frame */
+  parentFrameId?: string;
+  /** URL of the frame's document */
+  url: string;
+  /** Frame name attribute, if any */
+  name?: string;
+  /** Whether the frame runs in its own renderer process (Chromium out-of-process iframe) */
+  outOfProcess?: boolean;
+}
+
+export interface FrameEvaluation<T> extends FrameInfo {
+  /** Value of the expression in this frame */
+  value?: T;
+  /** Why the expression could not be evaluated in this frame */
+  error?: string;
+}
+
+export interface FrameHTML extends FrameInfo {
+  /** HTML of the frame's document */
+  html?: string;
+  /** Why the frame could not be captured */
+  error?: string;
 }
 
 export interface CSSCaptureOptions {
   /** CSS selectors to target */
   selectors: string[];
+  /**
+   * computed: computed styles of the first matching element (default)
+   * rules: the stylesheet rules that match it, in cascade order with their source, specificity and overridden declarations
+   */
+  mode?: "computed" | "rules";
   /** Include computed styles */
   includeComputed?: boolean;
   /** Include inherited styles */
@@ -71,13 +385,122 @@ export interface ElementInfo {
   styles?: Record<string, string>;
   /** Element attributes */
   attributes?: Record<string, string>;
-  /** Bounding box information */
+  /** Bounding box information, relative to the viewport of the element's frame */
   boundingBox?: {
     x: number;
     y: number;
     width: number;
     height: number;
   };
+  /** Frame the element was found in, when frames are searched */
+  frameId?: string;
+  /** URL of that frame */
+  frameUrl?: string;
+}
+
+export interface ElementExtractionOptions {
+  /** Also search every iframe, including cross-origin and out-of-process ones */
+  includeFrames?: boolean;
+}
+
+export interface ElementMark {
+  /** Number drawn next to the element on the annotated screenshot */
+  mark: number;
+  /** Selector that matches exactly this element */
+  selector: string;
+  /** Element tag name */
+  tagName: string;
+  /** ARIA role, explicit or implied by the tag */
+  role: string;
+  /** Accessible name (aria-label, label text, alt, visible text, ...) */
+  name: string;
+  /** Bounding box in CSS pixels relative to the viewport */
+  boundingBox: {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+  };
+}
+
+export interface AnnotatedCaptureOptions extends CaptureOptions {
+  /** Most elements to mark, in document order */
+  maxMarks?: number;
+}
+
+export interface AnnotatedScreenshot {
+  /** Viewport screenshot with the numbered boxes drawn on it */
+  screenshot: ScreenshotResult;
+  /** Legend of the numbered boxes */
+  marks: ElementMark[];
+}
+
+export interface AccessibilityOptions {
+  /** Only snapshot the subtree of the first element matching this selector or ref */
+  selector?: string;
+  /** Drop ignored nodes and unnamed generic containers, keeping their children (default true) */
+  interestingOnly?: boolean;
+  /** Deepest level of the tree to include; deeper nodes are cut off */
+  maxDepth?: number;
+  /** Most nodes to include, in document order */
+  maxNodes?: number;
+}
+
+export interface AccessibilityNode {
+  /** Role, e.g. "button", "heading" or "text" */
+  role: string;
+  /** Accessible name */
+  name: string;
+  /** Element reference ("e123") that tools accept as "ref=e123" instead of a selector */
+  ref?: string;
+  /** Current value of form controls and ranges */
+  value?: string;
+  /** States and properties such as "checked", "expanded=false" or "level=2" */
+  states: string[];
+  children: AccessibilityNode[];
+}
+
+export interface AccessibilitySnapshot {
+  /** Indented role/name/state outline, one node per line */
+  tree: string;
+  /** Top-level nodes of the snapshot */
+  nodes: AccessibilityNode[];
+  /** Number of nodes in the snapshot */
+  nodeCount: number;
+  /** Whether maxDepth or maxNodes cut off part of the tree */
+  truncated: boolean;
+}
+
+export interface ResponsiveCaptureOptions extends CaptureOptions {
+  /** Viewport widths in CSS pixels, captured in this order */
+  widths: number[];
+  /** Viewport height in CSS pixels for every breakpoint; the current height is kept if omitted */
+  height?: number;
+  /** Device settings shared by every breakpoint; the breakpoint width and height take precedence */
+  emulation?: EmulationOptions;
+  /** Selectors whose bounding boxes are measured at every breakpoint */
+  selectors?: string[];
+}
+
+export interface BreakpointElement {
+  /** Selector as requested */
+  selector: string;
+  /** Boxes of the matching elements (up to 10) in CSS pixels relative to the document; empty if none match */
+  boxes: {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+  }[];
+}
+
+export interface BreakpointCapture {
+  /** Viewport width in CSS pixels */
+  width: number;
+  /** Screenshot taken at this width */
+  screenshot: ScreenshotResult;
+  /** Measured selectors, in the order they were requested */
+  elements: BreakpointElement[];
 }
 
 export interface CaptureResult {
@@ -95,12 +518,67 @@ export interface CaptureResult {
   tabInfo: TabInfo;
 }
 
-// NavigationOptions removed for security - navigation functionality replaced with setActiveTab
+export interface ScrollOptions {
+  /** Type of scroll to perform */
+  scrollType:
+    | "pixels"
+    | "coordinates"
+    | "viewport"
+    | "element"
+    | "top"
+    | "bottom";
+  /** X coordinate or offset */
+  x?: number;
+  /** Y coordinate or offset */
+  y?: number;
+  /** CSS selector for element scrolling */
+  selector?: string;
+  /** Use smooth scrolling animation */
+  smooth?: boolean;
+}
+
+export interface ScrollResult {
+  /** Whether the scroll operation succeeded */
+  success: boolean;
+  /** Scroll position after the operation */
+  scrollPosition: { x: number; y: number };
+  /** Current viewport size */
+  viewportSize: { width: number; height: number };
+  /** Full scrollable page size */
+  pageSize: { width: number; height: number };
+}
 
-export type BrowserType = "chrome" | "auto";
+// Navigation is gated by the navigation allowlist (see core/navigation-policy.ts)
+export interface NavigationOptions {
+  /** Page lifecycle event to wait for before returning */
+  waitUntil?: "load" | "domcontentloaded" | "none";
+  /** Maximum time to wait in milliseconds (defaults to the provider timeout) */
+  timeout?: number;
+}
+
+export interface NavigationResult {
+  /** Tab that was navigated, opened or reloaded */
+  tabId: string;
+  /** URL of the tab after navigation */
+  url: string;
+  /** Page title after navigation */
+  title: string;
+  /** Whether the waitUntil event fired before the timeout */
+  loaded: boolean;
+}
+
+/** Browsers driven through the Chrome DevTools Protocol */
+export type ChromiumBrowserType =
+  | "chrome"
+  | "chromium"
+  | "edge"
+  | "brave"
+  | "vivaldi";
+
+export type BrowserType = ChromiumBrowserType | "firefox" | "auto";
 
 // Future browser types (can be enabled as needed):
-// | 'safari' | 'firefox' | 'arc' | 'zen'
+// | 'safari' | 'arc' | 'zen'
 
 export interface BrowserDetectionResult {
   /** Browser type detected */
@@ -128,17 +606,56 @@ export interface ServerInfo {
   isActive: boolean;
 }
 
+export interface SessionPoolStats {
+  /** Sessions currently attached and ready for reuse */
+  activeSessions: number;
+  /** Requests served by an already attached session */
+  hits: number;
+  /** Requests that had to attach a new session */
+  misses: number;
+  /** Sessions dropped because their target was destroyed, crashed or detached */
+  evictions: number;
+  /** Average time to attach and prepare a new session, in milliseconds */
+  averageAttachMs: number;
+  /** Average time to hand out a session including cache hits, in milliseconds */
+  averageAcquireMs: number;
+}
+
 export class BrowserConnectionError extends Error {
   constructor(
     message: string,
     public browserType: BrowserType,
     public originalError?: Error,
+    /** What the caller can do to recover, e.g. retry shortly or relaunch the browser */
+    public recoveryHint?: string,
   ) {
     super(message);
     this.name = "BrowserConnectionError";
   }
 }
 
+export class NavigationDeniedError extends Error {
+  constructor(
+    message: string,
+    public url: string,
+    public reason: string,
+    public allowlist: string[],
+  ) {
+    super(message);
+    this.name = "NavigationDeniedError";
+  }
+}
+
+export class TabOwnershipError extends Error {
+  constructor(
+    message: string,
+    public tabId: string,
+  ) {
+    super(message);
+    this.name = "TabOwnershipError";
+  }
+}
+
 export class TabNotFoundError extends Error {
   constructor(
     message: string,
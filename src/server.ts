@@ -6,19 +6,162 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { z } from 'zod';
+import { basename } from 'node:path';
 import { useBrowserTools } from '@/core/browser-factory.js';
-import { BrowserType } from '@/interfaces/types.js';
-import { BrowserTools } from '@/interfaces/browser-tools.js';
+import { AccessibilityOptions, BreakpointCapture, BrowserType, BrowserConnectionError, CaptureOptions, EmulationOptions, FrameHTML, MediaEmulation, NavigationDeniedError, NavigationResult, PDFOptions, ResponsiveCaptureOptions, ScreencastOptions, ScreenshotResult, TabInfo, TabNotFoundError, TabQuery } from '@/interfaces/types.js';
+import { BrowserTools, BrowserToolsConfig } from '@/interfaces/browser-tools.js';
 import { serverLog } from '@/utils/logger.js';
-import { chromeLauncher } from '@/utils/chrome-launcher.js';
+import { getChromiumLauncher } from '@/utils/chrome-launcher.js';
+import { CHROMIUM_BROWSER_TYPES } from '@/utils/chromium-browsers.js';
+import { hasTabFilters } from '@/core/tab-query.js';
+import { formatHostPort, resolveDebugEndpoint } from '@/utils/debug-endpoint.js';
+import { DEVICE_PRESETS } from '@/core/device-presets.js';
+import { CaptureKind, CaptureStore, ChunkRequest, ChunkSummary, DEFAULT_CHUNK_TOKENS, MIN_CHUNK_TOKENS, estimateTokens } from '@/core/capture-store.js';
+
+const BROWSER_TYPES = [...CHROMIUM_BROWSER_TYPES, 'firefox', 'auto'] as const;
+
+/** Device emulation arguments shared by every capture tool */
+const EMULATION_ARGS = {
+  device: z.string().optional().describe(`Render the tab as this device for the capture: ${Object.keys(DEVICE_PRESETS).join(', ')}`),
+  viewport: z
+    .object({
+      width: z.number().int().positive().optional().describe('Viewport width in CSS pixels'),
+      height: z.number().int().positive().optional().describe('Viewport height in CSS pixels'),
+      deviceScaleFactor: z.number().positive().max(8).optional().describe('Device pixel ratio'),
+      mobile: z.boolean().optional().describe('Emulate a mobile browser'),
+      hasTouch: z.boolean().optional().describe('Report touch support'),
+      userAgent: z.string().optional().describe('User agent override'),
+    })
+    .optional()
+    .describe('Custom viewport settings for the capture; they override the device preset. The real window is restored afterwards'),
+  media: z
+    .object({
+      type: z.enum(['screen', 'print']).optional().describe('CSS media type; print applies the print stylesheets'),
+      colorScheme: z.enum(['light', 'dark']).optional().describe('prefers-color-scheme'),
+      reducedMotion: z.enum(['no-preference', 'reduce']).optional().describe('prefers-reduced-motion'),
+      forcedColors: z.enum(['none', 'active']).optional().describe('forced-colors'),
+    })
+    .optional()
+    .describe('Emulate a media type and media features (dark mode, print, reduced motion, forced colors) for this call only. Chromium-family browsers only'),
+};
+
+/** Token budget argument of tools whose results are chunked */
+const MAX_TOKENS_ARG = z
+  .number()
+  .int()
+  .min(MIN_CHUNK_TOKENS)
+  .max(100000)
+  .default(DEFAULT_CHUNK_TOKENS)
+  .describe(`Token budget of the whole response (default ${DEFAULT_CHUNK_TOKENS}). Larger results are kept on the server; the response holds what fits and a cursor per result for read_capture_chunk`);
+
+/**
+ * Combine the device, viewport and media tool arguments, or null when none is given
+ */
+function toEmulationOptions(
+  device: string | undefined,
+  viewport: Record<string, string | number | boolean | undefined> | undefined,
+  media: { [K in keyof MediaEmulation]?: MediaEmulation[K] | undefined } | undefined
+): EmulationOptions | null {
+  if (!device && !viewport && !media) {
+    return null;
+  }
+  const options: EmulationOptions = {};
+  if (device) {
+    options.device = device;
+  }
+  if (media) {
+    options.media = Object.fromEntries(
+      Object.entries(media).filter(([, value]) => value !== undefined)
+    ) as MediaEmulation;
+  }
+  for (const [key, value] of Object.entries(viewport ?? {})) {
+    if (value !== undefined) {
+      Object.assign(options, { [key]: value });
+    }
+  }
+  return options;
+}
+
+interface TabWindowGroup {
+  windowId: string | null;
+  windowState?: TabInfo['windowState'];
+  /** Whether this window holds the active tab */
+  active: boolean;
+  tabs: TabInfo[];
+}
+
+/**
+ * Group tabs by the window that contains them, windows with the active tab first
+ */
+function groupTabsByWindow(tabs: TabInfo[]): TabWindowGroup[] {
+  const groups = new Map<string | null, TabWindowGroup>();
+  for (const tab of tabs) {
+    const windowId = tab.windowId ?? null;
+    let group = groups.get(windowId);
+    if (!group) {
+      group = { windowId, active: false, tabs: [] };
+      if (tab.windowState) {
+        group.windowState = tab.windowState;
+      }
+      groups.set(windowId, group);
+    }
+    group.tabs.push(tab);
+    group.active ||= tab.active;
+  }
+  return [...groups.values()].sort((a, b) => Number(b.active) - Number(a.active));
+}
+
+/**
+ * Render grouped tabs as one line per tab: "* <id> <title> <url>"
+ * "*" marks the active tab and "+" the tabs the agent opened
+ */
+function formatTabsCompact(groups: TabWindowGroup[], browserType: BrowserType): string {
+  const count = groups.reduce((total, group) => total + group.tabs.length, 0);
+  const lines = [`${count} ${browserType} tab(s)`];
+  for (const group of groups) {
+    lines.push(`window ${group.windowId ?? 'unknown'}${group.windowState ? ` (${group.windowState})` : ''}`);
+    for (const tab of group.tabs) {
+      const marker = tab.active ? '*' : tab.agentOwned ? '+' : ' ';
+      lines.push(`${marker} ${tab.id} ${tab.title || '(untitled)'} ${tab.url}`);
+    }
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Screenshot metadata reported next to the image, without the image data
+ */
+function describeScreenshot(screenshot: ScreenshotResult): Omit<ScreenshotResult, 'data'> {
+  const { data: _data, ...metadata } = screenshot;
+  return metadata;
+}
+
+/**
+ * Pivot breakpoint captures into one row per selector, so a selector's
+ * position and size can be compared across widths at a glance
+ */
+function summarizeBreakpointLayout(captures: BreakpointCapture[]): Record<string, unknown>[] {
+  const selectors = captures[0]?.elements.map((element) => element.selector) ?? [];
+  return selectors.map((selector) => ({
+    selector,
+    // First match per width, null where the selector matches nothing
+    breakpoints: captures.map((capture) => {
+      const boxes = capture.elements.find((element) => element.selector === selector)?.boxes ?? [];
+      return { breakpoint: capture.width, matches: boxes.length, box: boxes[0] ?? null };
+    }),
+  }));
+}
 
 export class BrowserLensServer {
   private server: McpServer;
-  private browserTools: BrowserTools | null = null;
+  private browserTools: Map<BrowserType, BrowserTools> = new Map();
   private isShuttingDown: boolean = false;
   private chromeInitialized: boolean = false;
+  private config: BrowserToolsConfig;
+  private captureStore = new CaptureStore();
 
-  constructor() {
+  constructor(config: BrowserToolsConfig = {}) {
+    this.config = config;
     this.server = new McpServer(
       {
         name: 'mcp-browser-lens',
@@ -33,24 +176,75 @@ export class BrowserLensServer {
     this.setupShutdownHandlers();
   }
 
-  private async getBrowserTools(browserType?: BrowserType): Promise<BrowserTools> {
-    if (!this.browserTools) {
+  private async getBrowserTools(browserType: BrowserType = 'auto'): Promise<BrowserTools> {
+    let tools = this.browserTools.get(browserType);
+    if (!tools) {
       try {
-        serverLog.debug('Initializing browser tools...');
-        this.browserTools = await useBrowserTools(browserType);
+        serverLog.debug(`Initializing browser tools for ${browserType}...`);
+        tools = await useBrowserTools(browserType, this.config);
+        this.browserTools.set(browserType, tools);
         serverLog.success('Browser tools initialized successfully');
       } catch (error) {
         serverLog.error('Failed to initialize browser tools:', error);
         throw new Error(`Browser initialization failed: ${error instanceof Error ? error.message : String(error)}`);
       }
     }
-    return this.browserTools;
+    return tools;
+  }
+
+  /**
+   * Apply configuration changes made through tool arguments
+   * Cached browser tools are disconnected so the provider and the launcher
+   * always use the same endpoint. Agent tab ownership is kept per endpoint, so
+   * new providers for the same browser can still close the agent's tabs; tabs
+   * in a browser the server no longer points at are closed instead
+   */
+  private async updateConfig(changes: Partial<BrowserToolsConfig>): Promise<void> {
+    const previousConfig = this.config;
+    this.config = { ...this.config, ...changes };
+
+    for (const tools of this.browserTools.values()) {
+      if (this.endpointChanged(previousConfig, tools.getBrowserType())) {
+        try {
+          const closedTabs = await tools.closeAgentTabs();
+          if (closedTabs.length > 0) {
+            serverLog.info(`Closed ${closedTabs.length} agent tab(s) before switching ${tools.getBrowserType()} endpoints`);
+          }
+        } catch (error) {
+          serverLog.error('Failed to close agent tabs during reconfiguration:', error);
+        }
+      }
+      try {
+        await tools.disconnect();
+      } catch (error) {
+        serverLog.debug('Error disconnecting browser tools during reconfiguration:', error);
+      }
+    }
+    this.browserTools.clear();
+    this.chromeInitialized = false;
+    serverLog.debug('Browser configuration updated:', changes);
+  }
+
+  /**
+   * Whether a browser is reached at another debugging endpoint than under a previous configuration
+   */
+  private endpointChanged(previousConfig: BrowserToolsConfig, browserType: BrowserType): boolean {
+    try {
+      return formatHostPort(resolveDebugEndpoint(previousConfig, browserType)) !==
+        formatHostPort(resolveDebugEndpoint(this.config, browserType));
+    } catch {
+      return true;
+    }
   }
 
   /**
    * Check if Chrome debugging is initialized and throw helpful error if not
+   * Firefox is attached over WebDriver BiDi and does not need Chrome initialization
    */
-  private checkChromeInitialized(): void {
+  private checkChromeInitialized(browserType?: BrowserType): void {
+    if (browserType === 'firefox') {
+      return;
+    }
     if (!this.chromeInitialized) {
       throw new Error(
         'Chrome debugging not initialized. Please call the "initialize_chrome_debugging" tool first to enable browser automation.'
@@ -72,14 +266,91 @@ export class BrowserLensServer {
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       serverLog.error(`${operationName} failed:`, error);
-      
+
+      // Tell the model how to get the browser back instead of just failing
+      const recoveryHint = error instanceof BrowserConnectionError && error.recoveryHint
+        ? `\nRecovery: ${error.recoveryHint}`
+        : '';
+
       // Always return a structured error instead of throwing
-      throw new Error(`${operationName} failed: ${errorMessage}`);
+      throw new Error(`${operationName} failed: ${errorMessage}${recoveryHint}`);
     }
   }
 
 
 
+  /**
+   * Run captures with device emulation when the tool was given any
+   */
+  private async runWithEmulation<T>(
+    tools: BrowserTools,
+    tabId: string,
+    emulation: EmulationOptions | null,
+    operation: () => Promise<T>
+  ): Promise<T> {
+    return emulation ? tools.withEmulation(tabId, emulation, operation) : operation();
+  }
+
+  /**
+   * Chunk the parts of one response against a single token budget, in the
+   * order they are passed; once the budget is spent, parts are stored and
+   * sent by cursor only
+   */
+  private createPaginator(
+    tabId: string,
+    maxTokens: number
+  ): (content: string, kind: CaptureKind) => { content: string; chunk: ChunkSummary | null } {
+    let budget = maxTokens;
+    return (content, kind) => {
+      const page = this.captureStore.paginate(content, { tabId, kind }, budget);
+      budget -= estimateTokens(page.content);
+      return page;
+    };
+  }
+
+  /**
+   * Run a navigation and turn policy refusals into a structured response
+   * instead of an error, so the model can tell "not allowed" from "failed"
+   */
+  private async executeNavigation(
+    operation: () => Promise<NavigationResult>,
+    operationName: string
+  ) {
+    return await this.safeExecute(async () => {
+      try {
+        const result = await operation();
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify({ status: 'success', ...result, timestamp: Date.now() }, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        if (!(error instanceof NavigationDeniedError)) {
+          throw error;
+        }
+        serverLog.info(`${operationName} denied: ${error.reason}`);
+        return {
+          content: [
+            {
+              type: 'text' as const,
+              text: JSON.stringify({
+                status: 'denied',
+                url: error.url,
+                reason: error.reason,
+                allowlist: error.allowlist,
+                hint: 'Ask the user to add a matching pattern with --allow-navigation (e.g. "localhost:*") and restart the server.',
+                timestamp: Date.now()
+              }, null, 2),
+            },
+          ],
+        };
+      }
+    }, operationName);
+  }
+
   /**
    * Setup shutdown handlers for cleanup
    */
@@ -91,10 +362,18 @@ export class BrowserLensServer {
       serverLog.info(`Received ${signal}, initiating graceful shutdown...`);
       
       try {
-        // Disconnect browser tools
-        if (this.browserTools) {
-          await this.browserTools.disconnect();
-          serverLog.info('Browser tools disconnected');
+        // Close tabs the agent opened, then disconnect browser tools
+        for (const tools of this.browserTools.values()) {
+          try {
+            const closedTabs = await tools.closeAgentTabs();
+            if (closedTabs.length > 0) {
+              serverLog.info(`Closed ${closedTabs.length} agent tab(s) (${tools.getBrowserType()})`);
+            }
+          } catch (error) {
+            serverLog.error('Failed to close agent tabs:', error);
+          }
+          await tools.disconnect();
+          serverLog.info(`Browser tools disconnected (${tools.getBrowserType()})`);
         }
 
 
@@ -130,13 +409,33 @@ export class BrowserLensServer {
     // Initialize Chrome debugging for browser automation
     this.server.tool(
       'initialize_chrome_debugging',
-      'Start Chrome with debugging enabled for browser automation. Call this before using any browser tools.',
+      'Start Chrome (or another Chromium-family browser) with debugging enabled for browser automation. Call this before using any browser tools.',
       {
-        port: z.number().default(9222).describe('Port for Chrome debugging protocol'),
-        headless: z.boolean().default(false).describe('Run Chrome in headless mode'),
+        port: z.number().int().min(1).max(65535).optional().describe('Port for Chrome debugging protocol (defaults to the port the server was started with, usually 9222)'),
+        headless: z.boolean().optional().describe('Run Chrome in headless mode (defaults to the --headless start option)'),
+        browser: z
+          .enum(CHROMIUM_BROWSER_TYPES)
+          .default('chrome')
+          .describe('Chromium-family browser to launch: chrome, chromium, edge, brave or vivaldi'),
       },
-      async ({ port, headless }) => {
+      async ({ port, headless, browser }) => {
         return await this.safeExecute(async () => {
+          if (port !== undefined && port !== this.config.port) {
+            await this.updateConfig({ port });
+          }
+          if (headless !== undefined) {
+            this.config = { ...this.config, headless };
+          }
+
+          const launcher = getChromiumLauncher(browser);
+          launcher.configure(this.config);
+
+          // The browser may have been closed or crashed since it was initialized
+          if (this.chromeInitialized && !(await launcher.isChromeRunningWithDebugging())) {
+            serverLog.info('Browser is no longer reachable, initializing again');
+            this.chromeInitialized = false;
+          }
+
           if (this.chromeInitialized) {
             const message = 'Chrome debugging already initialized and running';
             serverLog.info(message);
@@ -147,7 +446,7 @@ export class BrowserLensServer {
                   text: JSON.stringify({
                     status: 'already_initialized',
                     message,
-                    port,
+                    port: this.config.port,
                     timestamp: Date.now()
                   }, null, 2),
                 },
@@ -155,7 +454,7 @@ export class BrowserLensServer {
             };
           }
 
-          const result = await chromeLauncher.ensureChromeDebugging();
+          const result = await launcher.ensureChromeDebugging();
           
           if (result.launched || result.wasRunning) {
             this.chromeInitialized = true;
@@ -175,7 +474,9 @@ export class BrowserLensServer {
                   text: JSON.stringify({
                     status: 'success',
                     message,
-                    port,
+                    browser,
+                    port: result.debugPort,
+                    headless: result.headless,
                     launched: result.launched,
                     wasRunning: result.wasRunning,
                     welcomePageOpened: result.welcomePageOpened,
@@ -196,28 +497,56 @@ export class BrowserLensServer {
     // List all open browser tabs
     this.server.tool(
       'list_tabs',
-      'List all open browser tabs across supported browsers',
+      'List open browser tabs grouped by window. The tab marked active is the one the user is looking at (focused, or visible when no browser window has focus); visible marks the selected tab of each window. With many tabs open, narrow the list with the filters and use compact output to save tokens.',
       {
         browserType: z
-          .enum(['chrome', 'auto'])
+          .enum(BROWSER_TYPES)
           .default('auto')
-          .describe('Browser type to target - Chrome with auto-launch and debugging'),
+          .describe('Browser type to target - Chromium-family browsers (chrome, chromium, edge, brave, vivaldi) or Firefox via WebDriver BiDi'),
+        urlGlob: z.string().optional().describe('Only tabs whose full URL matches this glob, e.g. "*github.com/*/pulls*" ("*" any characters, "?" one character)'),
+        titleContains: z.string().optional().describe('Only tabs whose title contains this text (case-insensitive)'),
+        origin: z.string().optional().describe('Only tabs on this exact origin, e.g. "https://github.com"'),
+        localhostOnly: z.boolean().optional().describe('Only tabs served from localhost, 127.0.0.1, [::1] or *.localhost'),
+        activeOnly: z.boolean().optional().describe('Only the active tab'),
+        compact: z.boolean().default(false).describe('Return one line per tab ("* id title url", "*" = active, "+" = opened by the agent) instead of JSON'),
       },
-      async ({ browserType }) => {
+      async ({ browserType, urlGlob, titleContains, origin, localhostOnly, activeOnly, compact }) => {
         return await this.safeExecute(async () => {
-          this.checkChromeInitialized();
+          this.checkChromeInitialized(browserType);
           const tools = await this.getBrowserTools(browserType);
-          const tabs = await tools.listTabs();
-          
+
+          const query: TabQuery = {};
+          if (urlGlob) query.urlGlob = urlGlob;
+          if (titleContains) query.titleContains = titleContains;
+          if (origin) query.origin = origin;
+          if (localhostOnly) query.localhostOnly = true;
+          if (activeOnly) query.activeOnly = true;
+
+          const tabs = await tools.listTabs(query);
+          const windows = groupTabsByWindow(tabs);
+
+          serverLog.info(`Listed ${tabs.length} tabs from ${tools.getBrowserType()}`);
+
+          if (compact) {
+            return {
+              content: [
+                {
+                  type: 'text' as const,
+                  text: formatTabsCompact(windows, tools.getBrowserType()),
+                },
+              ],
+            };
+          }
+
           const result = {
-            tabs: tabs,
+            windows,
+            activeTabId: tabs.find(tab => tab.active)?.id ?? null,
             browserType: tools.getBrowserType(),
             count: tabs.length,
+            ...(hasTabFilters(query) && { filters: query }),
             timestamp: Date.now()
           };
 
-          serverLog.info(`Listed ${tabs.length} tabs from ${tools.getBrowserType()}`);
-
           return {
             content: [
               {
@@ -246,121 +575,659 @@ export class BrowserLensServer {
     // Capture page content (HTML + CSS)
     this.server.tool(
       'capture_page_content',
-      'Extract HTML and CSS content from a browser tab. Note: This captures the content of the active tab. To capture content from a different tab, use set_active_tab first to make it active.',
+      'Extract HTML and CSS content from a browser tab, or the page as Markdown, plain text or readable main content (format). Note: This captures the content of the active tab. To capture content from a different tab, use set_active_tab first to make it active.',
       {
         tabId: z.string().describe('ID of the tab to extract content from'),
         browserType: z
-          .enum(['chrome', 'auto'])
+          .enum(BROWSER_TYPES)
           .default('auto')
-          .describe('Browser type that owns the tab - Chrome with auto-launch and debugging'),
+          .describe('Browser type that owns the tab - Chromium-family browsers (chrome, chromium, edge, brave, vivaldi) or Firefox via WebDriver BiDi'),
         includeHTML: z.boolean().default(true).describe('Include HTML content extraction'),
+        format: z
+          .enum(['html', 'markdown', 'text', 'readability'])
+          .default('html')
+          .describe('Page content format: html, markdown (headings, links, lists, tables, image alt text), text (visible text only) or readability (Markdown of the main content without navigation and boilerplate - best for summaries)'),
         includeCSS: z.boolean().default(false).describe('Include CSS styles extraction'),
         cssSelectors: z.array(z.string()).optional().describe('CSS selectors to extract styles for'),
+        cssMode: z
+          .enum(['computed', 'rules'])
+          .default('computed')
+          .describe('computed: computed styles of the first element per selector. rules: the stylesheet rules that match it in cascade order (winning rule first) with origin, file:line:column, specificity, @media/@layer and overridden declarations, plus inherited and pseudo-element rules - use this to find where a value comes from. rules is Chromium-family browsers only'),
         includeStyles: z.boolean().default(true).describe('Include inline styles in HTML'),
         includeScripts: z.boolean().default(false).describe('Include script tags in HTML'),
+        includeShadowRoots: z.boolean().default(false).describe('Write open shadow roots into the HTML as <template shadowrootmode> elements'),
+        includeFrames: z.boolean().default(false).describe('Also capture the HTML of every iframe, including cross-origin and out-of-process ones, returned in frames'),
         prettify: z.boolean().default(true).describe('Pretty format the output'),
+        maxTokens: MAX_TOKENS_ARG,
+        ...EMULATION_ARGS,
       },
-      async ({ tabId, browserType, includeHTML, includeCSS, cssSelectors, includeStyles, includeScripts, prettify }) => {
+      async ({ tabId, browserType, includeHTML, format, includeCSS, cssSelectors, cssMode, includeStyles, includeScripts, includeShadowRoots, includeFrames, prettify, maxTokens, device, viewport, media }) => {
         return await this.safeExecute(async () => {
-          this.checkChromeInitialized();
+          this.checkChromeInitialized(browserType);
           const tools = await this.getBrowserTools(browserType);
+          return await this.runWithEmulation(tools, tabId, toEmulationOptions(device, viewport, media), async () => {
           
-          serverLog.info(`Capturing page content from tab ${tabId}`, { includeHTML, includeCSS, selectorCount: cssSelectors?.length || 0 });
+            serverLog.info(`Capturing page content from tab ${tabId}`, { includeHTML, includeCSS, selectorCount: cssSelectors?.length || 0 });
+
+            let html = null;
+            let css = null;
+            let frames: FrameHTML[] | null = null;
 
-          let html = null;
-          let css = null;
+            // Capture HTML if requested
+            if (includeHTML) {
+              const htmlOptions = { format, includeStyles, includeScripts, includeShadowRoots, prettify };
+              if (includeFrames) {
+                // The main frame comes first, followed by its iframes
+                const [mainFrame, ...childFrames] = await tools.captureFrameHTML(tabId, htmlOptions);
+                html = mainFrame?.html ?? null;
+                frames = childFrames;
+              } else {
+                html = await tools.captureHTML(tabId, htmlOptions);
+              }
+            }
 
-          // Capture HTML if requested
-          if (includeHTML) {
-            const htmlOptions = { includeStyles, includeScripts, prettify };
-            html = await tools.captureHTML(tabId, htmlOptions);
+            // Capture CSS if requested
+            if (includeCSS && cssSelectors && cssSelectors.length > 0) {
+              const cssOptions = { selectors: cssSelectors, mode: cssMode, prettify };
+              css = await tools.captureCSS(tabId, cssOptions);
             
 
-          }
+            }
 
-          // Capture CSS if requested
-          if (includeCSS && cssSelectors && cssSelectors.length > 0) {
-            const cssOptions = { selectors: cssSelectors, prettify };
-            css = await tools.captureCSS(tabId, cssOptions);
-            
+            // Large results are kept on the server and sent one chunk at a time;
+            // the preview, page content, CSS and frames share one token budget
+            const htmlPreview = format === 'html' && html ? html.substring(0, 500) + (html.length > 500 ? '...' : '') : null;
+            const paginate = this.createPaginator(tabId, maxTokens - (htmlPreview ? estimateTokens(htmlPreview) : 0));
+            const htmlPage = html ? paginate(html, format) : null;
+            const cssPage = css ? paginate(css, 'css') : null;
+            const chunk = htmlPage?.content ?? null;
+            // Lengths are in UTF-8 bytes, like chunk offsets and cursors
+            const htmlBytes = html ? Buffer.byteLength(html) : 0;
 
-          }
+            // Markdown and text are compact already and come without the HTML preview
+            const pageContent = format === 'html'
+              ? {
+                html: chunk,
+                htmlLength: htmlBytes,
+                hasHTML: !!html,
+                htmlPreview,
+              }
+              : {
+                format,
+                content: chunk,
+                contentLength: htmlBytes,
+              };
 
-          const response = {
-            success: true,
-            tabId,
-            timestamp: Date.now(),
-            // Include the actual captured data for the model
-            html: html,
-            css: css,
-            htmlLength: html ? html.length : 0,
-            cssLength: css ? css.length : 0,
-            hasHTML: !!html,
-            hasCSS: !!css,
-            htmlPreview: html ? html.substring(0, 500) + (html.length > 500 ? '...' : '') : null
-          };
+            const response = {
+              success: true,
+              tabId,
+              timestamp: Date.now(),
+              // Include the actual captured data for the model
+              ...pageContent,
+              ...(htmlPage?.chunk && { chunked: htmlPage.chunk }),
+              css: cssPage?.content ?? null,
+              cssLength: css ? Buffer.byteLength(css) : 0,
+              hasCSS: !!css,
+              ...(cssPage?.chunk && { cssChunked: cssPage.chunk }),
+              ...(frames && {
+                frames: frames.map((frame) => {
+                  const page = frame.html ? paginate(frame.html, format) : null;
+                  return page?.chunk ? { ...frame, html: page.content, chunked: page.chunk } : frame;
+                }),
+                frameCount: frames.length,
+              }),
+            };
 
-          serverLog.success(`Page content captured from tab ${tabId}`);
+            serverLog.success(`Page content captured from tab ${tabId}`);
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(response, null, 2),
+                },
+              ],
+            };
+          });
+        }, 'Capture page content');
+      }
+    );
+
+    // Capture the accessibility tree
+    this.server.tool(
+      'capture_accessibility_tree',
+      'Capture the accessibility tree of a browser tab as an indented outline of roles, names, states and values - usually a better map of a page than its HTML. Every element gets a ref such as [ref=e123]; pass "ref=e123" to extract_elements, capture_screenshot or scroll_page instead of a CSS selector. Chromium-family browsers only.',
+      {
+        tabId: z.string().describe('ID of the tab to capture'),
+        browserType: z
+          .enum(BROWSER_TYPES)
+          .default('auto')
+          .describe('Browser type that owns the tab - Chromium-family browsers (chrome, chromium, edge, brave, vivaldi) or Firefox via WebDriver BiDi'),
+        selector: z.string().optional().describe('Only capture the subtree of the first element matching this CSS selector or ref'),
+        interestingOnly: z.boolean().default(true).describe('Leave out ignored nodes and unnamed generic containers, keeping their children'),
+        maxDepth: z.number().int().min(0).optional().describe('Deepest level of the tree to include'),
+        maxNodes: z.number().int().positive().optional().describe('Most nodes to include (default 2000)'),
+        maxTokens: MAX_TOKENS_ARG,
+        ...EMULATION_ARGS,
+      },
+      async ({ tabId, browserType, selector, interestingOnly, maxDepth, maxNodes, maxTokens, device, viewport, media }) => {
+        return await this.safeExecute(async () => {
+          this.checkChromeInitialized(browserType);
+          const tools = await this.getBrowserTools(browserType);
+          return await this.runWithEmulation(tools, tabId, toEmulationOptions(device, viewport, media), async () => {
+            const options: AccessibilityOptions = { interestingOnly };
+            if (selector !== undefined) {
+              options.selector = selector;
+            }
+            if (maxDepth !== undefined) {
+              options.maxDepth = maxDepth;
+            }
+            if (maxNodes !== undefined) {
+              options.maxNodes = maxNodes;
+            }
+
+            const snapshot = await tools.captureAccessibilityTree(tabId, options);
+            const page = this.captureStore.paginate(snapshot.tree, { tabId, kind: 'accessibility' }, maxTokens);
+            serverLog.success(`Accessibility tree captured from tab ${tabId} (${snapshot.nodeCount} nodes)`);
+
+            return {
+              content: [
+                {
+                  type: 'text' as const,
+                  text: page.content,
+                },
+                {
+                  type: 'text' as const,
+                  text: JSON.stringify({
+                    success: true,
+                    tabId,
+                    nodeCount: snapshot.nodeCount,
+                    truncated: snapshot.truncated,
+                    ...(page.chunk && { chunked: page.chunk }),
+                    timestamp: Date.now(),
+                  }, null, 2),
+                },
+              ],
+            };
+          });
+        }, 'Capture accessibility tree');
+      }
+    );
+
+    // Read the next chunk of a large capture
+    this.server.tool(
+      'read_capture_chunk',
+      'Read more of a capture that was too large for one response. capture_page_content and capture_accessibility_tree return the first chunk with a "chunked" object; pass its cursor here, then the cursor of each chunk until it is null. For HTML captures, pass captureId and a path from chunked.outline to read just that element subtree.',
+      {
+        cursor: z.string().optional().describe('Cursor from the previous chunk, e.g. "c1a2b3c4:40960-812345"'),
+        captureId: z.string().optional().describe('Capture to read when no cursor is given'),
+        offset: z.number().int().min(0).optional().describe('UTF-8 byte offset to read from, with captureId'),
+        path: z.string().optional().describe('Element path from the outline of an HTML capture, e.g. "html > body > div#app > main"; reads only that subtree'),
+        maxTokens: MAX_TOKENS_ARG,
+      },
+      async ({ cursor, captureId, offset, path, maxTokens }) => {
+        return await this.safeExecute(async () => {
+          const request: ChunkRequest = { maxTokens };
+          if (cursor !== undefined) {
+            request.cursor = cursor;
+          }
+          if (captureId !== undefined) {
+            request.captureId = captureId;
+          }
+          if (offset !== undefined) {
+            request.offset = offset;
+          }
+          if (path !== undefined) {
+            request.path = path;
+          }
+
+          const chunk = this.captureStore.read(request);
+          serverLog.debug(`Read chunk of capture ${chunk.captureId} at byte ${chunk.offset}`);
 
           return {
             content: [
               {
-                type: 'text',
-                text: JSON.stringify(response, null, 2),
+                type: 'text' as const,
+                text: chunk.content,
+              },
+              {
+                type: 'text' as const,
+                text: JSON.stringify({
+                  success: true,
+                  captureId: chunk.captureId,
+                  tabId: chunk.tabId,
+                  kind: chunk.kind,
+                  offset: chunk.offset,
+                  end: chunk.end,
+                  nextOffset: chunk.nextOffset,
+                  cursor: chunk.cursor,
+                  totalBytes: chunk.totalBytes,
+                  done: chunk.cursor === null,
+                }, null, 2),
               },
             ],
           };
-        }, 'Capture page content');
+        }, 'Read capture chunk');
       }
     );
 
     // Capture screenshot only
     this.server.tool(
       'capture_screenshot',
-      'Capture a screenshot of a browser tab. Note: This captures the content of the active tab. To screenshot a different tab, use set_active_tab first to make it active.',
+      'Capture a screenshot of a browser tab, or of specific elements by CSS selector. Note: This captures the content of the active tab. To screenshot a different tab, use set_active_tab first to make it active. Full-page captures of very tall pages are stitched from tiles into a PNG, with fixed and sticky headers shown only once.',
       {
         tabId: z.string().describe('ID of the tab to capture'),
         browserType: z
-          .enum(['chrome', 'auto'])
+          .enum(BROWSER_TYPES)
           .default('auto')
-          .describe('Browser type that owns the tab - Chrome with auto-launch and debugging'),
-        fullPage: z.boolean().default(false).describe('Capture full page or just viewport'),
+          .describe('Browser type that owns the tab - Chromium-family browsers (chrome, chromium, edge, brave, vivaldi) or Firefox via WebDriver BiDi'),
+        fullPage: z.boolean().default(false).describe('Capture the whole scrollable page or just the viewport'),
         format: z.enum(['png', 'jpeg', 'webp']).default('png').describe('Image format'),
         quality: z.number().min(0).max(100).optional().describe('Image quality for lossy formats'),
+        selectors: z.array(z.string()).optional().describe('Capture only the elements matching these CSS selectors (first match each), one image per selector; ">>>" pierces shadow roots and iframes, and refs from capture_accessibility_tree ("ref=e123") work too'),
+        padding: z.number().min(0).default(0).describe('Extra CSS pixels around each selected element'),
+        maxWidth: z.number().int().positive().optional().describe('Downscale images wider than this many pixels'),
+        maxHeight: z.number().int().positive().optional().describe('Downscale images taller than this many pixels'),
+        maxBytes: z.number().int().positive().optional().describe('Byte budget per image, counted on the base64 data; JPEG, lower quality and lower resolution are tried until it fits'),
+        annotate: z.boolean().default(false).describe('Draw numbered boxes over the visible links, buttons, inputs and ARIA widgets and return a legend mapping each number to a selector, bounding box and accessible name (viewport only)'),
+        maxMarks: z.number().int().positive().optional().describe('Most elements to number when annotating (default 100)'),
+        ...EMULATION_ARGS,
       },
-      async ({ tabId, browserType, fullPage, format, quality }) => {
+      async ({ tabId, browserType, fullPage, format, quality, selectors, padding, maxWidth, maxHeight, maxBytes, annotate, maxMarks, device, viewport, media }) => {
         return await this.safeExecute(async () => {
-          this.checkChromeInitialized();
+          this.checkChromeInitialized(browserType);
           const tools = await this.getBrowserTools(browserType);
-          const options: any = { format, fullPage };
+          return await this.runWithEmulation(tools, tabId, toEmulationOptions(device, viewport, media), async () => {
+            const options: CaptureOptions = { format, fullPage };
+            if (quality !== undefined) {
+              options.quality = quality;
+            }
+            if (maxWidth !== undefined) {
+              options.maxWidth = maxWidth;
+            }
+            if (maxHeight !== undefined) {
+              options.maxHeight = maxHeight;
+            }
+            if (maxBytes !== undefined) {
+              options.maxBytes = maxBytes;
+            }
+
+            if (annotate) {
+              const { screenshot, marks } = await tools.captureAnnotatedScreenshot(tabId, {
+                ...options,
+                ...(maxMarks !== undefined && { maxMarks }),
+              });
+
+              serverLog.info(`Captured annotated screenshot of tab ${tabId} with ${marks.length} marks`);
+
+              return {
+                content: [
+                  {
+                    type: 'image',
+                    data: screenshot.data,
+                    mimeType: `image/${screenshot.format}`
+                  },
+                  {
+                    type: 'text',
+                    text: JSON.stringify({
+                      success: true,
+                      tabId: tabId,
+                      ...describeScreenshot(screenshot),
+                      // Boxes are viewport CSS pixels; multiply by scale * devicePixelRatio for image pixels
+                      marks,
+                      timestamp: Date.now()
+                    }, null, 2),
+                  },
+                ],
+              };
+            }
+
+            if (selectors && selectors.length > 0) {
+              const images: { type: 'image'; data: string; mimeType: string }[] = [];
+              const elements: Record<string, unknown>[] = [];
+
+              for (const selector of selectors) {
+                try {
+                  const screenshot = await tools.captureScreenshotDetailed(tabId, { ...options, selector, padding });
+                  images.push({ type: 'image', data: screenshot.data, mimeType: `image/${screenshot.format}` });
+                  elements.push({ selector, image: images.length, ...describeScreenshot(screenshot) });
+                } catch (error) {
+                  // One missing element should not cost the other captures
+                  if (error instanceof TabNotFoundError || error instanceof BrowserConnectionError) {
+                    throw error;
+                  }
+                  elements.push({ selector, error: error instanceof Error ? error.message : String(error) });
+                }
+              }
+
+              serverLog.info(`Captured ${images.length} of ${selectors.length} elements from tab ${tabId}`);
+
+              return {
+                content: [
+                  ...images,
+                  {
+                    type: 'text',
+                    text: JSON.stringify({
+                      success: images.length > 0,
+                      tabId: tabId,
+                      elements,
+                      timestamp: Date.now()
+                    }, null, 2),
+                  },
+                ],
+              };
+            }
+
+            const screenshot = await tools.captureScreenshotDetailed(tabId, options);
+
+            return {
+              content: [
+                {
+                  type: 'image',
+                  data: screenshot.data,
+                  mimeType: `image/${screenshot.format}`
+                },
+                {
+                  type: 'text',
+                  text: JSON.stringify({
+                    success: true,
+                    tabId: tabId,
+                    ...describeScreenshot(screenshot),
+                    timestamp: Date.now()
+                  }, null, 2),
+                },
+              ],
+            };
+          });
+        }, 'Capture screenshot');
+      }
+    );
+
+
+
+    // Capture the same tab at several viewport widths
+    this.server.tool(
+      'capture_responsive',
+      'Capture a browser tab at a list of viewport widths (responsive breakpoints), one screenshot per width, optionally with the bounding boxes of CSS selectors at each width so layout changes between breakpoints are easy to spot. The tab\'s own viewport is restored afterwards.',
+      {
+        tabId: z.string().describe('ID of the tab to capture'),
+        browserType: z
+          .enum(BROWSER_TYPES)
+          .default('auto')
+          .describe('Browser type that owns the tab - Chromium-family browsers (chrome, chromium, edge, brave, vivaldi) or Firefox via WebDriver BiDi'),
+        widths: z.array(z.number().int().positive().max(16384)).min(1).max(12).default([320, 768, 1024, 1440]).describe('Viewport widths in CSS pixels, captured in this order'),
+        height: z.number().int().positive().optional().describe('Viewport height in CSS pixels for every width; the current height is kept if omitted'),
+        selectors: z.array(z.string()).optional().describe('CSS selectors whose bounding boxes (document CSS pixels, up to 10 matches each) are reported at every width'),
+        fullPage: z.boolean().default(false).describe('Capture the whole scrollable page at each width or just the viewport'),
+        format: z.enum(['png', 'jpeg', 'webp']).default('png').describe('Image format'),
+        quality: z.number().min(0).max(100).optional().describe('Image quality for lossy formats'),
+        maxWidth: z.number().int().positive().optional().describe('Downscale images wider than this many pixels'),
+        maxHeight: z.number().int().positive().optional().describe('Downscale images taller than this many pixels'),
+        maxBytes: z.number().int().positive().optional().describe('Byte budget per image, counted on the base64 data; JPEG, lower quality and lower resolution are tried until it fits'),
+        ...EMULATION_ARGS,
+      },
+      async ({ tabId, browserType, widths, height, selectors, fullPage, format, quality, maxWidth, maxHeight, maxBytes, device, viewport, media }) => {
+        return await this.safeExecute(async () => {
+          this.checkChromeInitialized(browserType);
+          const tools = await this.getBrowserTools(browserType);
+
+          const options: ResponsiveCaptureOptions = { widths, format, fullPage };
+          const emulation = toEmulationOptions(device, viewport, media);
+          if (emulation) {
+            options.emulation = emulation;
+          }
+          if (height !== undefined) {
+            options.height = height;
+          }
+          if (selectors && selectors.length > 0) {
+            options.selectors = selectors;
+          }
           if (quality !== undefined) {
             options.quality = quality;
           }
-          const screenshot = await tools.captureScreenshot(tabId, options);
+          if (maxWidth !== undefined) {
+            options.maxWidth = maxWidth;
+          }
+          if (maxHeight !== undefined) {
+            options.maxHeight = maxHeight;
+          }
+          if (maxBytes !== undefined) {
+            options.maxBytes = maxBytes;
+          }
+
+          const captures = await tools.captureResponsive(tabId, options);
+
+          serverLog.info(`Captured tab ${tabId} at ${captures.length} breakpoints`);
 
           return {
             content: [
+              ...captures.map((capture) => ({
+                type: 'image' as const,
+                data: capture.screenshot.data,
+                mimeType: `image/${capture.screenshot.format}`
+              })),
               {
-                type: 'image',
-                data: screenshot,
-                mimeType: `image/${format}`
+                type: 'text',
+                text: JSON.stringify({
+                  success: true,
+                  tabId: tabId,
+                  breakpoints: captures.map((capture, index) => ({
+                    breakpoint: capture.width,
+                    image: index + 1,
+                    ...describeScreenshot(capture.screenshot),
+                  })),
+                  ...(options.selectors && { layout: summarizeBreakpointLayout(captures) }),
+                  timestamp: Date.now()
+                }, null, 2),
               },
+            ],
+          };
+        }, 'Capture responsive');
+      }
+    );
+
+    // Print a tab to PDF
+    this.server.tool(
+      'capture_pdf',
+      'Print a browser tab to PDF, as the print dialog would (print stylesheets apply). Supports paper size, margins, background graphics, page ranges and header/footer templates. The PDF is returned as an embedded resource. Device, viewport and media emulation do not apply: the paper size sets the layout and print media is always used.',
+      {
+        tabId: z.string().describe('ID of the tab to print'),
+        browserType: z
+          .enum(BROWSER_TYPES)
+          .default('auto')
+          .describe('Browser type that owns the tab - Chromium-family browsers (chrome, chromium, edge, brave, vivaldi) or Firefox via WebDriver BiDi'),
+        paperFormat: z.enum(['letter', 'legal', 'tabloid', 'a3', 'a4', 'a5']).default('letter').describe('Paper size'),
+        paperWidth: z.number().positive().optional().describe('Custom paper width in inches; overrides paperFormat together with paperHeight'),
+        paperHeight: z.number().positive().optional().describe('Custom paper height in inches'),
+        landscape: z.boolean().default(false).describe('Landscape orientation'),
+        margin: z
+          .object({
+            top: z.number().min(0).optional(),
+            right: z.number().min(0).optional(),
+            bottom: z.number().min(0).optional(),
+            left: z.number().min(0).optional(),
+          })
+          .optional()
+          .describe('Page margins in inches (0.4 on every side by default); headers and footers are drawn inside the top and bottom margins'),
+        printBackground: z.boolean().default(false).describe('Print background colors and images'),
+        scale: z.number().min(0.1).max(2).default(1).describe('Rendering scale'),
+        pageRanges: z.string().optional().describe('Pages to print, e.g. "1-5, 8, 11-13"; all pages by default'),
+        headerTemplate: z.string().optional().describe('HTML for the page header; elements with class date, title, url, pageNumber or totalPages get those values, e.g. <div style="font-size:9px;width:100%;text-align:center"><span class="title"></span></div>. Chromium-family browsers only'),
+        footerTemplate: z.string().optional().describe('HTML for the page footer, with the same classes as headerTemplate, e.g. <div style="font-size:9px;width:100%;text-align:center"><span class="pageNumber"></span> / <span class="totalPages"></span></div>'),
+        preferCSSPageSize: z.boolean().default(false).describe('Use the page size from CSS @page rules instead of the paper size'),
+      },
+      async ({ tabId, browserType, paperFormat, paperWidth, paperHeight, landscape, margin, printBackground, scale, pageRanges, headerTemplate, footerTemplate, preferCSSPageSize }) => {
+        return await this.safeExecute(async () => {
+          this.checkChromeInitialized(browserType);
+          const tools = await this.getBrowserTools(browserType);
+
+          const options: PDFOptions = { paperFormat, landscape, printBackground, scale, preferCSSPageSize };
+          if (paperWidth !== undefined) {
+            options.paperWidth = paperWidth;
+          }
+          if (paperHeight !== undefined) {
+            options.paperHeight = paperHeight;
+          }
+          if (margin) {
+            options.margin = Object.fromEntries(
+              Object.entries(margin).filter(([, value]) => value !== undefined)
+            );
+          }
+          if (pageRanges !== undefined) {
+            options.pageRanges = pageRanges;
+          }
+          if (headerTemplate !== undefined) {
+            options.headerTemplate = headerTemplate;
+          }
+          if (footerTemplate !== undefined) {
+            options.footerTemplate = footerTemplate;
+          }
+
+          const pdf = await tools.capturePDF(tabId, options);
+          const timestamp = Date.now();
+
+          serverLog.info(`Printed tab ${tabId} to PDF (${pdf.bytes} bytes)`);
+
+          return {
+            content: [
+              {
+                type: 'resource',
+                resource: {
+                  uri: `browser-lens://tabs/${encodeURIComponent(tabId)}/pdf/${timestamp}.pdf`,
+                  mimeType: 'application/pdf',
+                  blob: pdf.data,
+                },
+              },
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: true,
+                  tabId: tabId,
+                  bytes: pdf.bytes,
+                  pageCount: pdf.pageCount ?? null,
+                  settings: pdf.settings,
+                  timestamp
+                }, null, 2),
+              },
+            ],
+          };
+        }, 'Capture PDF');
+      }
+    );
+
+    // Record a short screencast of a tab
+    this.server.tool(
+      'capture_screencast',
+      'Record a browser tab for a few seconds to show animations, transitions, spinners or carousels. Returns a filmstrip of the distinct key frames (identical frames are dropped, so static periods cost nothing) and optionally an animated PNG. Only the visible tab of a window renders frames; use set_active_tab first.',
+      {
+        tabId: z.string().describe('ID of the tab to record'),
+        browserType: z
+          .enum(BROWSER_TYPES)
+          .default('auto')
+          .describe('Browser type that owns the tab - Chromium-family browsers (chrome, chromium, edge, brave, vivaldi) or Firefox via WebDriver BiDi'),
+        durationMs: z.number().int().positive().max(30000).default(3000).describe('How long to record, in milliseconds'),
+        maxFrames: z.number().int().positive().max(60).default(12).describe('Stop once this many distinct frames are kept'),
+        frameRate: z.number().positive().max(30).default(4).describe('Frames sampled per second; the frame on screen at each sample is kept if it changed'),
+        maxWidth: z.number().int().positive().default(800).describe('Largest frame width in pixels'),
+        maxHeight: z.number().int().positive().optional().describe('Largest frame height in pixels'),
+        minChange: z.number().min(0).max(0.99).default(0).describe('Share of pixels (0-1) that must change for a frame to count as new, e.g. 0.01 to ignore a blinking caret'),
+        animate: z.boolean().default(false).describe('Also return the kept frames as an animated PNG with their real timing'),
+        ...EMULATION_ARGS,
+      },
+      async ({ tabId, browserType, durationMs, maxFrames, frameRate, maxWidth, maxHeight, minChange, animate, device, viewport, media }) => {
+        return await this.safeExecute(async () => {
+          this.checkChromeInitialized(browserType);
+          const tools = await this.getBrowserTools(browserType);
+
+          const options: ScreencastOptions = { durationMs, maxFrames, frameRate, maxWidth, minChange, animate };
+          if (maxHeight !== undefined) {
+            options.maxHeight = maxHeight;
+          }
+
+          const screencast = await this.runWithEmulation(tools, tabId, toEmulationOptions(device, viewport, media), () =>
+            tools.captureScreencast(tabId, options)
+          );
+          const { frames, animation, ...summary } = screencast;
+
+          serverLog.info(`Recorded ${frames.length} distinct frames from tab ${tabId} in ${screencast.recordedMs}ms`);
+
+          return {
+            content: [
+              ...frames.map((frame) => ({
+                type: 'image' as const,
+                data: frame.data,
+                mimeType: 'image/png'
+              })),
+              ...(animation
+                ? [{ type: 'image' as const, data: animation.data, mimeType: 'image/png' }]
+                : []),
               {
                 type: 'text',
                 text: JSON.stringify({
                   success: true,
                   tabId: tabId,
-                  format: format,
+                  ...summary,
+                  frames: frames.map(({ data: _data, ...frame }, index) => ({ image: index + 1, ...frame })),
+                  ...(animation && {
+                    animation: { image: frames.length + 1, width: animation.width, height: animation.height, bytes: animation.bytes },
+                  }),
                   timestamp: Date.now()
                 }, null, 2),
               },
             ],
           };
-        }, 'Capture screenshot');
+        }, 'Capture screencast');
       }
     );
 
+    // Save an offline copy of a tab
+    this.server.tool(
+      'capture_archive',
+      'Save an offline copy of a browser tab that keeps its images, fonts and stylesheets: an MHTML snapshot, or a self-contained single HTML file with every resource inlined. The file is written to the output directory and returned as a resource link, e.g. to attach to a bug report.',
+      {
+        tabId: z.string().describe('ID of the tab to archive'),
+        browserType: z
+          .enum(BROWSER_TYPES)
+          .default('auto')
+          .describe('Browser type that owns the tab - Chromium-family browsers (chrome, chromium, edge, brave, vivaldi) or Firefox via WebDriver BiDi'),
+        format: z.enum(['mhtml', 'html']).default('mhtml').describe('mhtml opens in Chromium-family browsers; html is a single file with resources inlined as data: URLs that opens anywhere'),
+        ...EMULATION_ARGS,
+      },
+      async ({ tabId, browserType, format, device, viewport, media }) => {
+        return await this.safeExecute(async () => {
+          this.checkChromeInitialized(browserType);
+          const tools = await this.getBrowserTools(browserType);
+
+          const archive = await this.runWithEmulation(tools, tabId, toEmulationOptions(device, viewport, media), () =>
+            tools.captureArchive(tabId, { format })
+          );
 
+          serverLog.info(`Archived tab ${tabId} to ${archive.path}`);
+
+          return {
+            content: [
+              {
+                type: 'resource_link',
+                uri: archive.uri,
+                name: basename(archive.path),
+                title: archive.title || archive.url,
+                mimeType: archive.mimeType,
+                description: `${format === 'html' ? 'Single-file HTML' : 'MHTML'} snapshot of ${archive.url}`,
+              },
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: true,
+                  tabId: tabId,
+                  ...archive,
+                  timestamp: Date.now()
+                }, null, 2),
+              },
+            ],
+          };
+        }, 'Capture archive');
+      }
+    );
 
     // Set active tab
     this.server.tool(
@@ -369,13 +1236,13 @@ export class BrowserLensServer {
       {
         tabId: z.string().describe('ID of the tab to set as active'),
         browserType: z
-          .enum(['chrome', 'auto'])
+          .enum(BROWSER_TYPES)
           .default('auto')
-          .describe('Browser type that owns the tab - Chrome with auto-launch and debugging'),
+          .describe('Browser type that owns the tab - Chromium-family browsers (chrome, chromium, edge, brave, vivaldi) or Firefox via WebDriver BiDi'),
       },
       async ({ tabId, browserType }) => {
         return await this.safeExecute(async () => {
-          this.checkChromeInitialized();
+          this.checkChromeInitialized(browserType);
           const tools = await this.getBrowserTools(browserType);
           await tools.setActiveTab(tabId);
 
@@ -396,41 +1263,165 @@ export class BrowserLensServer {
       }
     );
 
-    // Extract elements from a tab
+    // Navigate a tab to an allowlisted URL
     this.server.tool(
-      'extract_elements',
-      'Extract detailed information about elements using CSS selectors. Note: This extracts elements from the active tab. To extract from a different tab, use set_active_tab first to make it active.',
+      'navigate_tab',
+      'Navigate an existing tab to a URL. Only URLs matching the user-configured navigation allowlist are loaded; others return status "denied".',
       {
-        tabId: z.string().describe('ID of the tab to extract elements from'),
-        selectors: z.array(z.string()).describe('CSS selectors for elements to extract'),
+        tabId: z.string().describe('ID of the tab to navigate'),
+        url: z.string().describe('Absolute URL to load, e.g. http://localhost:3000/'),
         browserType: z
-          .enum(['chrome', 'auto'])
+          .enum(BROWSER_TYPES)
           .default('auto')
-          .describe('Browser type that owns the tab - Chrome with auto-launch and debugging'),
+          .describe('Browser type that owns the tab - Chromium-family browsers (chrome, chromium, edge, brave, vivaldi) or Firefox via WebDriver BiDi'),
+        waitUntil: z.enum(['load', 'domcontentloaded', 'none']).default('load').describe('Page event to wait for before returning'),
       },
-      async ({ tabId, selectors, browserType }) => {
-        return await this.safeExecute(async () => {
-          this.checkChromeInitialized();
+      async ({ tabId, url, browserType, waitUntil }) => {
+        return await this.executeNavigation(async () => {
+          this.checkChromeInitialized(browserType);
+          const tools = await this.getBrowserTools(browserType);
+          return await tools.navigateTab(tabId, url, { waitUntil });
+        }, 'Navigate tab');
+      }
+    );
+
+    // Open a new tab, optionally at an allowlisted URL
+    this.server.tool(
+      'open_tab',
+      'Open a new agent-owned browser tab, blank or at a URL matching the user-configured navigation allowlist. Close it with close_tab when done; agent tabs are also closed when the server shuts down.',
+      {
+        url: z.string().optional().describe('Absolute URL to load; omit for a blank tab'),
+        browserType: z
+          .enum(BROWSER_TYPES)
+          .default('auto')
+          .describe('Browser type to open the tab in - Chromium-family browsers (chrome, chromium, edge, brave, vivaldi) or Firefox via WebDriver BiDi'),
+        waitUntil: z.enum(['load', 'domcontentloaded', 'none']).default('load').describe('Page event to wait for before returning'),
+      },
+      async ({ url, browserType, waitUntil }) => {
+        return await this.executeNavigation(async () => {
+          this.checkChromeInitialized(browserType);
+          const tools = await this.getBrowserTools(browserType);
+          return await tools.openTab(url, { waitUntil });
+        }, 'Open tab');
+      }
+    );
+
+    // Duplicate a tab into a new agent-owned tab
+    this.server.tool(
+      'duplicate_tab',
+      'Open a copy of a tab in a new agent-owned tab, e.g. to experiment without touching the user\'s tab. The tab URL must match the navigation allowlist.',
+      {
+        tabId: z.string().describe('ID of the tab to duplicate'),
+        browserType: z
+          .enum(BROWSER_TYPES)
+          .default('auto')
+          .describe('Browser type that owns the tab - Chromium-family browsers (chrome, chromium, edge, brave, vivaldi) or Firefox via WebDriver BiDi'),
+        waitUntil: z.enum(['load', 'domcontentloaded', 'none']).default('load').describe('Page event to wait for before returning'),
+      },
+      async ({ tabId, browserType, waitUntil }) => {
+        return await this.executeNavigation(async () => {
+          this.checkChromeInitialized(browserType);
           const tools = await this.getBrowserTools(browserType);
-          const elements = await tools.extractElements(tabId, selectors);
+          return await tools.duplicateTab(tabId, { waitUntil });
+        }, 'Duplicate tab');
+      }
+    );
 
-          serverLog.info(`Extracted ${elements.length} elements from tab ${tabId} using ${selectors.length} selectors`);
+    // Close an agent-owned tab
+    this.server.tool(
+      'close_tab',
+      'Close a tab opened by the agent with open_tab or duplicate_tab. Tabs opened by the user cannot be closed.',
+      {
+        tabId: z.string().describe('ID of the agent-owned tab to close'),
+        browserType: z
+          .enum(BROWSER_TYPES)
+          .default('auto')
+          .describe('Browser type that owns the tab - Chromium-family browsers (chrome, chromium, edge, brave, vivaldi) or Firefox via WebDriver BiDi'),
+      },
+      async ({ tabId, browserType }) => {
+        return await this.safeExecute(async () => {
+          this.checkChromeInitialized(browserType);
+          const tools = await this.getBrowserTools(browserType);
+          await tools.closeTab(tabId);
 
           return {
             content: [
               {
-                type: 'text',
+                type: 'text' as const,
                 text: JSON.stringify({
                   success: true,
                   tabId,
-                  selectors,
-                  elements, // Full element data for the model
-                  found: elements.length,
+                  closed: true,
                   timestamp: Date.now()
                 }, null, 2),
               },
             ],
           };
+        }, 'Close tab');
+      }
+    );
+
+    // Reload a tab whose URL is allowlisted
+    this.server.tool(
+      'reload_tab',
+      'Reload a tab, e.g. after changing the code of a local dev server. The current URL must match the navigation allowlist.',
+      {
+        tabId: z.string().describe('ID of the tab to reload'),
+        browserType: z
+          .enum(BROWSER_TYPES)
+          .default('auto')
+          .describe('Browser type that owns the tab - Chromium-family browsers (chrome, chromium, edge, brave, vivaldi) or Firefox via WebDriver BiDi'),
+        ignoreCache: z.boolean().default(false).describe('Bypass the browser cache (hard reload)'),
+        waitUntil: z.enum(['load', 'domcontentloaded', 'none']).default('load').describe('Page event to wait for before returning'),
+      },
+      async ({ tabId, browserType, ignoreCache, waitUntil }) => {
+        return await this.executeNavigation(async () => {
+          this.checkChromeInitialized(browserType);
+          const tools = await this.getBrowserTools(browserType);
+          return await tools.reloadTab(tabId, { ignoreCache, waitUntil });
+        }, 'Reload tab');
+      }
+    );
+
+    // Extract elements from a tab
+    this.server.tool(
+      'extract_elements',
+      'Extract detailed information about elements using CSS selectors. Note: This extracts elements from the active tab. To extract from a different tab, use set_active_tab first to make it active.',
+      {
+        tabId: z.string().describe('ID of the tab to extract elements from'),
+        selectors: z.array(z.string()).describe('CSS selectors for elements to extract; use ">>>" to pierce shadow roots and iframes, e.g. "my-card >>> button", or refs from capture_accessibility_tree such as "ref=e123"'),
+        includeFrames: z.boolean().default(false).describe('Search every iframe too, including cross-origin and out-of-process ones; elements report their frameId and frameUrl'),
+        browserType: z
+          .enum(BROWSER_TYPES)
+          .default('auto')
+          .describe('Browser type that owns the tab - Chromium-family browsers (chrome, chromium, edge, brave, vivaldi) or Firefox via WebDriver BiDi'),
+        ...EMULATION_ARGS,
+      },
+      async ({ tabId, selectors, includeFrames, browserType, device, viewport, media }) => {
+        return await this.safeExecute(async () => {
+          this.checkChromeInitialized(browserType);
+          const tools = await this.getBrowserTools(browserType);
+          return await this.runWithEmulation(tools, tabId, toEmulationOptions(device, viewport, media), async () => {
+            const elements = await tools.extractElements(tabId, selectors, { includeFrames });
+
+            serverLog.info(`Extracted ${elements.length} elements from tab ${tabId} using ${selectors.length} selectors`);
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify({
+                    success: true,
+                    tabId,
+                    selectors,
+                    elements, // Full element data for the model
+                    found: elements.length,
+                    timestamp: Date.now()
+                  }, null, 2),
+                },
+              ],
+            };
+          });
         }, 'Extract elements');
       }
     );
@@ -448,16 +1439,16 @@ export class BrowserLensServer {
           ),
         x: z.number().optional().describe('X coordinate or offset (for pixels/coordinates scrolling)'),
         y: z.number().optional().describe('Y coordinate or offset (for pixels/coordinates/viewport scrolling)'),
-        selector: z.string().optional().describe('CSS selector for element scrolling (required for element type)'),
+        selector: z.string().optional().describe('CSS selector or capture_accessibility_tree ref ("ref=e123") for element scrolling (required for element type)'),
         smooth: z.boolean().default(true).describe('Use smooth scrolling animation'),
         browserType: z
-          .enum(['chrome', 'auto'])
+          .enum(BROWSER_TYPES)
           .default('auto')
-          .describe('Browser type that owns the tab - Chrome with auto-launch and debugging'),
+          .describe('Browser type that owns the tab - Chromium-family browsers (chrome, chromium, edge, brave, vivaldi) or Firefox via WebDriver BiDi'),
       },
       async ({ tabId, scrollType, x, y, selector, smooth, browserType }) => {
         return await this.safeExecute(async () => {
-          this.checkChromeInitialized();
+          this.checkChromeInitialized(browserType);
           const tools = await this.getBrowserTools(browserType);
           
           // Build options object with only defined values
@@ -486,13 +1477,13 @@ export class BrowserLensServer {
       'Get capabilities of available browsers',
       {
         browserType: z
-          .enum(['chrome', 'auto'])
+          .enum(BROWSER_TYPES)
           .default('auto')
-          .describe('Browser type to check - Chrome with auto-launch and debugging'),
+          .describe('Browser type to check - Chromium-family browsers (chrome, chromium, edge, brave, vivaldi) or Firefox via WebDriver BiDi'),
       },
       async ({ browserType }) => {
         return await this.safeExecute(async () => {
-          this.checkChromeInitialized();
+          this.checkChromeInitialized(browserType);
           const tools = await this.getBrowserTools(browserType);
           const capabilities = tools.getCapabilities();
 
@@ -503,6 +1494,7 @@ export class BrowserLensServer {
                 text: JSON.stringify({
                   browserType: tools.getBrowserType(),
                   capabilities: capabilities,
+                  sessionPool: tools.getSessionPoolStats(),
                   timestamp: Date.now()
                 }, null, 2),
               },
@@ -530,6 +1522,6 @@ export class BrowserLensServer {
 }
 
 // Export the server instance
-export async function createBrowserLensServer(): Promise<BrowserLensServer> {
-  return new BrowserLensServer();
+export async function createBrowserLensServer(config: BrowserToolsConfig = {}): Promise<BrowserLensServer> {
+  return new BrowserLensServer(config);
 }
\ No newline at end of file
@@ -4,23 +4,28 @@
  */
 
 declare module 'chrome-remote-interface' {
-  interface CDPOptions {
-    port?: number;
-    host?: string;
-    tab?: string;
-    secure?: boolean;
-    target?: any;
-  }
+  namespace CDP {
+    interface CDPOptions {
+      port?: number;
+      host?: string;
+      tab?: string;
+      secure?: boolean;
+      target?: any;
+    }
 
-  interface CDPClient {
-    Page: any;
-    Runtime: any;
-    DOM: any;
-    close(): Promise<void>;
-    [key: string]: any;
+    interface CDPClient {
+      Page: any;
+      Runtime: any;
+      DOM: any;
+      send(method: string, params?: object, sessionId?: string): Promise<any>;
+      on(event: string, handler: (...args: any[]) => void): this;
+      removeListener(event: string, handler: (...args: any[]) => void): this;
+      close(): Promise<void>;
+      [key: string]: any;
+    }
   }
 
-  function CDP(options?: CDPOptions): Promise<CDPClient>;
+  function CDP(options?: CDP.CDPOptions): Promise<CDP.CDPClient>;
 
   export = CDP;
-}
\ No newline at end of file
+}
@@ -0,0 +1,204 @@
+/**
+ * Minimal WebDriver BiDi client
+ * Sends BiDi commands over a WebSocket and routes responses and events
+ */
+
+import { EventEmitter } from "events";
+import WebSocket from "ws";
+
+export interface BiDiStatus {
+  /** Whether the endpoint accepts a new session */
+  ready: boolean;
+  /** Implementation-defined status message */
+  message: string;
+}
+
+interface BiDiMessage {
+  type: "success" | "error" | "event";
+  id?: number;
+  method?: string;
+  params?: unknown;
+  result?: unknown;
+  error?: string;
+  message?: string;
+}
+
+interface PendingCommand {
+  resolve: (value: any) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+export class BiDiClient extends EventEmitter {
+  private socket: WebSocket | null = null;
+  private nextCommandId: number = 1;
+  private pending: Map<number, PendingCommand> = new Map();
+
+  constructor(
+    private readonly url: string,
+    private readonly commandTimeout: number = 30000,
+  ) {
+    super();
+  }
+
+  /**
+   * Open the WebSocket connection to the BiDi endpoint
+   * @returns Promise that resolves once the socket is open
+   */
+  async connect(): Promise<void> {
+    if (this.socket) {
+      return;
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      const socket = new WebSocket(this.url, {
+        handshakeTimeout: this.commandTimeout,
+      });
+
+      socket.once("open", () => {
+        this.socket = socket;
+        resolve();
+      });
+      socket.once("error", (error) => {
+        reject(error);
+      });
+      socket.on("message", (data: WebSocket.RawData) => {
+        const raw = Array.isArray(data) ? Buffer.concat(data) : Buffer.from(data);
+        this.handleMessage(raw.toString("utf8"));
+      });
+      socket.on("close", () => {
+        this.socket = null;
+        this.rejectAllPending(new Error("BiDi connection closed"));
+        this.emit("disconnect");
+      });
+    });
+  }
+
+  /**
+   * Send a BiDi command and wait for its result
+   * @param method - BiDi method name (e.g., 'browsingContext.getTree')
+   * @param params - Command parameters
+   * @returns Promise resolving to the command result
+   * @throws Error if the command fails, times out or the socket is closed
+   */
+  async send<T = any>(
+    method: string,
+    params: Record<string, unknown> = {},
+  ): Promise<T> {
+    const socket = this.socket;
+    if (!socket) {
+      throw new Error(`Cannot send ${method}: BiDi connection is not open`);
+    }
+
+    const id = this.nextCommandId++;
+
+    return new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(
+          new Error(`BiDi command ${method} timed out after ${this.commandTimeout}ms`),
+        );
+      }, this.commandTimeout);
+
+      this.pending.set(id, { resolve, reject, timer });
+      socket.send(JSON.stringify({ id, method, params }), (error) => {
+        if (error) {
+          clearTimeout(timer);
+          this.pending.delete(id);
+          reject(error);
+        }
+      });
+    });
+  }
+
+  /**
+   * Close the WebSocket connection
+   */
+  async close(): Promise<void> {
+    const socket = this.socket;
+    if (!socket) {
+      return;
+    }
+
+    await new Promise<void>((resolve) => {
+      socket.once("close", () => resolve());
+      socket.close();
+    });
+  }
+
+  /**
+   * Whether the socket is currently open
+   */
+  get isOpen(): boolean {
+    return this.socket !== null;
+  }
+
+  /**
+   * Route an incoming message to its pending command or emit it as an event
+   */
+  private handleMessage(raw: string): void {
+    let message: BiDiMessage;
+    try {
+      message = JSON.parse(raw) as BiDiMessage;
+    } catch {
+      return;
+    }
+
+    if (message.type === "event") {
+      if (message.method) {
+        this.emit(message.method, message.params);
+      }
+      return;
+    }
+
+    if (message.id === undefined) {
+      return;
+    }
+
+    const pending = this.pending.get(message.id);
+    if (!pending) {
+      return;
+    }
+
+    clearTimeout(pending.timer);
+    this.pending.delete(message.id);
+
+    if (message.type === "error") {
+      pending.reject(new Error(`${message.error}: ${message.message}`));
+    } else {
+      pending.resolve(message.result);
+    }
+  }
+
+  /**
+   * Reject every in-flight command, used when the socket closes
+   */
+  private rejectAllPending(error: Error): void {
+    for (const pending of this.pending.values()) {
+      clearTimeout(pending.timer);
+      pending.reject(error);
+    }
+    this.pending.clear();
+  }
+}
+
+/**
+ * Query session.status on a BiDi endpoint without creating a session
+ * @param url - WebSocket URL of the BiDi endpoint (e.g., ws://localhost:9222/session)
+ * @param timeoutMs - Connection and command timeout in milliseconds
+ * @returns Promise resolving to the endpoint status, or null if it is not a BiDi endpoint
+ */
+export async function getBiDiStatus(
+  url: string,
+  timeoutMs: number = 3000,
+): Promise<BiDiStatus | null> {
+  const client = new BiDiClient(url, timeoutMs);
+  try {
+    await client.connect();
+    return await client.send<BiDiStatus>("session.status");
+  } catch {
+    return null;
+  } finally {
+    await client.close();
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * Capture files
+ * Writes captures that are too large to return inline (archives, recordings)
+ * to the configured output directory
+ */
+
+import { mkdir, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join, resolve } from "node:path";
+
+/** Directory used when no output directory is configured */
+export const DEFAULT_OUTPUT_DIRECTORY = join(tmpdir(), "mcp-browser-lens");
+
+/**
+ * Build a file name from the page URL and the current time, e.g.
+ * "example.com-2026-01-31T12-00-00-000Z.mhtml"
+ * @param url - URL of the captured page
+ * @param extension - File extension without the dot
+ * @returns File name that is safe on every platform
+ */
+export function buildCaptureFileName(url: string, extension: string): string {
+  let host = "";
+  try {
+    host = new URL(url).hostname;
+  } catch {
+    // Not a URL, e.g. an empty snapshot location
+  }
+  const stem = host.replace(/[^a-z0-9.-]+/gi, "_") || "tab";
+  const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+  return `${stem}-${timestamp}.${extension}`;
+}
+
+/**
+ * Write a capture to the output directory, creating the directory if needed
+ * @param directory - Output directory, or undefined for the default
+ * @param fileName - Name of the file to write
+ * @param content - File content
+ * @returns Absolute path of the written file
+ */
+export async function writeCaptureFile(
+  directory: string | undefined,
+  fileName: string,
+  content: string | Buffer,
+): Promise<string> {
+  const target = resolve(directory ?? DEFAULT_OUTPUT_DIRECTORY);
+  await mkdir(target, { recursive: true });
+  const path = join(target, fileName);
+  await writeFile(path, content);
+  return path;
+}
@@ -0,0 +1,317 @@
+/**
+ * CDP session pool
+ * Keeps one flat-mode session per page target on a single browser-level
+ * connection so provider methods reuse it instead of reconnecting per call
+ */
+
+import type CDP from "chrome-remote-interface";
+import { type SessionPoolStats } from "@/interfaces/types.js";
+import { chromeLog } from "@/utils/logger.js";
+
+/** Domains enabled once on every new session */
+const DEFAULT_DOMAINS = ["Page", "Runtime", "DOM"];
+
+/**
+ * A CDP session attached to one target
+ * Commands are sent over the shared browser connection with the session id
+ */
+export class CDPSession {
+  constructor(
+    private readonly client: CDP.CDPClient,
+    readonly targetId: string,
+    readonly sessionId: string,
+    private readonly onInvalidated: (targetId: string) => void,
+  ) {}
+
+  /**
+   * Send a CDP command to this session's target
+   * @param method - CDP method name (e.g., 'Runtime.evaluate')
+   * @param params - Command parameters
+   * @returns Promise resolving to the command result
+   */
+  async send<T = any>(
+    method: string,
+    params: Record<string, unknown> = {},
+  ): Promise<T> {
+    try {
+      return (await this.client.send(method, params, this.sessionId)) as T;
+    } catch (error) {
+      // The target went away without us seeing the event; let the next call re-attach
+      if (
+        error instanceof Error &&
+        /session with given id not found|No target with given id/i.test(
+          error.message,
+        )
+      ) {
+        this.onInvalidated(this.targetId);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Subscribe to a CDP event of this session's target
+   * @param event - CDP event name (e.g., 'Page.loadEventFired')
+   * @param handler - Event handler
+   * @returns Function that removes the handler
+   */
+  on(event: string, handler: (params: any) => void): () => void {
+    const scopedEvent = `${event}.${this.sessionId}`;
+    this.client.on(scopedEvent, handler);
+    return () => {
+      this.client.removeListener(scopedEvent, handler);
+    };
+  }
+
+  /**
+   * Attach to the out-of-process iframes of this session's target
+   * Auto-attach stays on until detachChildFrames is called
+   * @returns Sessions of the iframe targets, with the parent frame ID when known
+   */
+  async attachChildFrames(): Promise<ChildFrameSession[]> {
+    const children: ChildFrameSession[] = [];
+    const others: string[] = [];
+    // Already existing targets are reported before setAutoAttach returns
+    const unsubscribe = this.on(
+      "Target.attachedToTarget",
+      (params: {
+        sessionId: string;
+        targetInfo: { targetId: string; type: string; parentFrameId?: string };
+      }) => {
+        if (params.targetInfo.type !== "iframe") {
+          others.push(params.sessionId);
+          return;
+        }
+        const child: ChildFrameSession = {
+          session: new CDPSession(
+            this.client,
+            params.targetInfo.targetId,
+            params.sessionId,
+            () => undefined,
+          ),
+        };
+        if (params.targetInfo.parentFrameId) {
+          child.parentFrameId = params.targetInfo.parentFrameId;
+        }
+        children.push(child);
+      },
+    );
+
+    try {
+      await this.send("Target.setAutoAttach", {
+        autoAttach: true,
+        waitForDebuggerOnStart: false,
+        flatten: true,
+      });
+    } finally {
+      unsubscribe();
+    }
+
+    // Workers and other non-frame targets are not needed
+    for (const sessionId of others) {
+      await this.send("Target.detachFromTarget", { sessionId }).catch(
+        () => undefined,
+      );
+    }
+    return children;
+  }
+
+  /**
+   * Detach the sessions returned by attachChildFrames and stop auto-attaching
+   * @param children - Child frame sessions to detach
+   */
+  async detachChildFrames(children: ChildFrameSession[]): Promise<void> {
+    for (const { session } of children) {
+      await this.send("Target.detachFromTarget", {
+        sessionId: session.sessionId,
+      }).catch(() => undefined);
+    }
+    await this.send("Target.setAutoAttach", {
+      autoAttach: false,
+      waitForDebuggerOnStart: false,
+      flatten: true,
+    }).catch(() => undefined);
+  }
+}
+
+/**
+ * Session of an out-of-process iframe attached through its parent's session
+ */
+export interface ChildFrameSession {
+  session: CDPSession;
+  /** Frame of the parent target that embeds the iframe */
+  parentFrameId?: string;
+}
+
+export class CDPSessionPool {
+  private sessions: Map<string, CDPSession> = new Map();
+  private pendingAttachments: Map<string, Promise<CDPSession>> = new Map();
+  private hits: number = 0;
+  private misses: number = 0;
+  private evictions: number = 0;
+  private totalAttachMs: number = 0;
+  private totalAcquireMs: number = 0;
+  private started: boolean = false;
+
+  constructor(
+    private readonly client: CDP.CDPClient,
+    private readonly domains: string[] = DEFAULT_DOMAINS,
+  ) {}
+
+  /**
+   * Start tracking target lifecycle so sessions of closed tabs are dropped
+   * @returns Promise that resolves once target discovery is enabled
+   */
+  async start(): Promise<void> {
+    if (this.started) {
+      return;
+    }
+
+    this.client.on("Target.targetDestroyed", (params: { targetId: string }) => {
+      this.evict(params.targetId, "destroyed");
+    });
+    this.client.on("Target.targetCrashed", (params: { targetId: string }) => {
+      this.evict(params.targetId, "crashed");
+    });
+    this.client.on(
+      "Target.detachedFromTarget",
+      (params: { sessionId: string; targetId?: string }) => {
+        for (const session of this.sessions.values()) {
+          if (session.sessionId === params.sessionId) {
+            this.evict(session.targetId, "detached");
+            return;
+          }
+        }
+      },
+    );
+
+    await this.client.send("Target.setDiscoverTargets", { discover: true });
+    this.started = true;
+  }
+
+  /**
+   * Get the session for a target, attaching a new one on first use
+   * Concurrent callers for the same target share one attachment
+   * @param targetId - Target (tab) ID
+   * @returns Promise resolving to the attached session
+   * @throws Error if the target does not exist or cannot be attached
+   */
+  async acquire(targetId: string): Promise<CDPSession> {
+    const startTime = Date.now();
+
+    const existing = this.sessions.get(targetId);
+    if (existing) {
+      this.hits++;
+      this.totalAcquireMs += Date.now() - startTime;
+      return existing;
+    }
+
+    let pending = this.pendingAttachments.get(targetId);
+    if (!pending) {
+      this.misses++;
+      pending = this.attach(targetId).finally(() => {
+        this.pendingAttachments.delete(targetId);
+      });
+      this.pendingAttachments.set(targetId, pending);
+    } else {
+      this.hits++;
+    }
+
+    const session = await pending;
+    this.totalAcquireMs += Date.now() - startTime;
+    return session;
+  }
+
+  /**
+   * Detach and forget the session of a target, if any
+   * @param targetId - Target (tab) ID
+   */
+  async release(targetId: string): Promise<void> {
+    const session = this.sessions.get(targetId);
+    if (!session) {
+      return;
+    }
+
+    this.sessions.delete(targetId);
+    try {
+      await this.client.send("Target.detachFromTarget", {
+        sessionId: session.sessionId,
+      });
+    } catch (error) {
+      chromeLog.debug(`Error detaching session for target ${targetId}:`, error);
+    }
+  }
+
+  /**
+   * Detach every session
+   * @returns Promise that resolves when all sessions are detached
+   */
+  async closeAll(): Promise<void> {
+    const targetIds = [...this.sessions.keys()];
+    await Promise.all(targetIds.map((targetId) => this.release(targetId)));
+  }
+
+  /**
+   * Get pool statistics
+   * @returns Hit/miss counters and attach latency
+   */
+  getStats(): SessionPoolStats {
+    const requests = this.hits + this.misses;
+    return {
+      activeSessions: this.sessions.size,
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+      averageAttachMs:
+        this.misses > 0 ? Math.round(this.totalAttachMs / this.misses) : 0,
+      averageAcquireMs:
+        requests > 0 ? Math.round(this.totalAcquireMs / requests) : 0,
+    };
+  }
+
+  /**
+   * Attach a flat-mode session to a target and enable the default domains
+   */
+  private async attach(targetId: string): Promise<CDPSession> {
+    const startTime = Date.now();
+    chromeLog.debug(`Attaching CDP session to target ${targetId}...`);
+
+    const { sessionId } = (await this.client.send("Target.attachToTarget", {
+      targetId,
+      flatten: true,
+    })) as { sessionId: string };
+
+    const session = new CDPSession(this.client, targetId, sessionId, (id) =>
+      this.evict(id, "invalidated"),
+    );
+
+    try {
+      for (const domain of this.domains) {
+        await session.send(`${domain}.enable`);
+      }
+    } catch (error) {
+      await this.client
+        .send("Target.detachFromTarget", { sessionId })
+        .catch(() => undefined);
+      throw error;
+    }
+
+    this.sessions.set(targetId, session);
+    const elapsed = Date.now() - startTime;
+    this.totalAttachMs += elapsed;
+    chromeLog.debug(
+      `CDP session ${sessionId} attached to target ${targetId} in ${elapsed}ms`,
+    );
+    return session;
+  }
+
+  /**
+   * Drop a session whose target is gone
+   */
+  private evict(targetId: string, reason: string): void {
+    if (this.sessions.delete(targetId)) {
+      this.evictions++;
+      chromeLog.debug(`Dropped CDP session for target ${targetId} (${reason})`);
+    }
+  }
+}
@@ -1,23 +1,40 @@
 /**
  * Chrome Auto-Launch Utility
  * Handles Chrome browser detection, launching, and welcome page setup for MCP Browser Lens
+ * Works for every Chromium-family browser in the browser registry
  * Uses embedded HTML for better distribution compatibility
  */
 
 import { spawn } from "child_process";
-import fs from "fs";
+import { type BrowserToolsConfig } from "@/interfaces/browser-tools.js";
+import { type ChromiumBrowserType } from "@/interfaces/types.js";
 import { serverLog } from "@/utils/logger.js";
+import {
+  type DebugEndpoint,
+  formatHostPort,
+  getHttpUrl,
+  isLocalEndpoint,
+  resolveDebugEndpoint,
+} from "@/utils/debug-endpoint.js";
+import {
+  CHROMIUM_BROWSERS,
+  findChromiumExecutable,
+  getChromiumExecutableCandidates,
+} from "@/utils/chromium-browsers.js";
 
 export interface ChromeLaunchResult {
   wasRunning: boolean;
   launched: boolean;
   debugPort: number;
+  headless: boolean;
   welcomePageOpened: boolean;
   error?: string;
 }
 
 export class ChromeLauncher {
-  private readonly debugPort: number = 9222;
+  private endpoint: DebugEndpoint;
+  private headless: boolean = false;
+  private readonly browserType: ChromiumBrowserType;
   
   // Embedded welcome HTML for distribution compatibility - Clean developer docs style
   private readonly welcomeHTML = `<!DOCTYPE html>
@@ -268,8 +285,26 @@ export class ChromeLauncher {
 </body>
 </html>`;
 
-  constructor() {
+  constructor(browserType: ChromiumBrowserType = "chrome") {
     // No file paths needed - using embedded HTML
+    this.browserType = browserType;
+    this.endpoint = resolveDebugEndpoint({}, browserType);
+  }
+
+  /**
+   * Point the launcher at the debug endpoint and launch mode from configuration
+   * @param config - Browser tools configuration with host, port or WebSocket URL and headless flag
+   */
+  configure(config: BrowserToolsConfig): void {
+    this.endpoint = resolveDebugEndpoint(config, this.browserType);
+    this.headless = config.headless ?? false;
+  }
+
+  /**
+   * Display name of the browser this launcher starts
+   */
+  private get displayName(): string {
+    return CHROMIUM_BROWSERS[this.browserType].displayName;
   }
 
   /**
@@ -278,7 +313,7 @@ export class ChromeLauncher {
    */
   async isChromeRunningWithDebugging(): Promise<boolean> {
     try {
-      const response = await fetch(`http://localhost:${this.debugPort}/json/version`, {
+      const response = await fetch(getHttpUrl(this.endpoint, "/json/version"), {
         signal: AbortSignal.timeout(3000),
       });
       
@@ -296,66 +331,39 @@ export class ChromeLauncher {
 
   /**
    * Get Chrome executable path for current platform
-   * @returns Promise<string> Path to Chrome executable
+   * @returns Promise<string> Path to the browser executable
    */
   private async getChromeExecutablePath(): Promise<string> {
-    const platform = process.platform;
-    let possiblePaths: string[] = [];
-
-    switch (platform) {
-      case "darwin": // macOS
-        possiblePaths = [
-          "/Applications/Google Chrome.app/Contents/MacOS/Google Chrome",
-          "/Applications/Chrome.app/Contents/MacOS/Chrome",
-          "/usr/local/bin/google-chrome",
-          "/opt/homebrew/bin/google-chrome",
-        ];
-        break;
-      
-      case "win32": // Windows
-        possiblePaths = [
-          "C:\\Program Files\\Google\\Chrome\\Application\\chrome.exe",
-          "C:\\Program Files (x86)\\Google\\Chrome\\Application\\chrome.exe",
-        ];
-        break;
-      
-      default: // Linux and others
-        possiblePaths = [
-          "/usr/bin/google-chrome",
-          "/usr/bin/google-chrome-stable",
-          "/usr/bin/chromium-browser",
-        ];
-        break;
+    const executablePath = findChromiumExecutable(this.browserType);
+    if (executablePath) {
+      serverLog.debug(`Found ${this.displayName} at: ${executablePath}`);
+      return executablePath;
     }
 
-    for (const chromePath of possiblePaths) {
-      try {
-        if (fs.existsSync(chromePath)) {
-          serverLog.debug(`Found Chrome at: ${chromePath}`);
-          return chromePath;
-        }
-      } catch (error) {
-        // Continue to next path
-      }
-    }
-
-    throw new Error(`Chrome executable not found for ${platform}. Please install Google Chrome.`);
+    serverLog.debug(
+      `${this.displayName} not found in: ${getChromiumExecutableCandidates(this.browserType).join(", ")}`,
+    );
+    throw new Error(
+      `${this.displayName} executable not found for ${process.platform}. Please install ${this.displayName}.`,
+    );
   }
 
   /**
-   * Get platform-appropriate clean profile path for Chrome debugging
+   * Get platform-appropriate clean profile path for browser debugging
+   * Each Chromium-family browser gets its own profile directory
    * @returns string Path to temporary profile directory
    */
   private getCleanProfilePath(): string {
     const platform = process.platform;
-    
+    const profileDirName = CHROMIUM_BROWSERS[this.browserType].profileDirName;
+
     switch (platform) {
       case "win32": // Windows
-        return `${process.env.TEMP || 'C:\\tmp'}\\chrome-debug-profile`;
-      
+        return `${process.env.TEMP ?? 'C:\\tmp'}\\${profileDirName}`;
+
       case "darwin": // macOS
       default: // Linux and others
-        return "/tmp/chrome-debug-profile";
+        return `/tmp/${profileDirName}`;
     }
   }
 
@@ -377,7 +385,8 @@ export class ChromeLauncher {
     const result: ChromeLaunchResult = {
       wasRunning: false,
       launched: false,
-      debugPort: this.debugPort,
+      debugPort: this.endpoint.port,
+      headless: this.headless,
       welcomePageOpened: false,
     };
 
@@ -386,7 +395,7 @@ export class ChromeLauncher {
       result.wasRunning = await this.isChromeRunningWithDebugging();
       
       if (result.wasRunning) {
-        serverLog.success("Chrome already running with debugging enabled");
+        serverLog.success("Browser already running with debugging enabled");
         
         // Try to open welcome page in existing Chrome instance
         try {
@@ -400,13 +409,21 @@ export class ChromeLauncher {
         return result;
       }
 
+      // A browser on another host or behind a tunnel cannot be started from here
+      if (!isLocalEndpoint(this.endpoint)) {
+        throw new Error(
+          `No browser is reachable at ${formatHostPort(this.endpoint)}. ` +
+            `Remote browsers must be started with --remote-debugging-port and --remote-debugging-address on their host.`,
+        );
+      }
+
       // Get Chrome executable path
       const chromePath = await this.getChromeExecutablePath();
       const welcomeUrl = this.getWelcomePageUrl();
 
       // Chrome launch arguments
       const chromeArgs = [
-        `--remote-debugging-port=${this.debugPort}`,
+        `--remote-debugging-port=${this.endpoint.port}`,
         "--disable-features=VizDisplayCompositor",
         "--disable-backgrounding-occluded-windows",
         "--disable-renderer-backgrounding",
@@ -415,10 +432,16 @@ export class ChromeLauncher {
         "--no-first-run",
         "--no-default-browser-check",
         `--user-data-dir=${this.getCleanProfilePath()}`, // Use clean profile for debugging
-        welcomeUrl, // Open clean welcome page directly (now a data URI)
       ];
 
-      serverLog.debug(`Launching Chrome with args: ${chromeArgs.join(" ")}`);
+      if (this.headless) {
+        // New headless mode shares the full browser implementation (same rendering as headed)
+        chromeArgs.push("--headless=new", "--hide-scrollbars", "--mute-audio");
+      }
+
+      chromeArgs.push(welcomeUrl); // Open clean welcome page directly (now a data URI)
+
+      serverLog.debug(`Launching ${this.displayName} with args: ${chromeArgs.join(" ")}`);
 
       // Launch Chrome as detached process
       const chromeProcess = spawn(chromePath, chromeArgs, {
@@ -429,7 +452,7 @@ export class ChromeLauncher {
       // Detach the process so it continues running after our script ends
       chromeProcess.unref();
 
-      serverLog.debug(`Chrome process launched with PID: ${chromeProcess.pid}`);
+      serverLog.debug(`${this.displayName} process launched with PID: ${chromeProcess.pid}`);
 
       // Wait for Chrome to start and debugging to become available
       const maxWaitTime = 10000; // 10 seconds
@@ -443,18 +466,20 @@ export class ChromeLauncher {
         if (await this.isChromeRunningWithDebugging()) {
           result.launched = true;
           result.welcomePageOpened = true; // Welcome page opened with Chrome
-          serverLog.success(`Chrome launched successfully with debugging on port ${this.debugPort}`);
+          serverLog.success(
+            `${this.displayName} launched successfully${this.headless ? " (headless)" : ""} with debugging on port ${this.endpoint.port}`,
+          );
           serverLog.success("Welcome page opened automatically");
           return result;
         }
       }
 
-      throw new Error(`Chrome failed to start with debugging within ${maxWaitTime}ms`);
+      throw new Error(`${this.displayName} failed to start with debugging within ${maxWaitTime}ms`);
 
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       result.error = errorMessage;
-      serverLog.error("Failed to launch Chrome:", errorMessage);
+      serverLog.error(`Failed to launch ${this.displayName}:`, errorMessage);
       return result;
     }
   }
@@ -468,7 +493,7 @@ export class ChromeLauncher {
       const welcomeUrl = this.getWelcomePageUrl();
       
       // Create a new tab with welcome page
-      const response = await fetch(`http://localhost:${this.debugPort}/json/new?${encodeURIComponent(welcomeUrl)}`, {
+      const response = await fetch(getHttpUrl(this.endpoint, `/json/new?${encodeURIComponent(welcomeUrl)}`), {
         method: "GET",
         signal: AbortSignal.timeout(5000),
       });
@@ -488,10 +513,14 @@ export class ChromeLauncher {
   /**
    * Ensure Chrome is available for MCP operations
    * This is the main entry point for server startup
+   * @param config - Optional configuration with the debug endpoint to use
    * @returns Promise<ChromeLaunchResult>
    */
-  async ensureChromeDebugging(): Promise<ChromeLaunchResult> {
-    serverLog.debug("Ensuring Chrome debugging availability...");
+  async ensureChromeDebugging(config?: BrowserToolsConfig): Promise<ChromeLaunchResult> {
+    if (config) {
+      this.configure(config);
+    }
+    serverLog.debug(`Ensuring ${this.displayName} debugging availability...`);
     
     const result = await this.launchChromeWithDebugging();
     
@@ -506,4 +535,24 @@ export class ChromeLauncher {
 }
 
 // Export singleton instance
-export const chromeLauncher = new ChromeLauncher();
\ No newline at end of file
+export const chromeLauncher = new ChromeLauncher();
+
+const launchers = new Map<ChromiumBrowserType, ChromeLauncher>([
+  ["chrome", chromeLauncher],
+]);
+
+/**
+ * Get the launcher for a Chromium-family browser
+ * @param browserType - Browser to launch
+ * @returns Shared launcher instance for that browser
+ */
+export function getChromiumLauncher(
+  browserType: ChromiumBrowserType,
+): ChromeLauncher {
+  let launcher = launchers.get(browserType);
+  if (!launcher) {
+    launcher = new ChromeLauncher(browserType);
+    launchers.set(browserType, launcher);
+  }
+  return launcher;
+}
\ No newline at end of file
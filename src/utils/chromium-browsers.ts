@@ -0,0 +1,217 @@
+/**
+ * Chromium-family browser registry
+ * Executable locations, profile directories and /json/version identification
+ * for every browser that speaks the Chrome DevTools Protocol
+ */
+
+import fs from "fs";
+import { type ChromiumBrowserType } from "@/interfaces/types.js";
+
+export interface ChromiumBrowserDefinition {
+  /** Human readable browser name */
+  displayName: string;
+  /** Executable locations to check, per platform */
+  executablePaths: {
+    darwin: string[];
+    win32: string[];
+    linux: string[];
+  };
+  /** Process names used by this browser */
+  processNames: string[];
+  /** Directory name of the clean debugging profile */
+  profileDirName: string;
+}
+
+const LOCAL_APP_DATA = process.env.LOCALAPPDATA ?? "C:\\Users\\Default\\AppData\\Local";
+
+export const CHROMIUM_BROWSERS: Record<
+  ChromiumBrowserType,
+  ChromiumBrowserDefinition
+> = {
+  chrome: {
+    displayName: "Google Chrome",
+    executablePaths: {
+      darwin: [
+        "/Applications/Google Chrome.app/Contents/MacOS/Google Chrome",
+        "/Applications/Chrome.app/Contents/MacOS/Chrome",
+        "/usr/local/bin/google-chrome",
+        "/opt/homebrew/bin/google-chrome",
+      ],
+      win32: [
+        "C:\\Program Files\\Google\\Chrome\\Application\\chrome.exe",
+        "C:\\Program Files (x86)\\Google\\Chrome\\Application\\chrome.exe",
+      ],
+      linux: [
+        "/usr/bin/google-chrome",
+        "/usr/bin/google-chrome-stable",
+        "/usr/bin/chromium-browser",
+      ],
+    },
+    processNames: ["Google Chrome", "chrome", "chrome.exe", "google-chrome"],
+    profileDirName: "chrome-debug-profile",
+  },
+  chromium: {
+    displayName: "Chromium",
+    executablePaths: {
+      darwin: [
+        "/Applications/Chromium.app/Contents/MacOS/Chromium",
+        "/opt/homebrew/bin/chromium",
+      ],
+      win32: [`${LOCAL_APP_DATA}\\Chromium\\Application\\chrome.exe`],
+      linux: [
+        "/usr/bin/chromium",
+        "/usr/bin/chromium-browser",
+        "/snap/bin/chromium",
+      ],
+    },
+    processNames: ["Chromium", "chromium", "chromium-browser"],
+    profileDirName: "chromium-debug-profile",
+  },
+  edge: {
+    displayName: "Microsoft Edge",
+    executablePaths: {
+      darwin: ["/Applications/Microsoft Edge.app/Contents/MacOS/Microsoft Edge"],
+      win32: [
+        "C:\\Program Files (x86)\\Microsoft\\Edge\\Application\\msedge.exe",
+        "C:\\Program Files\\Microsoft\\Edge\\Application\\msedge.exe",
+      ],
+      linux: [
+        "/usr/bin/microsoft-edge",
+        "/usr/bin/microsoft-edge-stable",
+        "/opt/microsoft/msedge/msedge",
+      ],
+    },
+    processNames: ["Microsoft Edge", "msedge", "msedge.exe", "microsoft-edge"],
+    profileDirName: "edge-debug-profile",
+  },
+  brave: {
+    displayName: "Brave Browser",
+    executablePaths: {
+      darwin: ["/Applications/Brave Browser.app/Contents/MacOS/Brave Browser"],
+      win32: [
+        "C:\\Program Files\\BraveSoftware\\Brave-Browser\\Application\\brave.exe",
+        "C:\\Program Files (x86)\\BraveSoftware\\Brave-Browser\\Application\\brave.exe",
+      ],
+      linux: [
+        "/usr/bin/brave-browser",
+        "/usr/bin/brave",
+        "/opt/brave.com/brave/brave",
+        "/snap/bin/brave",
+      ],
+    },
+    processNames: ["Brave Browser", "brave", "brave.exe", "brave-browser"],
+    profileDirName: "brave-debug-profile",
+  },
+  vivaldi: {
+    displayName: "Vivaldi",
+    executablePaths: {
+      darwin: ["/Applications/Vivaldi.app/Contents/MacOS/Vivaldi"],
+      win32: [
+        `${LOCAL_APP_DATA}\\Vivaldi\\Application\\vivaldi.exe`,
+        "C:\\Program Files\\Vivaldi\\Application\\vivaldi.exe",
+      ],
+      linux: ["/usr/bin/vivaldi", "/usr/bin/vivaldi-stable", "/opt/vivaldi/vivaldi"],
+    },
+    processNames: ["Vivaldi", "vivaldi", "vivaldi.exe", "vivaldi-bin"],
+    profileDirName: "vivaldi-debug-profile",
+  },
+};
+
+// Typed as non-empty so the list can back enum schemas
+export const CHROMIUM_BROWSER_TYPES = Object.keys(CHROMIUM_BROWSERS) as [
+  ChromiumBrowserType,
+  ...ChromiumBrowserType[],
+];
+
+/**
+ * Check whether a browser type is served by the Chrome DevTools Protocol provider
+ * @param browserType - Browser type to check
+ * @returns True for Chrome and every other Chromium-family browser
+ */
+export function isChromiumBrowserType(
+  browserType: string,
+): browserType is ChromiumBrowserType {
+  return (CHROMIUM_BROWSER_TYPES as string[]).includes(browserType);
+}
+
+/**
+ * Get the executable locations to check for a browser on the current platform
+ * @param browserType - Chromium-family browser type
+ * @returns Candidate executable paths in priority order
+ */
+export function getChromiumExecutableCandidates(
+  browserType: ChromiumBrowserType,
+): string[] {
+  const paths = CHROMIUM_BROWSERS[browserType].executablePaths;
+  switch (process.platform) {
+    case "darwin":
+      return paths.darwin;
+    case "win32":
+      return paths.win32;
+    default:
+      return paths.linux;
+  }
+}
+
+/**
+ * Find the installed executable for a browser on the current platform
+ * @param browserType - Chromium-family browser type
+ * @returns Path to the executable, or null if the browser is not installed
+ */
+export function findChromiumExecutable(
+  browserType: ChromiumBrowserType,
+): string | null {
+  for (const candidate of getChromiumExecutableCandidates(browserType)) {
+    try {
+      if (fs.existsSync(candidate)) {
+        return candidate;
+      }
+    } catch {
+      // Continue to next path
+    }
+  }
+  return null;
+}
+
+/**
+ * Identify which Chromium-family browser is serving a DevTools endpoint
+ * Edge reports "Edg/" in the Browser string; Brave, Vivaldi and Chromium
+ * usually report a plain "Chrome/" Browser string, so the User-Agent is
+ * checked as well and the hint decides when both are ambiguous
+ * @param versionInfo - Parsed /json/version response
+ * @param hint - Browser type to assume when the endpoint only reports "Chrome/"
+ * @returns The identified browser type
+ */
+export function identifyChromiumBrowser(
+  versionInfo: { Browser?: string; "User-Agent"?: string },
+  hint: ChromiumBrowserType = "chrome",
+): ChromiumBrowserType {
+  const browser = versionInfo.Browser ?? "";
+  const userAgent = versionInfo["User-Agent"] ?? "";
+  const signature = `${browser} ${userAgent}`;
+
+  if (/\bEdg(e|A|iOS)?\//.test(signature)) {
+    return "edge";
+  }
+  if (/\bBrave\b/i.test(signature)) {
+    return "brave";
+  }
+  if (/\bVivaldi\b/i.test(signature)) {
+    return "vivaldi";
+  }
+  if (/\bChromium\//.test(signature)) {
+    return "chromium";
+  }
+
+  // Plain "Chrome/" or "HeadlessChrome/" - cannot tell Chrome from its forks
+  return hint === "edge" ? "chrome" : hint;
+}
+
+/**
+ * Extract the version number from a /json/version Browser string
+ * @param browser - Browser string such as "Chrome/126.0.6478.127" or "Edg/126.0.2592.87"
+ * @returns Version number, or "Unknown"
+ */
+export function parseChromiumVersion(browser: string | undefined): string {
+  return browser?.split("/")?.[1] ?? "Unknown";
+}
@@ -0,0 +1,106 @@
+/**
+ * Debug endpoint resolution
+ * Turns host/port/WebSocket settings from BrowserToolsConfig into the URLs
+ * used for DevTools HTTP calls, CDP connections and WebDriver BiDi sessions
+ */
+
+import { type BrowserToolsConfig } from "@/interfaces/browser-tools.js";
+import { type BrowserType } from "@/interfaces/types.js";
+
+export const DEFAULT_DEBUG_HOST = "localhost";
+export const DEFAULT_DEBUG_PORT = 9222;
+
+export interface DebugEndpoint {
+  /** Host name or IP address of the debugging server */
+  host: string;
+  /** Port of the debugging server */
+  port: number;
+  /** Whether to use https/wss */
+  secure: boolean;
+  /** Explicit browser WebSocket URL, when configured */
+  webSocketDebuggerUrl?: string;
+}
+
+/**
+ * Resolve the debug endpoint for a browser from configuration
+ * A full webSocketDebuggerUrl wins over host/port; per-browser customPorts
+ * win over the generic port
+ * @param config - Browser tools configuration
+ * @param browserType - Browser the endpoint is resolved for
+ * @returns Resolved debug endpoint
+ * @throws Error if webSocketDebuggerUrl is not a valid ws:// or wss:// URL
+ */
+export function resolveDebugEndpoint(
+  config: BrowserToolsConfig,
+  browserType: BrowserType,
+): DebugEndpoint {
+  if (config.webSocketDebuggerUrl) {
+    let url: URL;
+    try {
+      url = new URL(config.webSocketDebuggerUrl);
+    } catch {
+      throw new Error(
+        `Invalid webSocketDebuggerUrl: ${config.webSocketDebuggerUrl}`,
+      );
+    }
+
+    if (url.protocol !== "ws:" && url.protocol !== "wss:") {
+      throw new Error(
+        `webSocketDebuggerUrl must use ws:// or wss://, got ${url.protocol}`,
+      );
+    }
+
+    const secure = url.protocol === "wss:";
+    return {
+      host: url.hostname.replace(/^\[(.*)\]$/, "$1"),
+      port: url.port ? Number(url.port) : secure ? 443 : 80,
+      secure,
+      webSocketDebuggerUrl: config.webSocketDebuggerUrl,
+    };
+  }
+
+  return {
+    host: config.host ?? DEFAULT_DEBUG_HOST,
+    port: config.customPorts?.[browserType] ?? config.port ?? DEFAULT_DEBUG_PORT,
+    secure: false,
+  };
+}
+
+/**
+ * Format host and port for use inside a URL, bracketing IPv6 addresses
+ * @param endpoint - Debug endpoint
+ * @returns host:port string
+ */
+export function formatHostPort(endpoint: DebugEndpoint): string {
+  const host = endpoint.host.includes(":") ? `[${endpoint.host}]` : endpoint.host;
+  return `${host}:${endpoint.port}`;
+}
+
+/**
+ * Build an HTTP URL on the debugging server (e.g., /json/version)
+ * @param endpoint - Debug endpoint
+ * @param path - Path starting with "/"
+ * @returns Absolute http(s) URL
+ */
+export function getHttpUrl(endpoint: DebugEndpoint, path: string): string {
+  return `${endpoint.secure ? "https" : "http"}://${formatHostPort(endpoint)}${path}`;
+}
+
+/**
+ * Build a WebSocket URL on the debugging server (e.g., /devtools/page/<id>)
+ * @param endpoint - Debug endpoint
+ * @param path - Path starting with "/"
+ * @returns Absolute ws(s) URL
+ */
+export function getWebSocketUrl(endpoint: DebugEndpoint, path: string): string {
+  return `${endpoint.secure ? "wss" : "ws"}://${formatHostPort(endpoint)}${path}`;
+}
+
+/**
+ * Whether the endpoint points at this machine, i.e. a browser could be launched for it
+ * @param endpoint - Debug endpoint
+ * @returns True for localhost and loopback addresses
+ */
+export function isLocalEndpoint(endpoint: DebugEndpoint): boolean {
+  return ["localhost", "127.0.0.1", "::1"].includes(endpoint.host);
+}
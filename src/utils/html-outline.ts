@@ -0,0 +1,258 @@
+/**
+ * HTML outline
+ * Indexes the elements of serialized HTML (outerHTML, which always closes
+ * non-void elements) with their UTF-8 byte ranges and a unique CSS path, so a
+ * large document can be read one subtree at a time
+ */
+
+export interface HtmlOutlineNode {
+  /** Unique child-combinator path, e.g. "html > body > div#app > main:nth-of-type(2)" */
+  path: string;
+  /** Lowercase tag name */
+  tag: string;
+  /** Nesting depth; the root element is 0 */
+  depth: number;
+  /** Byte offset of the start tag */
+  start: number;
+  /** Byte offset just past the end tag */
+  end: number;
+  /** Index of the parent element in the outline, -1 for top-level elements */
+  parent: number;
+}
+
+export interface OutlineEntry {
+  path: string;
+  bytes: number;
+}
+
+/** Elements that never have content or an end tag */
+const VOID_ELEMENTS = new Set([
+  "area", "base", "br", "col", "embed", "hr", "img", "input",
+  "link", "meta", "param", "source", "track", "wbr",
+]);
+
+/** Elements whose content is text up to their end tag */
+const RAW_TEXT_ELEMENTS = new Set([
+  "script", "style", "textarea", "title", "xmp", "noscript", "noembed", "noframes",
+]);
+
+/** End tag searches of the raw text elements, created on first use */
+const END_TAG_PATTERNS = new Map<string, RegExp>();
+
+/** Ids that can be written in a selector without escaping */
+const SIMPLE_ID_PATTERN = /^[A-Za-z][\w-]*$/;
+
+/** Most entries in an outline summary */
+const MAX_SUMMARY_ENTRIES = 40;
+
+/**
+ * Index every element of an HTML document
+ * @param html - Serialized HTML
+ * @returns Elements in document order with byte ranges and paths
+ */
+export function outlineHtml(html: string): HtmlOutlineNode[] {
+  const nodes: (HtmlOutlineNode & { id?: string; index: number })[] = [];
+  // Same-tag sibling counts per parent, to number siblings with :nth-of-type
+  const siblingCounts = new Map<number, Map<string, number>>();
+  const stack: number[] = [];
+
+  // Byte offsets are computed incrementally since the scan only moves forward
+  let byteIndex = 0;
+  let byteOffset = 0;
+  const byteAt = (index: number): number => {
+    byteOffset += Buffer.byteLength(html.slice(byteIndex, index));
+    byteIndex = index;
+    return byteOffset;
+  };
+
+  const close = (nodeIndex: number, endIndex: number): void => {
+    const node = nodes[nodeIndex];
+    if (node) {
+      node.end = byteAt(endIndex);
+    }
+  };
+
+  let position = html.indexOf("<");
+  while (position !== -1 && position < html.length) {
+    if (html.startsWith("<!--", position)) {
+      const end = html.indexOf("-->", position + 4);
+      position = end === -1 ? -1 : html.indexOf("<", end + 3);
+      continue;
+    }
+
+    const next = html[position + 1] ?? "";
+    if (next === "!" || next === "?") {
+      const end = html.indexOf(">", position);
+      position = end === -1 ? -1 : html.indexOf("<", end + 1);
+      continue;
+    }
+
+    if (next === "/") {
+      const end = html.indexOf(">", position);
+      if (end === -1) {
+        break;
+      }
+      const tag = html.slice(position + 2, end).trim().toLowerCase();
+      // Close up to the matching element; the serialization normally has it on top
+      const match = stack.map((index) => nodes[index]?.tag).lastIndexOf(tag);
+      if (match !== -1) {
+        while (stack.length > match) {
+          close(stack.pop() ?? -1, end + 1);
+        }
+      }
+      position = html.indexOf("<", end + 1);
+      continue;
+    }
+
+    const tagMatch = /^<([A-Za-z][^\s/>]*)/.exec(html.slice(position, position + 256));
+    if (!tagMatch?.[1]) {
+      position = html.indexOf("<", position + 1);
+      continue;
+    }
+    const tag = tagMatch[1].toLowerCase();
+    const tagEnd = findTagEnd(html, position + tagMatch[0].length);
+    if (tagEnd === -1) {
+      break;
+    }
+
+    const parent = stack[stack.length - 1] ?? -1;
+    const counts = siblingCounts.get(parent) ?? new Map<string, number>();
+    siblingCounts.set(parent, counts);
+    const index = (counts.get(tag) ?? 0) + 1;
+    counts.set(tag, index);
+
+    const node: HtmlOutlineNode & { id?: string; index: number } = {
+      path: "",
+      tag,
+      depth: stack.length,
+      start: byteAt(position),
+      end: 0,
+      parent,
+      index,
+    };
+    const id = /\sid\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/i.exec(
+      html.slice(position, tagEnd),
+    );
+    const idValue = id?.[1] ?? id?.[2] ?? id?.[3];
+    if (idValue && SIMPLE_ID_PATTERN.test(idValue)) {
+      node.id = idValue;
+    }
+    nodes.push(node);
+    const nodeIndex = nodes.length - 1;
+
+    const selfClosing = html[tagEnd - 1] === "/";
+    if (VOID_ELEMENTS.has(tag) || selfClosing) {
+      close(nodeIndex, tagEnd + 1);
+      position = html.indexOf("<", tagEnd + 1);
+    } else if (RAW_TEXT_ELEMENTS.has(tag)) {
+      const endTag = findEndTag(html, tag, tagEnd + 1);
+      const end = endTag === -1 ? -1 : html.indexOf(">", endTag);
+      close(nodeIndex, end === -1 ? html.length : end + 1);
+      position = end === -1 ? -1 : html.indexOf("<", end + 1);
+    } else {
+      stack.push(nodeIndex);
+      position = html.indexOf("<", tagEnd + 1);
+    }
+  }
+  // Elements left open by truncated input end with the document
+  while (stack.length > 0) {
+    close(stack.pop() ?? -1, html.length);
+  }
+
+  // Parents precede their children, so their paths are already set
+  for (const node of nodes) {
+    let segment = node.tag;
+    if (node.id) {
+      segment += `#${node.id}`;
+    } else if ((siblingCounts.get(node.parent)?.get(node.tag) ?? 1) > 1) {
+      segment += `:nth-of-type(${node.index})`;
+    }
+    const parent = nodes[node.parent];
+    node.path = parent ? `${parent.path} > ${segment}` : segment;
+  }
+  return nodes.map(({ path, tag, depth, start, end, parent }) => ({
+    path,
+    tag,
+    depth,
+    start,
+    end,
+    parent,
+  }));
+}
+
+/**
+ * Pick the subtrees worth reading separately: the root elements and, inside
+ * every element larger than one chunk, the children that hold a sizable part
+ * @param nodes - Outline from outlineHtml
+ * @param chunkBytes - Approximate size of one chunk
+ * @returns Paths with their sizes, in document order
+ */
+export function summarizeOutline(
+  nodes: HtmlOutlineNode[],
+  chunkBytes: number,
+): OutlineEntry[] {
+  const children = new Map<number, number[]>();
+  nodes.forEach((node, index) => {
+    const siblings = children.get(node.parent) ?? [];
+    siblings.push(index);
+    children.set(node.parent, siblings);
+  });
+
+  const entries: OutlineEntry[] = [];
+  const visit = (index: number): void => {
+    const node = nodes[index];
+    if (!node || entries.length >= MAX_SUMMARY_ENTRIES) {
+      return;
+    }
+    const bytes = node.end - node.start;
+    entries.push({ path: node.path, bytes });
+    if (bytes <= chunkBytes) {
+      return;
+    }
+    for (const child of children.get(index) ?? []) {
+      const childNode = nodes[child];
+      // Small children are read along with their parent
+      if (childNode && childNode.end - childNode.start >= chunkBytes / 4) {
+        visit(child);
+      }
+    }
+  };
+  for (const root of children.get(-1) ?? []) {
+    visit(root);
+  }
+  return entries;
+}
+
+/**
+ * Find the end tag of a raw text element, in any letter case, without
+ * copying the document
+ */
+function findEndTag(html: string, tag: string, from: number): number {
+  let pattern = END_TAG_PATTERNS.get(tag);
+  if (!pattern) {
+    pattern = new RegExp(`</${tag}`, "gi");
+    END_TAG_PATTERNS.set(tag, pattern);
+  }
+  pattern.lastIndex = from;
+  return pattern.exec(html)?.index ?? -1;
+}
+
+/**
+ * Find the ">" that ends a start tag, skipping quoted attribute values
+ */
+function findTagEnd(html: string, from: number): number {
+  let quote: string | null = null;
+  for (let index = from; index < html.length; index++) {
+    const char = html[index];
+    if (quote) {
+      if (char === quote) {
+        quote = null;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === ">") {
+      return index;
+    }
+  }
+  return -1;
+}
@@ -0,0 +1,425 @@
+/**
+ * Minimal JPEG encoder
+ * Encodes RGBA pixels as baseline JPEG (JFIF, no chroma subsampling, the
+ * standard Huffman tables), so screenshots can be re-encoded to fit a byte
+ * budget without native image dependencies
+ */
+
+import { type RGBAImage } from "@/utils/png.js";
+
+/** Standard luminance quantization table (ITU T.81 Annex K.1), in natural order */
+const LUMINANCE_QUANTIZATION = [
+  16, 11, 10, 16, 24, 40, 51, 61,
+  12, 12, 14, 19, 26, 58, 60, 55,
+  14, 13, 16, 24, 40, 57, 69, 56,
+  14, 17, 22, 29, 51, 87, 80, 62,
+  18, 22, 37, 56, 68, 109, 103, 77,
+  24, 35, 55, 64, 81, 104, 113, 92,
+  49, 64, 78, 87, 103, 121, 120, 101,
+  72, 92, 95, 98, 112, 100, 103, 99,
+];
+
+/** Standard chrominance quantization table (ITU T.81 Annex K.1), in natural order */
+const CHROMINANCE_QUANTIZATION = [
+  17, 18, 24, 47, 99, 99, 99, 99,
+  18, 21, 26, 66, 99, 99, 99, 99,
+  24, 26, 56, 99, 99, 99, 99, 99,
+  47, 66, 99, 99, 99, 99, 99, 99,
+  99, 99, 99, 99, 99, 99, 99, 99,
+  99, 99, 99, 99, 99, 99, 99, 99,
+  99, 99, 99, 99, 99, 99, 99, 99,
+  99, 99, 99, 99, 99, 99, 99, 99,
+];
+
+/** Natural index of each coefficient in zigzag order */
+const ZIGZAG = [
+  0, 1, 8, 16, 9, 2, 3, 10, 17, 24, 32, 25, 18, 11, 4, 5,
+  12, 19, 26, 33, 40, 48, 41, 34, 27, 20, 13, 6, 7, 14, 21, 28,
+  35, 42, 49, 56, 57, 50, 43, 36, 29, 22, 15, 23, 30, 37, 44, 51,
+  58, 59, 52, 45, 38, 31, 39, 46, 53, 60, 61, 54, 47, 55, 62, 63,
+];
+
+/** Huffman table as stored in a DHT segment: code counts per length, then symbols */
+interface HuffmanSpec {
+  counts: number[];
+  symbols: number[];
+}
+
+/** Standard Huffman tables (ITU T.81 Annex K.3) */
+const DC_LUMINANCE: HuffmanSpec = {
+  counts: [0, 1, 5, 1, 1, 1, 1, 1, 1, 0, 0, 0, 0, 0, 0, 0],
+  symbols: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11],
+};
+
+const DC_CHROMINANCE: HuffmanSpec = {
+  counts: [0, 3, 1, 1, 1, 1, 1, 1, 1, 1, 1, 0, 0, 0, 0, 0],
+  symbols: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11],
+};
+
+const AC_LUMINANCE: HuffmanSpec = {
+  counts: [0, 2, 1, 3, 3, 2, 4, 3, 5, 5, 4, 4, 0, 0, 1, 0x7d],
+  symbols: [
+    0x01, 0x02, 0x03, 0x00, 0x04, 0x11, 0x05, 0x12, 0x21, 0x31, 0x41, 0x06,
+    0x13, 0x51, 0x61, 0x07, 0x22, 0x71, 0x14, 0x32, 0x81, 0x91, 0xa1, 0x08,
+    0x23, 0x42, 0xb1, 0xc1, 0x15, 0x52, 0xd1, 0xf0, 0x24, 0x33, 0x62, 0x72,
+    0x82, 0x09, 0x0a, 0x16, 0x17, 0x18, 0x19, 0x1a, 0x25, 0x26, 0x27, 0x28,
+    0x29, 0x2a, 0x34, 0x35, 0x36, 0x37, 0x38, 0x39, 0x3a, 0x43, 0x44, 0x45,
+    0x46, 0x47, 0x48, 0x49, 0x4a, 0x53, 0x54, 0x55, 0x56, 0x57, 0x58, 0x59,
+    0x5a, 0x63, 0x64, 0x65, 0x66, 0x67, 0x68, 0x69, 0x6a, 0x73, 0x74, 0x75,
+    0x76, 0x77, 0x78, 0x79, 0x7a, 0x83, 0x84, 0x85, 0x86, 0x87, 0x88, 0x89,
+    0x8a, 0x92, 0x93, 0x94, 0x95, 0x96, 0x97, 0x98, 0x99, 0x9a, 0xa2, 0xa3,
+    0xa4, 0xa5, 0xa6, 0xa7, 0xa8, 0xa9, 0xaa, 0xb2, 0xb3, 0xb4, 0xb5, 0xb6,
+    0xb7, 0xb8, 0xb9, 0xba, 0xc2, 0xc3, 0xc4, 0xc5, 0xc6, 0xc7, 0xc8, 0xc9,
+    0xca, 0xd2, 0xd3, 0xd4, 0xd5, 0xd6, 0xd7, 0xd8, 0xd9, 0xda, 0xe1, 0xe2,
+    0xe3, 0xe4, 0xe5, 0xe6, 0xe7, 0xe8, 0xe9, 0xea, 0xf1, 0xf2, 0xf3, 0xf4,
+    0xf5, 0xf6, 0xf7, 0xf8, 0xf9, 0xfa,
+  ],
+};
+
+const AC_CHROMINANCE: HuffmanSpec = {
+  counts: [0, 2, 1, 2, 4, 4, 3, 4, 7, 5, 4, 4, 0, 1, 2, 0x77],
+  symbols: [
+    0x00, 0x01, 0x02, 0x03, 0x11, 0x04, 0x05, 0x21, 0x31, 0x06, 0x12, 0x41,
+    0x51, 0x07, 0x61, 0x71, 0x13, 0x22, 0x32, 0x81, 0x08, 0x14, 0x42, 0x91,
+    0xa1, 0xb1, 0xc1, 0x09, 0x23, 0x33, 0x52, 0xf0, 0x15, 0x62, 0x72, 0xd1,
+    0x0a, 0x16, 0x24, 0x34, 0xe1, 0x25, 0xf1, 0x17, 0x18, 0x19, 0x1a, 0x26,
+    0x27, 0x28, 0x29, 0x2a, 0x35, 0x36, 0x37, 0x38, 0x39, 0x3a, 0x43, 0x44,
+    0x45, 0x46, 0x47, 0x48, 0x49, 0x4a, 0x53, 0x54, 0x55, 0x56, 0x57, 0x58,
+    0x59, 0x5a, 0x63, 0x64, 0x65, 0x66, 0x67, 0x68, 0x69, 0x6a, 0x73, 0x74,
+    0x75, 0x76, 0x77, 0x78, 0x79, 0x7a, 0x82, 0x83, 0x84, 0x85, 0x86, 0x87,
+    0x88, 0x89, 0x8a, 0x92, 0x93, 0x94, 0x95, 0x96, 0x97, 0x98, 0x99, 0x9a,
+    0xa2, 0xa3, 0xa4, 0xa5, 0xa6, 0xa7, 0xa8, 0xa9, 0xaa, 0xb2, 0xb3, 0xb4,
+    0xb5, 0xb6, 0xb7, 0xb8, 0xb9, 0xba, 0xc2, 0xc3, 0xc4, 0xc5, 0xc6, 0xc7,
+    0xc8, 0xc9, 0xca, 0xd2, 0xd3, 0xd4, 0xd5, 0xd6, 0xd7, 0xd8, 0xd9, 0xda,
+    0xe2, 0xe3, 0xe4, 0xe5, 0xe6, 0xe7, 0xe8, 0xe9, 0xea, 0xf2, 0xf3, 0xf4,
+    0xf5, 0xf6, 0xf7, 0xf8, 0xf9, 0xfa,
+  ],
+};
+
+/** cos((2x + 1)uπ / 16) for x and u in 0-7, indexed x * 8 + u */
+const DCT_COSINES = (() => {
+  const table = new Float64Array(64);
+  for (let x = 0; x < 8; x++) {
+    for (let u = 0; u < 8; u++) {
+      table[x * 8 + u] = Math.cos(((2 * x + 1) * u * Math.PI) / 16);
+    }
+  }
+  return table;
+})();
+
+/** Code and length per symbol, built from a HuffmanSpec */
+interface HuffmanCodes {
+  codes: Uint16Array;
+  lengths: Uint8Array;
+}
+
+/**
+ * Encode RGBA pixels as a baseline JPEG
+ * Transparent pixels are composited over white, as JPEG has no alpha channel
+ * @param image - Image to encode
+ * @param quality - Quality from 1 to 100, scaling the standard quantization tables
+ * @returns JPEG file bytes
+ * @throws Error if the image is empty or larger than JPEG allows
+ */
+export function encodeJpeg(image: RGBAImage, quality: number): Buffer {
+  const { width, height } = image;
+  if (width < 1 || height < 1 || width > 0xffff || height > 0xffff) {
+    throw new Error(`Cannot encode a ${width}x${height} image as JPEG`);
+  }
+
+  const luminance = scaleQuantization(LUMINANCE_QUANTIZATION, quality);
+  const chrominance = scaleQuantization(CHROMINANCE_QUANTIZATION, quality);
+  const tables = [
+    { spec: DC_LUMINANCE, id: 0x00 },
+    { spec: AC_LUMINANCE, id: 0x10 },
+    { spec: DC_CHROMINANCE, id: 0x01 },
+    { spec: AC_CHROMINANCE, id: 0x11 },
+  ];
+
+  const writer = new BitWriter();
+  const luminanceCodes = {
+    quantization: quantizationFactors(luminance),
+    dc: buildCodes(DC_LUMINANCE),
+    ac: buildCodes(AC_LUMINANCE),
+  };
+  const chrominanceCodes = {
+    quantization: quantizationFactors(chrominance),
+    dc: buildCodes(DC_CHROMINANCE),
+    ac: buildCodes(AC_CHROMINANCE),
+  };
+  const components = [luminanceCodes, chrominanceCodes, chrominanceCodes];
+  const predictions = [0, 0, 0];
+  const blocks = [new Float64Array(64), new Float64Array(64), new Float64Array(64)];
+  const coefficients = new Int32Array(64);
+  const rows = new Float64Array(64);
+
+  for (let blockY = 0; blockY < height; blockY += 8) {
+    for (let blockX = 0; blockX < width; blockX += 8) {
+      readBlock(image, blockX, blockY, blocks);
+      components.forEach((component, index) => {
+        const block = blocks[index] as Float64Array;
+        quantizeBlock(block, component.quantization, coefficients, rows);
+        predictions[index] = writeBlock(
+          writer,
+          coefficients,
+          predictions[index] ?? 0,
+          component.dc,
+          component.ac,
+        );
+      });
+    }
+  }
+  writer.flush();
+
+  return Buffer.concat([
+    Buffer.from([0xff, 0xd8]),
+    createSegment(0xe0, Buffer.from([0x4a, 0x46, 0x49, 0x46, 0, 1, 1, 0, 0, 1, 0, 1, 0, 0])),
+    createSegment(
+      0xdb,
+      Buffer.from([
+        0x00,
+        ...ZIGZAG.map((index) => luminance[index] ?? 1),
+        0x01,
+        ...ZIGZAG.map((index) => chrominance[index] ?? 1),
+      ]),
+    ),
+    createSegment(
+      0xc0,
+      Buffer.from([
+        8,
+        height >> 8, height & 0xff,
+        width >> 8, width & 0xff,
+        3,
+        1, 0x11, 0,
+        2, 0x11, 1,
+        3, 0x11, 1,
+      ]),
+    ),
+    createSegment(
+      0xc4,
+      Buffer.from(tables.flatMap(({ spec, id }) => [id, ...spec.counts, ...spec.symbols])),
+    ),
+    createSegment(0xda, Buffer.from([3, 1, 0x00, 2, 0x11, 3, 0x11, 0, 63, 0])),
+    writer.toBuffer(),
+    Buffer.from([0xff, 0xd9]),
+  ]);
+}
+
+/**
+ * Scale a quantization table for a quality setting, as the IJG encoder does
+ */
+function scaleQuantization(table: number[], quality: number): number[] {
+  const clamped = Math.min(100, Math.max(1, Math.round(quality)));
+  const factor = clamped < 50 ? 5000 / clamped : 200 - clamped * 2;
+  return table.map((value) =>
+    Math.min(255, Math.max(1, Math.floor((value * factor + 50) / 100))),
+  );
+}
+
+/**
+ * Fold the DCT normalization into the reciprocals of a quantization table,
+ * so quantizing is one multiplication per coefficient
+ */
+function quantizationFactors(table: number[]): Float64Array {
+  const factors = new Float64Array(64);
+  table.forEach((value, index) => {
+    const u = index % 8;
+    const v = Math.floor(index / 8);
+    const normalization = (u === 0 ? Math.SQRT1_2 : 1) * (v === 0 ? Math.SQRT1_2 : 1) / 4;
+    factors[index] = normalization / value;
+  });
+  return factors;
+}
+
+/**
+ * Assign the canonical Huffman codes of a table to its symbols
+ */
+function buildCodes(spec: HuffmanSpec): HuffmanCodes {
+  const codes = new Uint16Array(256);
+  const lengths = new Uint8Array(256);
+  let code = 0;
+  let position = 0;
+  spec.counts.forEach((count, index) => {
+    for (let i = 0; i < count; i++) {
+      const symbol = spec.symbols[position++] ?? 0;
+      codes[symbol] = code++;
+      lengths[symbol] = index + 1;
+    }
+    code <<= 1;
+  });
+  return { codes, lengths };
+}
+
+/**
+ * Read an 8x8 block as level-shifted Y, Cb and Cr samples; pixels past the
+ * right and bottom edges repeat the last column and row
+ */
+function readBlock(
+  image: RGBAImage,
+  blockX: number,
+  blockY: number,
+  blocks: Float64Array[],
+): void {
+  const [y, cb, cr] = blocks as [Float64Array, Float64Array, Float64Array];
+  for (let row = 0; row < 8; row++) {
+    const sourceY = Math.min(blockY + row, image.height - 1);
+    for (let column = 0; column < 8; column++) {
+      const sourceX = Math.min(blockX + column, image.width - 1);
+      const offset = (sourceY * image.width + sourceX) * 4;
+      const alpha = (image.data[offset + 3] ?? 255) / 255;
+      const background = 255 * (1 - alpha);
+      const r = (image.data[offset] ?? 0) * alpha + background;
+      const g = (image.data[offset + 1] ?? 0) * alpha + background;
+      const b = (image.data[offset + 2] ?? 0) * alpha + background;
+
+      const index = row * 8 + column;
+      y[index] = 0.299 * r + 0.587 * g + 0.114 * b - 128;
+      cb[index] = -0.168736 * r - 0.331264 * g + 0.5 * b;
+      cr[index] = 0.5 * r - 0.418688 * g - 0.081312 * b;
+    }
+  }
+}
+
+/**
+ * Apply the forward DCT to a block and quantize the result in zigzag order
+ * @param quantization - Multipliers from quantizationFactors
+ * @param rows - Scratch space for the row pass
+ */
+function quantizeBlock(
+  block: Float64Array,
+  quantization: Float64Array,
+  coefficients: Int32Array,
+  rows: Float64Array,
+): void {
+  // Separable transform: rows first, then columns
+  for (let y = 0; y < 8; y++) {
+    for (let u = 0; u < 8; u++) {
+      let sum = 0;
+      for (let x = 0; x < 8; x++) {
+        sum += (block[y * 8 + x] ?? 0) * (DCT_COSINES[x * 8 + u] ?? 0);
+      }
+      rows[y * 8 + u] = sum;
+    }
+  }
+  for (let i = 0; i < 64; i++) {
+    const index = ZIGZAG[i] ?? 0;
+    const u = index % 8;
+    const v = (index - u) / 8;
+    let sum = 0;
+    for (let y = 0; y < 8; y++) {
+      sum += (rows[y * 8 + u] ?? 0) * (DCT_COSINES[y * 8 + v] ?? 0);
+    }
+    coefficients[i] = Math.round(sum * (quantization[index] ?? 0));
+  }
+}
+
+/**
+ * Entropy code one block of zigzag-ordered coefficients
+ * @returns The DC value, the prediction for the next block of the component
+ */
+function writeBlock(
+  writer: BitWriter,
+  coefficients: Int32Array,
+  prediction: number,
+  dc: HuffmanCodes,
+  ac: HuffmanCodes,
+): number {
+  const dcValue = coefficients[0] ?? 0;
+  writeValue(writer, dcValue - prediction, dc, 0);
+
+  let zeros = 0;
+  for (let i = 1; i < 64; i++) {
+    const value = coefficients[i] ?? 0;
+    if (value === 0) {
+      zeros++;
+      continue;
+    }
+    while (zeros > 15) {
+      // ZRL: a run of sixteen zeros
+      writer.write(ac.codes[0xf0] ?? 0, ac.lengths[0xf0] ?? 0);
+      zeros -= 16;
+    }
+    writeValue(writer, value, ac, zeros << 4);
+    zeros = 0;
+  }
+  if (zeros > 0) {
+    // EOB: the rest of the block is zero
+    writer.write(ac.codes[0x00] ?? 0, ac.lengths[0x00] ?? 0);
+  }
+  return dcValue;
+}
+
+/**
+ * Write a coefficient as the Huffman code of its size category, combined
+ * with the preceding zero run for AC values, followed by its bits
+ */
+function writeValue(
+  writer: BitWriter,
+  value: number,
+  codes: HuffmanCodes,
+  run: number,
+): void {
+  const magnitude = Math.abs(value);
+  const size = magnitude === 0 ? 0 : 32 - Math.clz32(magnitude);
+  const symbol = run | size;
+  writer.write(codes.codes[symbol] ?? 0, codes.lengths[symbol] ?? 0);
+  if (size > 0) {
+    // Negative values are sent as their ones' complement
+    writer.write(value < 0 ? value + (1 << size) - 1 : value, size);
+  }
+}
+
+/**
+ * Build a marker segment with its length field
+ */
+function createSegment(marker: number, payload: Buffer): Buffer {
+  const header = Buffer.from([0xff, marker, 0, 0]);
+  header.writeUInt16BE(payload.length + 2, 2);
+  return Buffer.concat([header, payload]);
+}
+
+/**
+ * Collects entropy-coded bits, stuffing a zero byte after every 0xFF
+ */
+class BitWriter {
+  private bytes = Buffer.alloc(64 * 1024);
+  private length = 0;
+  private buffer = 0;
+  private bits = 0;
+
+  write(value: number, count: number): void {
+    for (let bit = count - 1; bit >= 0; bit--) {
+      this.buffer = (this.buffer << 1) | ((value >> bit) & 1);
+      if (++this.bits === 8) {
+        this.push(this.buffer);
+        this.buffer = 0;
+        this.bits = 0;
+      }
+    }
+  }
+
+  /**
+   * Pad the last byte with one bits, as the format requires
+   */
+  flush(): void {
+    if (this.bits > 0) {
+      this.write(0xff, 8 - this.bits);
+    }
+  }
+
+  toBuffer(): Buffer {
+    return this.bytes.subarray(0, this.length);
+  }
+
+  private push(byte: number): void {
+    if (this.length + 2 > this.bytes.length) {
+      const grown = Buffer.alloc(this.bytes.length * 2);
+      this.bytes.copy(grown, 0, 0, this.length);
+      this.bytes = grown;
+    }
+    this.bytes[this.length++] = byte;
+    if (byte === 0xff) {
+      this.bytes[this.length++] = 0;
+    }
+  }
+}
@@ -105,9 +105,17 @@ export const factoryLog = {
     logger.error("BROWSER-FACTORY", message, ...args),
 };
 
+export const firefoxLog = {
+  debug: (message: string, ...args: unknown[]) =>
+    logger.debug("FIREFOX", message, ...args),
+  success: (message: string, ...args: unknown[]) =>
+    logger.success("FIREFOX", message, ...args),
+  error: (message: string, ...args: unknown[]) =>
+    logger.error("FIREFOX", message, ...args),
+};
+
 // Future: Browser-specific loggers can be added here
 // export const safariLog = { ... };
-// export const firefoxLog = { ... };
 
 export const serverLog = {
   debug: (message: string, ...args: unknown[]) =>
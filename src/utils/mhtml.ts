@@ -0,0 +1,307 @@
+/**
+ * MHTML archive helpers
+ * Parses the multipart/related snapshots Chromium produces and turns them into
+ * a single HTML file with every archived resource inlined as a data: URL
+ */
+
+export interface MhtmlPart {
+  /** Part headers, names lowercased */
+  headers: Record<string, string>;
+  /** Media type without parameters, e.g. "text/css" */
+  contentType: string;
+  /** Charset of text parts, lowercased */
+  charset: string;
+  /** Original URL of the resource */
+  location?: string;
+  /** Content-ID without angle brackets, used by frames ("cid:" URLs) */
+  contentId?: string;
+  /** Decoded body */
+  body: Buffer;
+}
+
+export interface MhtmlArchive {
+  /** Top-level headers, names lowercased */
+  headers: Record<string, string>;
+  /** Parts in archive order; the first HTML part is the page itself */
+  parts: MhtmlPart[];
+}
+
+export interface InlinedHtml {
+  /** Self-contained HTML document */
+  html: string;
+  /** Number of archived resources inlined into the document */
+  inlined: number;
+}
+
+/**
+ * Parse an MHTML archive
+ * @param text - MHTML document as returned by Page.captureSnapshot
+ * @returns Headers and decoded parts
+ * @throws Error if the document is not a multipart MHTML archive
+ */
+export function parseMhtml(text: string): MhtmlArchive {
+  const { headers, body } = splitHeaders(text);
+  const boundary = /boundary="?([^";]+)"?/i.exec(headers["content-type"] ?? "")?.[1];
+  if (!boundary) {
+    throw new Error("Not an MHTML archive: missing multipart boundary");
+  }
+
+  const parts: MhtmlPart[] = [];
+  // The first segment is the preamble, the segment after the closing "--boundary--" the epilogue
+  for (const segment of body.split(`--${boundary}`).slice(1)) {
+    if (segment.startsWith("--")) {
+      break;
+    }
+    const part = splitHeaders(segment.replace(/^\r?\n/, ""));
+    const [contentType = "application/octet-stream", ...params] = (
+      part.headers["content-type"] ?? ""
+    ).split(";");
+
+    const parsed: MhtmlPart = {
+      headers: part.headers,
+      contentType: contentType.trim().toLowerCase(),
+      charset:
+        /charset="?([^";]+)"?/i
+          .exec(params.join(";"))?.[1]
+          ?.toLowerCase() ?? "utf-8",
+      body: decodeBody(
+        part.body.replace(/\r?\n$/, ""),
+        part.headers["content-transfer-encoding"] ?? "",
+      ),
+    };
+    if (part.headers["content-location"]) {
+      parsed.location = part.headers["content-location"];
+    }
+    if (part.headers["content-id"]) {
+      parsed.contentId = part.headers["content-id"].replace(/^<|>$/g, "");
+    }
+    parts.push(parsed);
+  }
+
+  return { headers, parts };
+}
+
+/**
+ * Decode RFC 2047 encoded words, as used for non-ASCII archive subjects
+ * @param value - Header value, e.g. "=?utf-8?Q?Caf=C3=A9?="
+ * @returns Decoded text
+ */
+export function decodeHeaderValue(value: string): string {
+  return value
+    .replace(/\?=\s+=\?/g, "?==?")
+    .replace(
+      /=\?([^?]+)\?([QB])\?([^?]*)\?=/gi,
+      (_match, charset: string, encoding: string, encoded: string) => {
+        const bytes =
+          encoding.toUpperCase() === "B"
+            ? Buffer.from(encoded, "base64")
+            : decodeQuotedPrintable(encoded.replace(/_/g, " "));
+        return decodeText(bytes, charset.toLowerCase());
+      },
+    );
+}
+
+/**
+ * Build a self-contained HTML document from an archive
+ * Stylesheets, images, fonts and frames stored in the archive are inlined as
+ * data: URLs; references to anything else keep their original URL
+ * @param archive - Parsed MHTML archive
+ * @returns The document and how many resources were inlined
+ * @throws Error if the archive holds no HTML part
+ */
+export function archiveToHtml(archive: MhtmlArchive): InlinedHtml {
+  const page = archive.parts.find((part) => part.contentType === "text/html");
+  if (!page) {
+    throw new Error("MHTML archive contains no HTML document");
+  }
+
+  const byLocation = new Map<string, MhtmlPart>();
+  const byContentId = new Map<string, MhtmlPart>();
+  for (const part of archive.parts) {
+    if (part.location && !byLocation.has(part.location)) {
+      byLocation.set(part.location, part);
+    }
+    if (part.contentId) {
+      byContentId.set(part.contentId, part);
+    }
+  }
+
+  const dataUrls = new Map<MhtmlPart, string>();
+  // Parts being rewritten, so resources that reference each other do not recurse forever
+  const pending = new Set<MhtmlPart>([page]);
+
+  const resolve = (reference: string, base: string | undefined): string | null => {
+    const trimmed = reference.trim();
+    if (!trimmed || trimmed.startsWith("data:") || trimmed.startsWith("#")) {
+      return null;
+    }
+
+    let part: MhtmlPart | undefined;
+    let fragment = "";
+    if (trimmed.startsWith("cid:")) {
+      part = byContentId.get(trimmed.slice(4));
+    } else {
+      try {
+        const url = new URL(trimmed, base);
+        fragment = url.hash;
+        url.hash = "";
+        part = byLocation.get(url.href);
+      } catch {
+        return null;
+      }
+    }
+    if (!part || pending.has(part)) {
+      return null;
+    }
+
+    let dataUrl = dataUrls.get(part);
+    if (!dataUrl) {
+      pending.add(part);
+      try {
+        let body = part.body;
+        if (part.contentType === "text/css") {
+          body = Buffer.from(
+            rewriteCss(decodeText(part.body, part.charset), part.location, resolve),
+          );
+        } else if (part.contentType === "text/html") {
+          body = Buffer.from(
+            rewriteHtml(decodeText(part.body, part.charset), part.location, resolve),
+          );
+        }
+        dataUrl = `data:${part.contentType};base64,${body.toString("base64")}`;
+        dataUrls.set(part, dataUrl);
+      } finally {
+        pending.delete(part);
+      }
+    }
+    return dataUrl + fragment;
+  };
+
+  const html = rewriteHtml(decodeText(page.body, page.charset), page.location, resolve);
+  return { html, inlined: dataUrls.size };
+}
+
+type ReferenceResolver = (reference: string, base: string | undefined) => string | null;
+
+/**
+ * Replace url() and @import references in a stylesheet
+ */
+function rewriteCss(css: string, base: string | undefined, resolve: ReferenceResolver): string {
+  return css
+    .replace(
+      /url\(\s*(['"]|&quot;)?(.*?)\1\s*\)/g,
+      (match, _quote, reference: string) => {
+        const dataUrl = resolve(decodeEntities(reference), base);
+        // Unquoted, so the result also fits inside a double-quoted style attribute
+        return dataUrl ? `url(${dataUrl})` : match;
+      },
+    )
+    .replace(/@import\s+(['"])(.*?)\1/g, (match, _quote, reference: string) => {
+      const dataUrl = resolve(reference, base);
+      return dataUrl ? `@import url(${dataUrl})` : match;
+    });
+}
+
+/**
+ * Replace resource references in an HTML document: src/href/poster
+ * attributes, srcset candidates, style attributes and style elements
+ */
+function rewriteHtml(html: string, base: string | undefined, resolve: ReferenceResolver): string {
+  const baseHref = /<base\s[^>]*href\s*=\s*(["'])(.*?)\1/i.exec(html)?.[2];
+  if (baseHref) {
+    try {
+      base = new URL(decodeEntities(baseHref), base).href;
+    } catch {
+      // Keep the document URL as the base
+    }
+  }
+
+  const rewritten = html
+    .replace(
+      /(\s(?:src|href|poster|background|data)\s*=\s*)(["'])(.*?)\2/gi,
+      (match, prefix: string, quote: string, value: string) => {
+        const dataUrl = resolve(decodeEntities(value), base);
+        return dataUrl ? `${prefix}${quote}${dataUrl}${quote}` : match;
+      },
+    )
+    .replace(
+      /(\s(?:srcset|imagesrcset)\s*=\s*)(["'])(.*?)\2/gi,
+      (match, prefix: string, quote: string, value: string) => {
+        let changed = false;
+        const candidates = decodeEntities(value)
+          .split(/,\s+/)
+          .map((candidate) => {
+            const [url = "", ...descriptors] = candidate.trim().split(/\s+/);
+            const dataUrl = resolve(url, base);
+            changed ||= dataUrl !== null;
+            return [dataUrl ?? url, ...descriptors].join(" ");
+          });
+        return changed ? `${prefix}${quote}${candidates.join(", ")}${quote}` : match;
+      },
+    );
+
+  return rewriteCss(rewritten, base, resolve);
+}
+
+/**
+ * Split a header block from the body at the first empty line; folded header lines are joined
+ */
+function splitHeaders(text: string): { headers: Record<string, string>; body: string } {
+  const separator = /\r?\n\r?\n/.exec(text);
+  const head = separator ? text.slice(0, separator.index) : text;
+  const body = separator ? text.slice(separator.index + separator[0].length) : "";
+
+  const headers: Record<string, string> = {};
+  for (const line of head.replace(/\r?\n[ \t]+/g, " ").split(/\r?\n/)) {
+    const colon = line.indexOf(":");
+    if (colon > 0) {
+      headers[line.slice(0, colon).trim().toLowerCase()] = line.slice(colon + 1).trim();
+    }
+  }
+  return { headers, body };
+}
+
+function decodeBody(body: string, transferEncoding: string): Buffer {
+  switch (transferEncoding.trim().toLowerCase()) {
+    case "base64":
+      return Buffer.from(body, "base64");
+    case "quoted-printable":
+      return decodeQuotedPrintable(body);
+    default:
+      return Buffer.from(body, "utf8");
+  }
+}
+
+function decodeQuotedPrintable(text: string): Buffer {
+  const input = text.replace(/=\r?\n/g, "");
+  const output = Buffer.alloc(input.length);
+  let length = 0;
+  for (let i = 0; i < input.length; i++) {
+    const hex = input[i] === "=" ? input.slice(i + 1, i + 3) : "";
+    if (/^[0-9A-Fa-f]{2}$/.test(hex)) {
+      output[length++] = parseInt(hex, 16);
+      i += 2;
+    } else {
+      output[length++] = input.charCodeAt(i) & 0xff;
+    }
+  }
+  return output.subarray(0, length);
+}
+
+function decodeText(bytes: Buffer, charset: string): string {
+  try {
+    return new TextDecoder(charset).decode(bytes);
+  } catch {
+    // Unknown charset label
+    return bytes.toString("utf8");
+  }
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&");
+}
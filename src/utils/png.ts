@@ -0,0 +1,501 @@
+/**
+ * Minimal PNG codec
+ * Decodes the 8-bit, non-interlaced PNGs browsers produce into RGBA pixels
+ * and encodes RGBA pixels back (also as animated PNG), so screenshots can be
+ * stitched, resized and animated without native image dependencies
+ */
+
+import { deflateSync, inflateSync } from "node:zlib";
+
+export interface RGBAImage {
+  /** Width in pixels */
+  width: number;
+  /** Height in pixels */
+  height: number;
+  /** Pixel data, 4 bytes (RGBA) per pixel, row by row */
+  data: Buffer;
+}
+
+const PNG_SIGNATURE = Buffer.from([137, 80, 78, 71, 13, 10, 26, 10]);
+
+/** Bytes per pixel for each supported 8-bit color type */
+const CHANNELS: Record<number, number> = {
+  0: 1, // grayscale
+  2: 3, // RGB
+  3: 1, // palette index
+  4: 2, // grayscale + alpha
+  6: 4, // RGBA
+};
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * Whether a buffer starts with the PNG signature
+ * @param buffer - Image bytes
+ * @returns True for PNG data
+ */
+export function isPng(buffer: Buffer): boolean {
+  return buffer.subarray(0, 8).equals(PNG_SIGNATURE);
+}
+
+/**
+ * Decode a PNG into RGBA pixels
+ * @param buffer - PNG file bytes
+ * @returns Decoded image
+ * @throws Error for malformed files, interlaced images or bit depths other than 8
+ */
+export function decodePng(buffer: Buffer): RGBAImage {
+  if (!isPng(buffer)) {
+    throw new Error("Not a PNG image");
+  }
+
+  let width = 0;
+  let height = 0;
+  let colorType = -1;
+  let palette: Buffer | null = null;
+  let transparency: Buffer | null = null;
+  const idat: Buffer[] = [];
+
+  let offset = 8;
+  while (offset + 8 <= buffer.length) {
+    const length = buffer.readUInt32BE(offset);
+    const type = buffer.toString("ascii", offset + 4, offset + 8);
+    const chunk = buffer.subarray(offset + 8, offset + 8 + length);
+    offset += 12 + length;
+
+    if (type === "IHDR") {
+      width = chunk.readUInt32BE(0);
+      height = chunk.readUInt32BE(4);
+      const bitDepth = chunk[8];
+      colorType = chunk[9] ?? -1;
+      const interlace = chunk[12];
+      if (bitDepth !== 8 || interlace !== 0 || !(colorType in CHANNELS)) {
+        throw new Error(
+          `Unsupported PNG (bit depth ${bitDepth}, color type ${colorType}, interlace ${interlace})`,
+        );
+      }
+    } else if (type === "PLTE") {
+      palette = chunk;
+    } else if (type === "tRNS") {
+      transparency = chunk;
+    } else if (type === "IDAT") {
+      idat.push(chunk);
+    } else if (type === "IEND") {
+      break;
+    }
+  }
+
+  if (width === 0 || height === 0 || idat.length === 0) {
+    throw new Error("PNG is missing image data");
+  }
+
+  const channels = CHANNELS[colorType] ?? 4;
+  const pixels = unfilter(inflateSync(Buffer.concat(idat)), width, height, channels);
+  const data = Buffer.alloc(width * height * 4);
+
+  for (let i = 0, o = 0; i < pixels.length; i += channels, o += 4) {
+    const a = pixels[i] ?? 0;
+    switch (colorType) {
+      case 0:
+        data[o] = data[o + 1] = data[o + 2] = a;
+        data[o + 3] = 255;
+        break;
+      case 2:
+        data[o] = a;
+        data[o + 1] = pixels[i + 1] ?? 0;
+        data[o + 2] = pixels[i + 2] ?? 0;
+        data[o + 3] = 255;
+        break;
+      case 3:
+        data[o] = palette?.[a * 3] ?? 0;
+        data[o + 1] = palette?.[a * 3 + 1] ?? 0;
+        data[o + 2] = palette?.[a * 3 + 2] ?? 0;
+        data[o + 3] = transparency?.[a] ?? 255;
+        break;
+      case 4:
+        data[o] = data[o + 1] = data[o + 2] = a;
+        data[o + 3] = pixels[i + 1] ?? 255;
+        break;
+      default:
+        data[o] = a;
+        data[o + 1] = pixels[i + 1] ?? 0;
+        data[o + 2] = pixels[i + 2] ?? 0;
+        data[o + 3] = pixels[i + 3] ?? 255;
+    }
+  }
+
+  return { width, height, data };
+}
+
+/**
+ * Encode RGBA pixels as a PNG
+ * Each row uses whichever standard filter yields the smallest residuals
+ * @param image - Image to encode
+ * @returns PNG file bytes
+ */
+export function encodePng(image: RGBAImage): Buffer {
+  return Buffer.concat([
+    PNG_SIGNATURE,
+    createChunk("IHDR", createHeader(image.width, image.height)),
+    createChunk("IDAT", compressImage(image)),
+    createChunk("IEND", Buffer.alloc(0)),
+  ]);
+}
+
+/**
+ * Encode frames as an animated PNG (APNG) that loops forever
+ * Viewers without APNG support show the first frame
+ * @param frames - Frames in playback order; all must have the size of the first
+ * @param delaysMs - How long each frame is shown, in milliseconds
+ * @returns APNG file bytes
+ * @throws Error if there are no frames or their sizes differ
+ */
+export function encodeAnimatedPng(frames: RGBAImage[], delaysMs: number[]): Buffer {
+  const first = frames[0];
+  if (!first) {
+    throw new Error("An animation needs at least one frame");
+  }
+  if (frames.some((frame) => frame.width !== first.width || frame.height !== first.height)) {
+    throw new Error("Cannot animate frames of different sizes");
+  }
+
+  const animationControl = Buffer.alloc(8);
+  animationControl.writeUInt32BE(frames.length, 0);
+  animationControl.writeUInt32BE(0, 4); // loop forever
+
+  const chunks = [
+    PNG_SIGNATURE,
+    createChunk("IHDR", createHeader(first.width, first.height)),
+    createChunk("acTL", animationControl),
+  ];
+  // fcTL and fdAT chunks share one sequence
+  let sequence = 0;
+  frames.forEach((frame, index) => {
+    const frameControl = Buffer.alloc(26);
+    frameControl.writeUInt32BE(sequence++, 0);
+    frameControl.writeUInt32BE(frame.width, 4);
+    frameControl.writeUInt32BE(frame.height, 8);
+    // x and y offsets stay 0: every frame covers the whole canvas
+    frameControl.writeUInt16BE(Math.min(65535, Math.max(1, Math.round(delaysMs[index] ?? 100))), 20);
+    frameControl.writeUInt16BE(1000, 22); // delay in milliseconds
+    frameControl[24] = 0; // dispose: none
+    frameControl[25] = 0; // blend: source
+    chunks.push(createChunk("fcTL", frameControl));
+
+    const data = compressImage(frame);
+    if (index === 0) {
+      chunks.push(createChunk("IDAT", data));
+    } else {
+      const frameData = Buffer.alloc(4 + data.length);
+      frameData.writeUInt32BE(sequence++, 0);
+      data.copy(frameData, 4);
+      chunks.push(createChunk("fdAT", frameData));
+    }
+  });
+  chunks.push(createChunk("IEND", Buffer.alloc(0)));
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Share of pixels that differ between two images
+ * @param a - First image
+ * @param b - Second image
+ * @param tolerance - Largest per-channel difference still treated as equal
+ * @returns Fraction of differing pixels between 0 and 1; 1 if the sizes differ
+ */
+export function imageDifference(a: RGBAImage, b: RGBAImage, tolerance: number = 0): number {
+  if (a.width !== b.width || a.height !== b.height) {
+    return 1;
+  }
+  const pixels = a.width * a.height;
+  if (pixels === 0) {
+    return 0;
+  }
+
+  let changed = 0;
+  for (let i = 0; i < a.data.length; i += 4) {
+    for (let channel = 0; channel < 4; channel++) {
+      if (Math.abs((a.data[i + channel] ?? 0) - (b.data[i + channel] ?? 0)) > tolerance) {
+        changed++;
+        break;
+      }
+    }
+  }
+  return changed / pixels;
+}
+
+/**
+ * Read the dimensions of a PNG without decoding it
+ * @param buffer - PNG file bytes
+ * @returns Width and height in pixels
+ * @throws Error if the buffer is not a PNG
+ */
+export function readPngSize(buffer: Buffer): { width: number; height: number } {
+  if (!isPng(buffer) || buffer.length < 24) {
+    throw new Error("Not a PNG image");
+  }
+  return { width: buffer.readUInt32BE(16), height: buffer.readUInt32BE(20) };
+}
+
+/**
+ * Stack images vertically; all images must have the same width
+ * @param images - Images from top to bottom
+ * @returns Combined image
+ * @throws Error if widths differ
+ */
+export function stackImages(images: RGBAImage[]): RGBAImage {
+  const width = images[0]?.width ?? 0;
+  if (images.some((image) => image.width !== width)) {
+    throw new Error("Cannot stack images of different widths");
+  }
+  return {
+    width,
+    height: images.reduce((total, image) => total + image.height, 0),
+    data: Buffer.concat(images.map((image) => image.data)),
+  };
+}
+
+/**
+ * Crop an image to a region
+ * @param image - Source image
+ * @param x - Left edge in pixels
+ * @param y - Top edge in pixels
+ * @param width - Region width in pixels
+ * @param height - Region height in pixels
+ * @returns Cropped image, clamped to the source bounds
+ */
+export function cropImage(
+  image: RGBAImage,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+): RGBAImage {
+  const left = Math.max(0, Math.min(image.width, Math.round(x)));
+  const top = Math.max(0, Math.min(image.height, Math.round(y)));
+  const cropWidth = Math.max(0, Math.min(image.width - left, Math.round(width)));
+  const cropHeight = Math.max(0, Math.min(image.height - top, Math.round(height)));
+
+  const data = Buffer.alloc(cropWidth * cropHeight * 4);
+  for (let row = 0; row < cropHeight; row++) {
+    const start = ((top + row) * image.width + left) * 4;
+    image.data.copy(data, row * cropWidth * 4, start, start + cropWidth * 4);
+  }
+  return { width: cropWidth, height: cropHeight, data };
+}
+
+/**
+ * Downscale an image by averaging the source pixels each target pixel covers
+ * @param image - Source image
+ * @param width - Target width in pixels, at most the source width
+ * @param height - Target height in pixels, at most the source height
+ * @returns Resized image
+ */
+export function scaleImage(
+  image: RGBAImage,
+  width: number,
+  height: number,
+): RGBAImage {
+  const targetWidth = Math.max(1, Math.min(image.width, Math.round(width)));
+  const targetHeight = Math.max(1, Math.min(image.height, Math.round(height)));
+  const xRatio = image.width / targetWidth;
+  const yRatio = image.height / targetHeight;
+  const data = Buffer.alloc(targetWidth * targetHeight * 4);
+  const sums = new Float64Array(4);
+
+  for (let y = 0; y < targetHeight; y++) {
+    const top = y * yRatio;
+    const bottom = top + yRatio;
+    for (let x = 0; x < targetWidth; x++) {
+      const left = x * xRatio;
+      const right = left + xRatio;
+      sums.fill(0);
+      // Edge pixels count with the fraction of them the target pixel covers
+      for (let sourceY = Math.floor(top); sourceY < Math.ceil(bottom); sourceY++) {
+        const weightY = Math.min(bottom, sourceY + 1) - Math.max(top, sourceY);
+        for (let sourceX = Math.floor(left); sourceX < Math.ceil(right); sourceX++) {
+          const weight =
+            weightY * (Math.min(right, sourceX + 1) - Math.max(left, sourceX));
+          const offset = (sourceY * image.width + sourceX) * 4;
+          for (let channel = 0; channel < 4; channel++) {
+            sums[channel] = (sums[channel] ?? 0) + (image.data[offset + channel] ?? 0) * weight;
+          }
+        }
+      }
+      const area = xRatio * yRatio;
+      const offset = (y * targetWidth + x) * 4;
+      for (let channel = 0; channel < 4; channel++) {
+        data[offset + channel] = Math.round((sums[channel] ?? 0) / area);
+      }
+    }
+  }
+  return { width: targetWidth, height: targetHeight, data };
+}
+
+/**
+ * Build an IHDR payload for 8-bit RGBA
+ */
+function createHeader(width: number, height: number): Buffer {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8; // bit depth
+  header[9] = 6; // RGBA
+  return header;
+}
+
+/**
+ * Filter and deflate the pixel rows of an image
+ * Each row uses whichever standard filter yields the smallest residuals
+ */
+function compressImage(image: RGBAImage): Buffer {
+  const { width, height, data } = image;
+  const stride = width * 4;
+  const filtered = Buffer.alloc(height * (stride + 1));
+  const candidate = Buffer.alloc(stride);
+
+  for (let y = 0; y < height; y++) {
+    const row = data.subarray(y * stride, (y + 1) * stride);
+    const previous = y > 0 ? data.subarray((y - 1) * stride, y * stride) : null;
+    const target = filtered.subarray(y * (stride + 1));
+
+    let bestScore = Infinity;
+    for (let filter = 0; filter <= 4; filter++) {
+      const score = applyFilter(filter, row, previous, candidate, 4);
+      if (score < bestScore) {
+        bestScore = score;
+        target[0] = filter;
+        candidate.copy(target, 1);
+      }
+    }
+  }
+  return deflateSync(filtered);
+}
+
+/**
+ * Reverse the per-row PNG filters
+ */
+function unfilter(
+  raw: Buffer,
+  width: number,
+  height: number,
+  bytesPerPixel: number,
+): Buffer {
+  const stride = width * bytesPerPixel;
+  const out = Buffer.alloc(height * stride);
+
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    const line = raw.subarray(y * (stride + 1) + 1, (y + 1) * (stride + 1));
+    const rowStart = y * stride;
+
+    for (let x = 0; x < stride; x++) {
+      const left = x >= bytesPerPixel ? (out[rowStart + x - bytesPerPixel] ?? 0) : 0;
+      const up = y > 0 ? (out[rowStart - stride + x] ?? 0) : 0;
+      const upLeft =
+        y > 0 && x >= bytesPerPixel
+          ? (out[rowStart - stride + x - bytesPerPixel] ?? 0)
+          : 0;
+      const value = line[x] ?? 0;
+
+      let predicted: number;
+      switch (filter) {
+        case 0:
+          predicted = 0;
+          break;
+        case 1:
+          predicted = left;
+          break;
+        case 2:
+          predicted = up;
+          break;
+        case 3:
+          predicted = (left + up) >> 1;
+          break;
+        case 4:
+          predicted = paeth(left, up, upLeft);
+          break;
+        default:
+          throw new Error(`Invalid PNG filter type ${filter}`);
+      }
+      out[rowStart + x] = (value + predicted) & 0xff;
+    }
+  }
+
+  return out;
+}
+
+/**
+ * Filter one row into target and return the sum of absolute residuals
+ */
+function applyFilter(
+  filter: number,
+  row: Buffer,
+  previous: Buffer | null,
+  target: Buffer,
+  bytesPerPixel: number,
+): number {
+  let score = 0;
+  for (let x = 0; x < row.length; x++) {
+    const value = row[x] ?? 0;
+    const left = x >= bytesPerPixel ? (row[x - bytesPerPixel] ?? 0) : 0;
+    const up = previous?.[x] ?? 0;
+    const upLeft = x >= bytesPerPixel ? (previous?.[x - bytesPerPixel] ?? 0) : 0;
+
+    let residual: number;
+    switch (filter) {
+      case 1:
+        residual = value - left;
+        break;
+      case 2:
+        residual = value - up;
+        break;
+      case 3:
+        residual = value - ((left + up) >> 1);
+        break;
+      case 4:
+        residual = value - paeth(left, up, upLeft);
+        break;
+      default:
+        residual = value;
+    }
+    const byte = residual & 0xff;
+    target[x] = byte;
+    score += byte < 128 ? byte : 256 - byte;
+  }
+  return score;
+}
+
+function paeth(left: number, up: number, upLeft: number): number {
+  const p = left + up - upLeft;
+  const pa = Math.abs(p - left);
+  const pb = Math.abs(p - up);
+  const pc = Math.abs(p - upLeft);
+  if (pa <= pb && pa <= pc) return left;
+  if (pb <= pc) return up;
+  return upLeft;
+}
+
+function createChunk(type: string, data: Buffer): Buffer {
+  const chunk = Buffer.alloc(12 + data.length);
+  chunk.writeUInt32BE(data.length, 0);
+  chunk.write(type, 4, "ascii");
+  data.copy(chunk, 8);
+
+  let crc = 0xffffffff;
+  for (let i = 4; i < 8 + data.length; i++) {
+    crc = (CRC_TABLE[(crc ^ (chunk[i] ?? 0)) & 0xff] ?? 0) ^ (crc >>> 8);
+  }
+  chunk.writeUInt32BE((crc ^ 0xffffffff) >>> 0, 8 + data.length);
+  return chunk;
+}